@@ -1,5 +1,5 @@
 // App.tsx - Updated with Camera Integration
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -10,8 +10,32 @@ import {
   StatusBar,
   Platform,
   Modal,
+  TextInput,
 } from 'react-native';
 import CameraComponent from './components/CameraComponent';
+import { MOVEMENTS, MovementDefinition } from './components/MovementRegistry';
+import { BodyCalibration } from './components/Calibration';
+import { ScoreCriterion, SkippedCheck } from './components/FormAnalyzer';
+import { HistoryRepository, toHistoryRep } from './components/HistoryStore';
+import LoadLogger from './components/LoadLogger';
+import { AngleMode } from './components/PoseGeometry';
+import { PoseTrace } from './components/PoseTrace';
+import ProgressScreen from './components/ProgressScreen';
+import { RecurringFault, RepAnalysis } from './components/SetAnalyzer';
+import {
+  DEFAULT_ONE_REP_MAX_FORMULA,
+  LOAD_UNITS,
+  LoadUnit,
+  OneRepMaxFormulaId,
+  SetLoad,
+} from './components/StrengthMetrics';
+import { SetVelocity } from './components/VelocityMetrics';
+import { StoredVideo } from './components/VideoStore';
+import { CameraView } from './components/ViewClassifier';
+import WorkoutPlanner from './components/WorkoutPlanner';
+import WorkoutSession, { WorkoutPlan, WorkoutSetResult } from './components/WorkoutSession';
+import WorkoutSummaryScreen from './components/WorkoutSummaryScreen';
+import { LOCALES, Locale, getLocale, setLocale, t } from './i18n';
 
 const getFontFamily = (weight = 'regular') => {
   if (Platform.OS === 'ios') {
@@ -34,47 +58,82 @@ const getFontFamily = (weight = 'regular') => {
   }
 };
 
-interface Movement {
-  id: string;
-  name: string;
-  icon: string;
-  description: string;
-}
-
 interface AnalysisResult {
   movement: string;
   duration: number;
-  videoPath: string;
+  // Stored recording of the set; null when no video was recorded
+  videoPath: string | null;
   score: number;
+  breakdown: ScoreCriterion[];
   feedback: string[];
+  repCount: number;
+  reps: RepAnalysis[];
+  bestRep?: number;
+  worstRep?: number;
+  recurringFaults: RecurringFault[];
+  view: CameraView;
+  angleMode: AngleMode;
+  skippedChecks: SkippedCheck[];
+  calibration: BodyCalibration | null;
+  velocity: SetVelocity | null;
+  // What was on the bar; null when no load was logged
+  load: SetLoad | null;
+  // Raw pose frames of the set, for replaying it through the analyzer
+  poseTrace?: PoseTrace;
 }
 
+const history = new HistoryRepository();
+
 const App: React.FC = () => {
   const [selectedMovement, setSelectedMovement] = useState<string>('squat');
   const [isCameraActive, setIsCameraActive] = useState<boolean>(false);
   const [lastAnalysis, setLastAnalysis] = useState<AnalysisResult | null>(null);
   const [showResults, setShowResults] = useState<boolean>(false);
+  const [showProgress, setShowProgress] = useState<boolean>(false);
+  // Optional; lets bar speed be reported in m/s
+  const [athleteHeight, setAthleteHeight] = useState<string>('');
+  // Load for the next set, in loadUnit; optional
+  const [loadInput, setLoadInput] = useState<string>('');
+  const [loadUnit, setLoadUnit] = useState<LoadUnit>('kg');
+  const [oneRepMaxFormula, setOneRepMaxFormula] = useState<OneRepMaxFormulaId>(DEFAULT_ONE_REP_MAX_FORMULA);
+  // Set when re-running a recorded set instead of using the camera
+  const [replayTrace, setReplayTrace] = useState<PoseTrace | null>(null);
+  // Mirrors the i18n module's locale so switching it re-renders the app
+  const [locale, setLocaleState] = useState<Locale>(getLocale());
+  // History session the sets of this app run are saved under, once one is saved
+  const historySession = useRef<Promise<string> | null>(null);
+  // History id of the set on the results screen, so a load logged there is saved with it
+  const lastSavedSet = useRef<Promise<string | null> | null>(null);
+  // The same set in the workout, so its volume counts the logged load
+  const lastWorkoutSet = useRef<WorkoutSetResult | null>(null);
+  // Set while a planned workout is under way, and until its summary is closed
+  const [workout, setWorkout] = useState<WorkoutSession | null>(null);
+  const [showPlanner, setShowPlanner] = useState<boolean>(false);
+  const [showWorkoutSummary, setShowWorkoutSummary] = useState<boolean>(false);
+  // Bumped to redraw the rest countdown; the workout keeps the time itself
+  const [, setWorkoutTick] = useState<number>(0);
+
+  const movements = MOVEMENTS;
+  const workoutStatus = workout ? workout.getStatus() : null;
+  const workoutPhase = workoutStatus?.phase;
 
-  const movements: Movement[] = [
-    { 
-      id: 'squat', 
-      name: 'Squat', 
-      icon: '🏋️',
-      description: 'Analyze squat depth, knee tracking, and posture'
-    },
-    { 
-      id: 'bench', 
-      name: 'Bench Press', 
-      icon: '💪',
-      description: 'Check bar path, elbow position, and symmetry'
-    },
-    { 
-      id: 'deadlift', 
-      name: 'Deadlift', 
-      icon: '⚡',
-      description: 'Evaluate hip hinge, back position, and bar path'
+  // Counts the rest down and opens the camera for the next set when it's
+  // over. Not while the results are open: the lifter may still be logging
+  // the last set there, and starts the next one from its button instead.
+  useEffect(() => {
+    if (!workout || workoutPhase !== 'rest') {
+      return;
     }
-  ];
+    const timer = setInterval(() => {
+      const status = workout.getStatus();
+      setWorkoutTick(tick => tick + 1);
+      if (status.phase === 'set' && status.exercise && !showResults) {
+        setSelectedMovement(status.exercise.movement);
+        setIsCameraActive(true);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [workout, workoutPhase, showResults]);
 
   const startAnalysis = (): void => {
     setIsCameraActive(true);
@@ -84,26 +143,232 @@ const App: React.FC = () => {
     setSelectedMovement(movementId);
   };
 
-  const handleVideoRecorded = (video: any): void => {
-    console.log('Video recorded:', video.path);
-    // Here you could save the video or trigger additional processing
+  const handleLocaleSelect = (id: Locale): void => {
+    setLocale(id);
+    setLocaleState(id);
+  };
+
+  const getMovementName = (movementId: string): string => t(`movement.${movementId}.name`);
+
+  const handleVideoRecorded = (video: StoredVideo): void => {
+    console.log('Video saved:', video.path, `${Math.round(video.size / 1024)} KB`);
+  };
+
+  const saveToHistory = async (results: AnalysisResult): Promise<string | null> => {
+    if (!history.isAvailable()) {
+      return null;
+    }
+    try {
+      if (!historySession.current) {
+        historySession.current = history.startSession().then(session => session.id, error => {
+          historySession.current = null;
+          throw error;
+        });
+      }
+      const set = await history.addSet(await historySession.current, {
+        movement: results.movement,
+        recordedAt: Date.now(),
+        durationSeconds: results.duration,
+        score: results.score,
+        repCount: results.repCount,
+        reps: results.reps.map(toHistoryRep),
+        breakdown: results.breakdown,
+        feedback: results.feedback,
+        recurringFaults: results.recurringFaults,
+        skippedChecks: results.skippedChecks,
+        view: results.view,
+        angleMode: results.angleMode,
+        calibration: results.calibration,
+        velocity: results.velocity,
+        load: results.load,
+        videoPath: results.videoPath,
+      }, results.poseTrace);
+      return set.id;
+    } catch (error) {
+      console.error('History save error:', error);
+      return null;
+    }
+  };
+
+  // The load typed in for the next set, with the reps the analysis counted
+  const getNextSetLoad = (repCount: number): SetLoad | null => {
+    const load = parseFloat(loadInput);
+    return load > 0 ? { load, unit: loadUnit, reps: repCount, rpe: null } : null;
+  };
+
+  // Fills in the load a workout plans for its next set
+  const prefillPlannedLoad = (load: number | null): void => {
+    if (load !== null) {
+      setLoadInput(String(load));
+    }
+  };
+
+  const handleLoadLogged = (load: SetLoad | null): void => {
+    setLastAnalysis(current => (current ? { ...current, load } : current));
+    if (workout && lastWorkoutSet.current) {
+      workout.updateLoad(lastWorkoutSet.current.exerciseIndex, lastWorkoutSet.current.setNumber, load);
+    }
+    lastSavedSet.current
+      ?.then(setId => (setId ? history.updateLoad(setId, load) : null))
+      .catch(error => {
+        console.error('History save error:', error);
+      });
+  };
+
+  // Closes the history session the sets so far went into; later sets start a new one
+  const endHistorySession = (): void => {
+    const session = historySession.current;
+    historySession.current = null;
+    session?.then(id => history.endSession(id)).catch(error => {
+      console.error('History save error:', error);
+    });
+  };
+
+  const startWorkout = (plan: WorkoutPlan): void => {
+    // The workout's sets go into a history session of their own
+    endHistorySession();
+    setWorkout(new WorkoutSession(plan));
+    setSelectedMovement(plan.exercises[0].movement);
+    prefillPlannedLoad(plan.exercises[0].load);
+    setShowPlanner(false);
+  };
+
+  // Starts the set up next, cutting any rest short
+  const startWorkoutSet = (): void => {
+    const status = workout?.getStatus();
+    if (!workout || !status?.exercise) {
+      return;
+    }
+    workout.skipRest();
+    setSelectedMovement(status.exercise.movement);
+    setShowResults(false);
+    setIsCameraActive(true);
+  };
+
+  const endWorkout = (): void => {
+    workout?.finish();
+    endHistorySession();
+    setShowResults(false);
+    setShowWorkoutSummary(true);
   };
 
-  const handleAnalysisComplete = (results: AnalysisResult): void => {
+  const skipWorkoutExercise = (): void => {
+    workout?.skipExercise();
+    const status = workout?.getStatus();
+    if (!status?.exercise) {
+      endWorkout();
+      return;
+    }
+    setSelectedMovement(status.exercise.movement);
+    prefillPlannedLoad(status.exercise.load);
+    setWorkoutTick(tick => tick + 1);
+  };
+
+  const skipWorkoutRest = (): void => {
+    workout?.skipRest();
+    setWorkoutTick(tick => tick + 1);
+  };
+
+  const closeWorkoutSummary = (): void => {
+    setShowWorkoutSummary(false);
+    setWorkout(null);
+  };
+
+  const handleAnalysisComplete = (analysis: Omit<AnalysisResult, 'load'>): void => {
+    // A replay keeps the load logged for the set it re-analyzes
+    const results: AnalysisResult = {
+      ...analysis,
+      load: replayTrace ? lastAnalysis?.load ?? null : getNextSetLoad(analysis.repCount),
+    };
+    lastSavedSet.current = null;
+    // A replay re-analyzes a set that's already in the history
+    if (!replayTrace) {
+      lastSavedSet.current = saveToHistory(results);
+      lastWorkoutSet.current = null;
+      if (workout && !workout.isFinished()) {
+        lastWorkoutSet.current = workout.recordSet({
+          score: results.score,
+          repCount: results.repCount,
+          durationSeconds: results.duration,
+          recurringFaults: results.recurringFaults,
+          load: results.load,
+        });
+        const next = workout.getStatus();
+        if (next.exercise) {
+          setSelectedMovement(next.exercise.movement);
+          prefillPlannedLoad(next.exercise.load);
+        } else {
+          endHistorySession();
+        }
+      }
+    }
     setLastAnalysis(results);
+    setReplayTrace(null);
     setIsCameraActive(false);
     setShowResults(true);
   };
 
+  const getAthleteHeightCm = (): number | null => {
+    const height = parseFloat(athleteHeight);
+    return height > 0 ? height : null;
+  };
+
+  const formatSeconds = (seconds: number): string => `${seconds.toFixed(1)}s`;
+
+  const formatRest = (seconds: number): string =>
+    `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+  // Set deductions are averaged over the reps, so they can be fractional
+  const formatPoints = (points: number): string => `${Math.round(points * 10) / 10}`;
+
+  const getTotalDeductions = (breakdown: ScoreCriterion[]): number =>
+    breakdown.reduce((sum, criterion) =>
+      sum + criterion.deductions.reduce((total, deduction) => total + deduction.penalty, 0), 0);
+
   const closeCameraModal = (): void => {
     setIsCameraActive(false);
+    setReplayTrace(null);
+  };
+
+  const replayLastSet = (): void => {
+    if (!lastAnalysis?.poseTrace) {
+      return;
+    }
+    setSelectedMovement(lastAnalysis.poseTrace.header.movement);
+    setReplayTrace(lastAnalysis.poseTrace);
+    setShowResults(false);
+    setIsCameraActive(true);
   };
 
   const closeResultsModal = (): void => {
     setShowResults(false);
   };
 
-  const getSelectedMovement = (): Movement => {
+  const recordAnother = (): void => {
+    if (workout?.isFinished()) {
+      closeResultsModal();
+      setShowWorkoutSummary(true);
+    } else if (workout) {
+      startWorkoutSet();
+    } else {
+      closeResultsModal();
+      startAnalysis();
+    }
+  };
+
+  const getRecordAnotherLabel = (): string => {
+    if (!workoutStatus) {
+      return t('results.recordAnother');
+    }
+    if (workoutStatus.phase === 'finished') {
+      return t('workout.viewSummary');
+    }
+    return workoutStatus.phase === 'rest'
+      ? t('workout.nextSetIn', { time: formatRest(workoutStatus.restRemainingSeconds) })
+      : t('workout.nextSet');
+  };
+
+  const getSelectedMovement = (): MovementDefinition => {
     return movements.find(m => m.id === selectedMovement) || movements[0];
   };
 
@@ -114,9 +379,9 @@ const App: React.FC = () => {
   };
 
   const getScoreLabel = (score: number): string => {
-    if (score >= 80) return 'Excellent';
-    if (score >= 60) return 'Good';
-    return 'Needs Work';
+    if (score >= 80) return t('app.scoreExcellent');
+    if (score >= 60) return t('app.scoreGood');
+    return t('app.scoreNeedsWork');
   };
 
   return (
@@ -125,14 +390,14 @@ const App: React.FC = () => {
       
       {/* Header */}
       <View style={styles.header}>
-        <Text style={styles.title}>Technical Mastery</Text>
-        <Text style={styles.subtitle}>AI Weightlifting Coach</Text>
+        <Text style={styles.title}>{t('app.title')}</Text>
+        <Text style={styles.subtitle}>{t('app.subtitle')}</Text>
       </View>
 
       {/* Movement Selection */}
       <View style={styles.movementSelector}>
-        <Text style={styles.sectionTitle}>Select Movement</Text>
-        {movements.map((movement: Movement) => (
+        <Text style={styles.sectionTitle}>{t('app.selectMovement')}</Text>
+        {movements.map((movement: MovementDefinition) => (
           <TouchableOpacity
             key={movement.id}
             style={[
@@ -148,28 +413,116 @@ const App: React.FC = () => {
                 styles.movementText,
                 selectedMovement === movement.id && styles.selectedMovementText
               ]}>
-                {movement.name}
+                {getMovementName(movement.id)}
               </Text>
               <Text style={[
                 styles.movementDescription,
                 selectedMovement === movement.id && styles.selectedMovementDescription
               ]}>
-                {movement.description}
+                {t(`movement.${movement.id}.description`)}
               </Text>
             </View>
           </TouchableOpacity>
         ))}
+
+        <View style={styles.heightRow}>
+          <Text style={styles.heightLabel}>{t('app.athleteHeight')}</Text>
+          <TextInput
+            style={styles.heightInput}
+            value={athleteHeight}
+            onChangeText={setAthleteHeight}
+            keyboardType="numeric"
+            placeholder={t('app.optional')}
+            placeholderTextColor={colors.textTertiary}
+            maxLength={3}
+          />
+        </View>
+
+        <View style={styles.heightRow}>
+          <Text style={styles.heightLabel}>{t('app.load')}</Text>
+          <View style={styles.localeList}>
+            <TextInput
+              style={styles.heightInput}
+              value={loadInput}
+              onChangeText={setLoadInput}
+              keyboardType="numeric"
+              placeholder={t('app.optional')}
+              placeholderTextColor={colors.textTertiary}
+              maxLength={6}
+            />
+            {LOAD_UNITS.map(unit => (
+              <TouchableOpacity
+                key={unit}
+                style={[styles.localeChip, loadUnit === unit && styles.localeChipSelected]}
+                onPress={() => setLoadUnit(unit)}
+              >
+                <Text style={styles.localeChipText}>{unit}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.heightRow}>
+          <Text style={styles.heightLabel}>{t('app.language')}</Text>
+          <View style={styles.localeList}>
+            {LOCALES.map(option => (
+              <TouchableOpacity
+                key={option.id}
+                style={[styles.localeChip, locale === option.id && styles.localeChipSelected]}
+                onPress={() => handleLocaleSelect(option.id)}
+              >
+                <Text style={styles.localeChipText}>{option.name}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
       </View>
 
       {/* Camera Preview Area */}
       <View style={styles.previewArea}>
+        {workoutStatus?.exercise && (
+          <View style={styles.workoutBanner}>
+            <Text style={styles.workoutExercise}>
+              {getMovementName(workoutStatus.exercise.movement)} · {t('workout.setOf', {
+                set: workoutStatus.setNumber,
+                sets: workoutStatus.exercise.sets,
+              })}
+            </Text>
+            <Text style={styles.workoutDetail}>
+              {workoutStatus.exercise.load !== null
+                ? t('workout.targetLoad', { count: workoutStatus.exercise.targetReps, load: workoutStatus.exercise.load })
+                : t('workout.target', { count: workoutStatus.exercise.targetReps })}
+              {'  ·  '}
+              {t('workout.progress', { done: workoutStatus.completedSets, total: workoutStatus.plannedSets })}
+            </Text>
+            {workoutStatus.phase === 'rest' && (
+              <Text style={styles.workoutRest}>
+                {t('workout.resting', { time: formatRest(workoutStatus.restRemainingSeconds) })}
+              </Text>
+            )}
+            <View style={styles.workoutActions}>
+              {workoutStatus.phase === 'rest' && (
+                <TouchableOpacity style={styles.workoutAction} onPress={skipWorkoutRest}>
+                  <Text style={styles.workoutActionText}>{t('workout.skipRest')}</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity style={styles.workoutAction} onPress={skipWorkoutExercise}>
+                <Text style={styles.workoutActionText}>{t('workout.skipExercise')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.workoutAction} onPress={endWorkout}>
+                <Text style={styles.workoutActionText}>{t('workout.end')}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
         <Text style={styles.previewTitle}>
-          Ready to analyze: {getSelectedMovement().name}
+          {t('app.readyToAnalyze', { movement: getMovementName(getSelectedMovement().id) })}
         </Text>
         <View style={styles.cameraPlaceholder}>
           <Text style={styles.placeholderText}>📷</Text>
           <Text style={styles.placeholderSubtext}>
-            Tap "Start Recording" to begin analysis
+            {t('app.tapToBegin')}
           </Text>
           
           {lastAnalysis && (
@@ -178,10 +531,19 @@ const App: React.FC = () => {
               onPress={() => setShowResults(true)}
             >
               <Text style={styles.lastResultsText}>
-                View Last Results ({lastAnalysis.score}/100)
+                {t('app.viewLastResults', { score: lastAnalysis.score })}
               </Text>
             </TouchableOpacity>
           )}
+
+          {history.isAvailable() && (
+            <TouchableOpacity
+              style={[styles.lastResultsButton, styles.progressButton]}
+              onPress={() => setShowProgress(true)}
+            >
+              <Text style={styles.lastResultsText}>{t('app.viewProgress')}</Text>
+            </TouchableOpacity>
+          )}
         </View>
       </View>
 
@@ -189,20 +551,33 @@ const App: React.FC = () => {
       <View style={styles.controls}>
         <TouchableOpacity
           style={styles.startButton}
-          onPress={startAnalysis}
+          onPress={workoutStatus?.exercise ? startWorkoutSet : startAnalysis}
           activeOpacity={0.8}
         >
-          <Text style={styles.buttonText}>Start Recording</Text>
+          <Text style={styles.buttonText}>
+            {workoutStatus?.exercise
+              ? t('workout.recordSet', { set: workoutStatus.setNumber, sets: workoutStatus.exercise.sets })
+              : t('app.startRecording')}
+          </Text>
         </TouchableOpacity>
+
+        {!workout && (
+          <TouchableOpacity
+            style={styles.planWorkoutButton}
+            onPress={() => setShowPlanner(true)}
+          >
+            <Text style={styles.planWorkoutText}>{t('workout.plan')}</Text>
+          </TouchableOpacity>
+        )}
       </View>
 
       {/* Status */}
       <View style={styles.status}>
         <Text style={styles.statusText}>
-          Ready to record {getSelectedMovement().name.toLowerCase()} analysis
+          {t('app.readyToRecord', { movement: getMovementName(getSelectedMovement().id).toLowerCase() })}
         </Text>
         <Text style={styles.versionText}>
-          MVP v1.1 - Camera Integration Active
+          {t('app.version')}
         </Text>
       </View>
 
@@ -216,6 +591,8 @@ const App: React.FC = () => {
         <View style={styles.cameraModal}>
           <CameraComponent
             selectedMovement={selectedMovement}
+            athleteHeightCm={getAthleteHeightCm()}
+            replayTrace={replayTrace}
             onVideoRecorded={handleVideoRecorded}
             onAnalysisComplete={handleAnalysisComplete}
           />
@@ -231,6 +608,80 @@ const App: React.FC = () => {
         </View>
       </Modal>
 
+      {/* Progress Modal */}
+      <Modal
+        visible={showProgress}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setShowProgress(false)}
+      >
+        <View style={styles.resultsOverlay}>
+          <View style={[styles.resultsModal, styles.progressModal]}>
+            <View style={styles.resultsHeader}>
+              <Text style={styles.resultsTitle}>{t('progress.title')}</Text>
+              <TouchableOpacity
+                style={styles.resultsCloseButton}
+                onPress={() => setShowProgress(false)}
+              >
+                <Text style={styles.closeButtonText}>✕</Text>
+              </TouchableOpacity>
+            </View>
+            <ProgressScreen
+              history={history}
+              initialMovement={selectedMovement}
+              loadUnit={loadUnit}
+              formula={oneRepMaxFormula}
+            />
+          </View>
+        </View>
+      </Modal>
+
+      {/* Workout Planner Modal */}
+      <Modal
+        visible={showPlanner}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setShowPlanner(false)}
+      >
+        <View style={styles.resultsOverlay}>
+          <View style={[styles.resultsModal, styles.progressModal]}>
+            <View style={styles.resultsHeader}>
+              <Text style={styles.resultsTitle}>{t('workout.title')}</Text>
+              <TouchableOpacity
+                style={styles.resultsCloseButton}
+                onPress={() => setShowPlanner(false)}
+              >
+                <Text style={styles.closeButtonText}>✕</Text>
+              </TouchableOpacity>
+            </View>
+            <WorkoutPlanner initialMovement={selectedMovement} loadUnit={loadUnit} onStart={startWorkout} />
+          </View>
+        </View>
+      </Modal>
+
+      {/* Workout Summary Modal */}
+      <Modal
+        visible={showWorkoutSummary}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={closeWorkoutSummary}
+      >
+        <View style={styles.resultsOverlay}>
+          <View style={[styles.resultsModal, styles.progressModal]}>
+            <View style={styles.resultsHeader}>
+              <Text style={styles.resultsTitle}>{t('workout.summaryTitle')}</Text>
+              <TouchableOpacity
+                style={styles.resultsCloseButton}
+                onPress={closeWorkoutSummary}
+              >
+                <Text style={styles.closeButtonText}>✕</Text>
+              </TouchableOpacity>
+            </View>
+            {workout && <WorkoutSummaryScreen summary={workout.getSummary(loadUnit)} />}
+          </View>
+        </View>
+      </Modal>
+
       {/* Results Modal */}
       <Modal
         visible={showResults}
@@ -241,7 +692,7 @@ const App: React.FC = () => {
         <View style={styles.resultsOverlay}>
           <View style={styles.resultsModal}>
             <View style={styles.resultsHeader}>
-              <Text style={styles.resultsTitle}>Analysis Results</Text>
+              <Text style={styles.resultsTitle}>{t('results.title')}</Text>
               <TouchableOpacity
                 style={styles.resultsCloseButton}
                 onPress={closeResultsModal}
@@ -254,7 +705,7 @@ const App: React.FC = () => {
               <View style={styles.resultsContent}>
                 <View style={styles.scoreSection}>
                   <Text style={styles.movementTitle}>
-                    {lastAnalysis.movement.toUpperCase()}
+                    {getMovementName(lastAnalysis.movement).toUpperCase()}
                   </Text>
                   <Text style={[
                     styles.scoreText,
@@ -270,8 +721,83 @@ const App: React.FC = () => {
                   </Text>
                 </View>
 
+                <LoadLogger
+                  value={lastAnalysis.load}
+                  analyzedReps={lastAnalysis.repCount}
+                  unit={loadUnit}
+                  formula={oneRepMaxFormula}
+                  onChange={handleLoadLogged}
+                  onFormulaChange={setOneRepMaxFormula}
+                />
+
+                {lastAnalysis.breakdown.length > 0 && (
+                  <View style={styles.feedbackSection}>
+                    <Text style={styles.feedbackTitle}>{t('results.breakdown')}</Text>
+                    <Text style={styles.breakdownSummary}>
+                      {t('results.breakdownSummary', {
+                        points: formatPoints(getTotalDeductions(lastAnalysis.breakdown)),
+                        score: lastAnalysis.score,
+                      })}
+                    </Text>
+                    {lastAnalysis.breakdown.map(criterion => (
+                      <View key={criterion.rule} style={styles.breakdownRow}>
+                        <View style={styles.breakdownHeader}>
+                          <Text style={styles.breakdownLabel}>
+                            {criterion.label}
+                            <Text style={styles.breakdownWeight}>
+                              {'  '}{t('results.weight', { points: criterion.weight })}
+                            </Text>
+                          </Text>
+                          <Text style={[
+                            styles.breakdownSubscore,
+                            criterion.subscore !== null && { color: getScoreColor(criterion.subscore) },
+                          ]}>
+                            {criterion.subscore !== null ? criterion.subscore : t('results.notMeasured')}
+                          </Text>
+                        </View>
+                        {criterion.deductions.map(deduction => (
+                          <Text key={deduction.code} style={styles.breakdownDeduction}>
+                            −{formatPoints(deduction.penalty)}  {deduction.cue}
+                            {deduction.reps && ` (${t('results.deductionReps', {
+                              reps: deduction.reps.join(', '),
+                              count: deduction.reps.length,
+                            })})`}
+                          </Text>
+                        ))}
+                      </View>
+                    ))}
+                  </View>
+                )}
+
+                {lastAnalysis.reps.length > 0 && (
+                  <View style={styles.repsSection}>
+                    <Text style={styles.feedbackTitle}>
+                      {t('results.reps', { count: lastAnalysis.repCount })}
+                    </Text>
+                    <View style={styles.repList}>
+                      {lastAnalysis.reps.map(rep => (
+                        <View
+                          key={rep.repNumber}
+                          style={[
+                            styles.repChip,
+                            rep.repNumber === lastAnalysis.bestRep && styles.repChipBest,
+                            rep.repNumber === lastAnalysis.worstRep && styles.repChipWorst,
+                          ]}>
+                          <Text style={styles.repChipLabel}>#{rep.repNumber}</Text>
+                          <Text style={[
+                            styles.repChipScore,
+                            { color: getScoreColor(rep.score) },
+                          ]}>
+                            {rep.score}
+                          </Text>
+                        </View>
+                      ))}
+                    </View>
+                  </View>
+                )}
+
                 <View style={styles.feedbackSection}>
-                  <Text style={styles.feedbackTitle}>Feedback</Text>
+                  <Text style={styles.feedbackTitle}>{t('results.feedback')}</Text>
                   {lastAnalysis.feedback.map((item, index) => (
                     <View key={index} style={styles.feedbackItem}>
                       <Text style={styles.feedbackBullet}>•</Text>
@@ -280,9 +806,44 @@ const App: React.FC = () => {
                   ))}
                 </View>
 
+                {lastAnalysis.velocity && (
+                  <View style={styles.feedbackSection}>
+                    <Text style={styles.feedbackTitle}>
+                      {t('results.tempoVelocity', { percent: Math.round(lastAnalysis.velocity.velocityLoss) })}
+                    </Text>
+                    {lastAnalysis.reps.map(rep => (
+                      <Text key={rep.repNumber} style={styles.tempoText}>
+                        {t('results.tempo', {
+                          rep: rep.repNumber,
+                          down: formatSeconds(rep.tempo.eccentric),
+                          pause: formatSeconds(rep.tempo.pause),
+                          up: formatSeconds(rep.tempo.concentric),
+                        })}
+                        {rep.velocity && `  ·  ${rep.velocity.meanConcentric.toFixed(2)} ${rep.velocity.unit}`}
+                      </Text>
+                    ))}
+                  </View>
+                )}
+
+                {lastAnalysis.skippedChecks.length > 0 && (
+                  <View style={styles.feedbackSection}>
+                    <Text style={styles.feedbackTitle}>{t('results.notChecked')}</Text>
+                    {lastAnalysis.skippedChecks.map(check => (
+                      <View key={check.rule} style={styles.feedbackItem}>
+                        <Text style={styles.feedbackBullet}>–</Text>
+                        <Text style={styles.feedbackText}>
+                          {check.label}: {check.reason}
+                        </Text>
+                      </View>
+                    ))}
+                  </View>
+                )}
+
                 <View style={styles.detailsSection}>
                   <Text style={styles.detailsText}>
-                    Duration: {lastAnalysis.duration}s
+                    {t('results.duration', { seconds: lastAnalysis.duration })}
+                    {lastAnalysis.view !== 'unknown' && ` · ${t('results.view', { view: t(`view.${lastAnalysis.view}`) })}`}
+                    {` · ${t(lastAnalysis.angleMode === '3d' ? 'results.angles3d' : 'results.angles2d')}`}
                   </Text>
                 </View>
               </View>
@@ -290,13 +851,19 @@ const App: React.FC = () => {
 
             <TouchableOpacity
               style={styles.recordAgainButton}
-              onPress={() => {
-                closeResultsModal();
-                startAnalysis();
-              }}
+              onPress={recordAnother}
             >
-              <Text style={styles.recordAgainText}>Record Another Set</Text>
+              <Text style={styles.recordAgainText}>{getRecordAnotherLabel()}</Text>
             </TouchableOpacity>
+
+            {__DEV__ && lastAnalysis?.poseTrace && lastAnalysis.poseTrace.frames.length > 0 && (
+              <TouchableOpacity
+                style={styles.replayButton}
+                onPress={replayLastSet}
+              >
+                <Text style={styles.replayText}>{t('results.replay')}</Text>
+              </TouchableOpacity>
+            )}
           </View>
         </View>
       </Modal>
@@ -403,6 +970,49 @@ const styles = StyleSheet.create({
     color: colors.white,
     opacity: 0.9,
   },
+  heightRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 4,
+  },
+  heightLabel: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    fontFamily: getFontFamily('medium'),
+  },
+  heightInput: {
+    width: 96,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+    color: colors.textPrimary,
+    textAlign: 'right',
+    fontFamily: getFontFamily('regular'),
+  },
+  localeList: {
+    flexDirection: 'row',
+  },
+  localeChip: {
+    marginLeft: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  localeChipSelected: {
+    borderColor: colors.primary,
+  },
+  localeChipText: {
+    fontSize: 13,
+    color: colors.textPrimary,
+    fontFamily: getFontFamily('medium'),
+  },
   
   // Preview area
   previewArea: {
@@ -450,6 +1060,9 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: '500',
   },
+  progressButton: {
+    marginTop: 8,
+  },
   
   // Controls
   controls: {
@@ -474,6 +1087,67 @@ const styles = StyleSheet.create({
     fontFamily: getFontFamily('semibold'),
     color: colors.white,
   },
+  planWorkoutButton: {
+    marginTop: 10,
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  planWorkoutText: {
+    fontSize: 14,
+    fontWeight: '500',
+    fontFamily: getFontFamily('medium'),
+    color: colors.textSecondary,
+  },
+
+  // Workout banner
+  workoutBanner: {
+    padding: 14,
+    marginBottom: 12,
+    borderRadius: 12,
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.primary,
+  },
+  workoutExercise: {
+    fontSize: 16,
+    fontWeight: '600',
+    fontFamily: getFontFamily('semibold'),
+    color: colors.textPrimary,
+  },
+  workoutDetail: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    fontFamily: getFontFamily('regular'),
+    marginTop: 4,
+  },
+  workoutRest: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    fontFamily: getFontFamily('bold'),
+    color: colors.primaryLight,
+    marginTop: 8,
+  },
+  workoutActions: {
+    flexDirection: 'row',
+    marginTop: 10,
+  },
+  workoutAction: {
+    marginRight: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: colors.backgroundSecondary,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  workoutActionText: {
+    fontSize: 12,
+    color: colors.textPrimary,
+    fontFamily: getFontFamily('medium'),
+  },
   
   // Status
   status: {
@@ -537,6 +1211,9 @@ const styles = StyleSheet.create({
     maxWidth: 400,
     maxHeight: '80%',
   },
+  progressModal: {
+    height: '80%',
+  },
   resultsHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -618,6 +1295,86 @@ const styles = StyleSheet.create({
     fontFamily: getFontFamily('regular'),
   },
   
+  // Reps section
+  repsSection: {
+    marginBottom: 20,
+  },
+  repList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  repChip: {
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 8,
+    borderRadius: 8,
+    backgroundColor: colors.backgroundSecondary,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  repChipBest: {
+    borderColor: colors.success,
+  },
+  repChipWorst: {
+    borderColor: colors.error,
+  },
+  repChipLabel: {
+    fontSize: 10,
+    color: colors.textTertiary,
+    fontFamily: getFontFamily('regular'),
+  },
+  repChipScore: {
+    fontSize: 16,
+    fontWeight: '600',
+    fontFamily: getFontFamily('semibold'),
+  },
+
+  breakdownSummary: {
+    fontSize: 13,
+    color: colors.textTertiary,
+    fontFamily: getFontFamily('regular'),
+    marginBottom: 8,
+  },
+  breakdownRow: {
+    marginBottom: 8,
+  },
+  breakdownHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  breakdownLabel: {
+    fontSize: 14,
+    color: colors.textPrimary,
+    fontFamily: getFontFamily('medium'),
+  },
+  breakdownWeight: {
+    fontSize: 12,
+    color: colors.textTertiary,
+    fontFamily: getFontFamily('regular'),
+  },
+  breakdownSubscore: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: colors.textTertiary,
+    fontFamily: getFontFamily('bold'),
+  },
+  breakdownDeduction: {
+    fontSize: 13,
+    color: colors.error,
+    fontFamily: getFontFamily('regular'),
+    marginTop: 2,
+    marginLeft: 8,
+  },
+  tempoText: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginBottom: 4,
+    fontFamily: getFontFamily('regular'),
+  },
+
   // Details section
   detailsSection: {
     padding: 12,
@@ -644,6 +1401,16 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     fontFamily: getFontFamily('semibold'),
   },
+  replayButton: {
+    marginTop: 12,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  replayText: {
+    color: colors.textSecondary,
+    fontSize: 14,
+    fontFamily: getFontFamily('medium'),
+  },
 });
 
 export default App;
\ No newline at end of file
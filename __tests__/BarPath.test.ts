@@ -0,0 +1,111 @@
+/**
+ * @format
+ */
+
+import BarPathTracker from '../components/BarPath';
+import { BodyCalibration } from '../components/Calibration';
+import { KeyPoint, PoseData } from '../components/FormAnalyzer';
+import { RepPhase } from '../components/RepTracker';
+
+const CALIBRATION: BodyCalibration = {
+  segments: { torso: 0.3, femur: 0.2, shin: 0.2, upperArm: 0.2 },
+  sampleCount: 30,
+  capturedAt: 0,
+};
+
+// Bench from the side, head towards the left of the image, hands at `bar`
+const benchFrame = (timestamp: number, bar: KeyPoint | null): PoseData => ({
+  timestamp,
+  keypoints: {
+    nose: { x: 0.3, y: 0.55 },
+    leftShoulder: { x: 0.4, y: 0.55 },
+    rightShoulder: { x: 0.4, y: 0.55 },
+    ...(bar ? { leftWrist: bar, rightWrist: bar } : {}),
+  },
+});
+
+// Deadlift from the side with vertical legs at x 0.5
+const deadliftFrame = (timestamp: number, bar: KeyPoint): PoseData => ({
+  timestamp,
+  keypoints: {
+    leftHip: { x: 0.5, y: 0.5 },
+    rightHip: { x: 0.5, y: 0.5 },
+    leftKnee: { x: 0.5, y: 0.7 },
+    rightKnee: { x: 0.5, y: 0.7 },
+    leftAnkle: { x: 0.5, y: 0.9 },
+    rightAnkle: { x: 0.5, y: 0.9 },
+    leftWrist: bar,
+    rightWrist: bar,
+  },
+});
+
+// Lowers the bar from the start to the chest, then presses it to the lockout
+const pressRep = (tracker: BarPathTracker, start: number, chest: number, lockout: number) => {
+  const path: [number, number, RepPhase][] = [
+    [start, 0.3, 'eccentric'],
+    [(start + chest) / 2, 0.4, 'eccentric'],
+    [chest, 0.5, 'bottom'],
+    [(chest + lockout) / 2, 0.4, 'concentric'],
+    [lockout, 0.3, 'concentric'],
+  ];
+  path.forEach(([x, y, phase], i) => tracker.addFrame(benchFrame(i * 100, { x, y }), phase));
+  return tracker.finishRep(0, 400);
+};
+
+const benchTracker = () => new BarPathTracker({ normalizeBy: 'upperArm', measureJCurve: true }, CALIBRATION);
+
+test('a press that travels back towards the face is a J-curve', () => {
+  const analysis = pressRep(benchTracker(), 0.4, 0.45, 0.4);
+
+  expect(analysis?.shape).toBe('j-curve');
+  expect(analysis?.points).toHaveLength(5);
+  // Drift and deviation are in upper arm lengths
+  expect(analysis?.horizontalDrift).toBeCloseTo(0);
+  expect(analysis?.maxDeviation).toBeCloseTo(0.25);
+});
+
+test('a press that drifts towards the feet is flagged as reversed', () => {
+  const analysis = pressRep(benchTracker(), 0.4, 0.45, 0.5);
+
+  expect(analysis?.shape).toBe('reverse');
+  expect(analysis?.horizontalDrift).toBeCloseTo(0.5);
+});
+
+test('a straight press is vertical', () => {
+  expect(pressRep(benchTracker(), 0.4, 0.41, 0.4)?.shape).toBe('vertical');
+});
+
+test('frames without both wrists are left out of the path', () => {
+  const tracker = benchTracker();
+  tracker.addFrame(benchFrame(0, { x: 0.4, y: 0.3 }), 'eccentric');
+  tracker.addFrame(benchFrame(100, null), 'eccentric');
+  tracker.addFrame(benchFrame(200, { x: 0.4, y: 0.5 }), 'bottom');
+
+  expect(tracker.finishRep(0, 200)?.points.map(point => point.timestamp)).toEqual([0, 200]);
+
+  // A rep with fewer than two bar positions has no path
+  tracker.addFrame(benchFrame(300, null), 'concentric');
+  tracker.addFrame(benchFrame(400, { x: 0.4, y: 0.3 }), 'concentric');
+  expect(tracker.finishRep(250, 400)).toBeNull();
+});
+
+test('bar-to-body distance is measured against the leg at the bar\'s height', () => {
+  const tracker = new BarPathTracker({ normalizeBy: 'femur', measureBarToBody: true }, CALIBRATION);
+  // Below the knee against the shin, then above it against the thigh
+  tracker.addFrame(deadliftFrame(0, { x: 0.52, y: 0.8 }), 'concentric');
+  tracker.addFrame(deadliftFrame(100, { x: 0.56, y: 0.6 }), 'concentric');
+
+  const analysis = tracker.finishRep(0, 100);
+
+  expect(analysis?.barToBody?.mean).toBeCloseTo(0.2);
+  expect(analysis?.barToBody?.max).toBeCloseTo(0.3);
+  expect(analysis?.horizontalDrift).toBeCloseTo(0.2);
+});
+
+test('without a calibration the path is measured against the first frame', () => {
+  const tracker = new BarPathTracker({ normalizeBy: 'femur' });
+  tracker.addFrame(deadliftFrame(0, { x: 0.5, y: 0.8 }), 'concentric');
+  tracker.addFrame(deadliftFrame(100, { x: 0.6, y: 0.6 }), 'concentric');
+
+  expect(tracker.finishRep(0, 100)?.horizontalDrift).toBeCloseTo(0.5);
+});
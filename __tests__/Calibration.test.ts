@@ -0,0 +1,101 @@
+/**
+ * @format
+ */
+
+import CalibrationCollector, { getMetersPerUnit, measureSegments, measureStature } from '../components/Calibration';
+import { PoseData } from '../components/FormAnalyzer';
+
+// A side-on athlete standing at `x`, 0.8 of the image tall from nose to ankle
+const standing = (timestamp: number, x: number = 0.5): PoseData => ({
+  timestamp,
+  keypoints: {
+    nose: { x, y: 0.1 },
+    leftShoulder: { x, y: 0.2 },
+    rightShoulder: { x, y: 0.2 },
+    leftElbow: { x, y: 0.35 },
+    rightElbow: { x, y: 0.35 },
+    leftHip: { x, y: 0.5 },
+    rightHip: { x, y: 0.5 },
+    leftKnee: { x, y: 0.7 },
+    rightKnee: { x, y: 0.7 },
+    leftAnkle: { x, y: 0.9 },
+    rightAnkle: { x, y: 0.9 },
+  },
+});
+
+// 30 fps frames from `from` for `durationMs`
+const hold = (collector: CalibrationCollector, from: number, durationMs: number, x?: number) => {
+  for (let timestamp = from; timestamp <= from + durationMs; timestamp += 1000 / 30) {
+    collector.addFrame(standing(timestamp, x));
+  }
+};
+
+test('segments and stature are measured from a standing frame', () => {
+  const { keypoints } = standing(0);
+
+  expect(measureSegments(keypoints)).toEqual({
+    torso: expect.closeTo(0.3),
+    femur: expect.closeTo(0.2),
+    shin: expect.closeTo(0.2),
+    upperArm: expect.closeTo(0.15),
+  });
+  // Nose to ankle is 88% of standing height
+  expect(measureStature(keypoints)).toBeCloseTo(0.8 / 0.88);
+  expect(measureStature({ ...keypoints, nose: undefined! })).toBe(0);
+});
+
+test('stature doesn\'t depend on posture', () => {
+  // The same athlete lying on their back along the image
+  const lying: PoseData['keypoints'] = {};
+  Object.entries(standing(0).keypoints).forEach(([name, point]) => {
+    lying[name] = { x: point.y, y: 0.6 };
+  });
+
+  expect(measureStature(lying)).toBeCloseTo(0.8 / 0.88);
+});
+
+test('holding still for the window completes the calibration', () => {
+  const collector = new CalibrationCollector();
+  expect(collector.getStatus()).toBe('waiting');
+
+  hold(collector, 0, 1000);
+  expect(collector.getStatus()).toBe('collecting');
+  hold(collector, 1000 + 1000 / 30, 1000);
+
+  const calibration = collector.getCalibration();
+  expect(collector.getStatus()).toBe('complete');
+  expect(calibration?.segments.torso).toBeCloseTo(0.3);
+  expect(calibration?.stature).toBeCloseTo(0.8 / 0.88);
+});
+
+test('a known height turns image units into metres', () => {
+  const collector = new CalibrationCollector();
+  hold(collector, 0, 2100);
+  const calibration = collector.getCalibration();
+
+  // 180 cm tall and 0.909 of the image high, so one image unit is 1.98 m
+  expect(getMetersPerUnit(calibration, 180)).toBeCloseTo(1.98);
+  expect(getMetersPerUnit(calibration, null)).toBeNull();
+  expect(getMetersPerUnit({ ...calibration!, stature: undefined }, 180)).toBeNull();
+});
+
+test('moving restarts the still window', () => {
+  const collector = new CalibrationCollector();
+  hold(collector, 0, 1500);
+
+  // A step to the side partway through
+  collector.addFrame(standing(1533, 0.6));
+  hold(collector, 1566, 1500, 0.6);
+  expect(collector.getStatus()).toBe('collecting');
+
+  hold(collector, 3100, 600, 0.6);
+  expect(collector.getStatus()).toBe('complete');
+  expect(collector.getCalibration()?.capturedAt).toBeGreaterThanOrEqual(1566 + 2000);
+});
+
+test('unreliable frames are left out', () => {
+  const collector = new CalibrationCollector();
+  collector.addFrame({ ...standing(0), reliable: false });
+
+  expect(collector.getStatus()).toBe('waiting');
+});
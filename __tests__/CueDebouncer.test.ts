@@ -0,0 +1,53 @@
+/**
+ * @format
+ */
+
+import CueDebouncer from '../components/CueDebouncer';
+import { FeedbackItem } from '../components/FormAnalyzer';
+
+const fault = (code: string, penalty: number, severity: FeedbackItem['severity'] = 'error'): FeedbackItem => ({
+  code,
+  severity,
+  bodyParts: [],
+  penalty,
+  cue: code,
+});
+
+const VALGUS = fault('SQUAT_KNEE_VALGUS', 30);
+const LEAN = fault('SQUAT_FORWARD_LEAN_MILD', 5, 'warning');
+
+// Feeds one frame per 33ms and returns the code shown after each
+const run = (debouncer: CueDebouncer, frames: FeedbackItem[][], start = 0) =>
+  frames.map((items, index) => debouncer.update(items, start + index * 33)?.code ?? null);
+
+test('a fault only shows once it has persisted', () => {
+  const debouncer = new CueDebouncer({ minFrames: 3 });
+  expect(run(debouncer, [[VALGUS], [VALGUS], [VALGUS], [VALGUS]]))
+    .toEqual([null, null, 'SQUAT_KNEE_VALGUS', 'SQUAT_KNEE_VALGUS']);
+});
+
+test('a single-frame glitch never shows', () => {
+  const debouncer = new CueDebouncer({ minFrames: 3 });
+  expect(run(debouncer, [[VALGUS], [], [VALGUS], [], [VALGUS]])).toEqual([null, null, null, null, null]);
+});
+
+test('a cleared cue stays away until its cooldown ends', () => {
+  const debouncer = new CueDebouncer({ minFrames: 2, cooldownMs: 1000 });
+  run(debouncer, [[VALGUS], [VALGUS], []]);
+
+  // Back within the cooldown: suppressed
+  expect(run(debouncer, [[VALGUS], [VALGUS], [VALGUS]], 200)).toEqual([null, null, null]);
+  // After it: shown again straight away, since it never went away
+  expect(run(debouncer, [[VALGUS]], 2000)).toEqual(['SQUAT_KNEE_VALGUS']);
+});
+
+test('the most important fault wins', () => {
+  const debouncer = new CueDebouncer({ minFrames: 2 });
+  expect(run(debouncer, [[LEAN], [LEAN], [LEAN, VALGUS], [LEAN, VALGUS]]))
+    .toEqual([null, 'SQUAT_FORWARD_LEAN_MILD', 'SQUAT_FORWARD_LEAN_MILD', 'SQUAT_KNEE_VALGUS']);
+});
+
+test('passed checks are never cued', () => {
+  const debouncer = new CueDebouncer({ minFrames: 1 });
+  expect(run(debouncer, [[fault('SQUAT_DEPTH_OK', 0, 'success')]])).toEqual([null]);
+});
@@ -0,0 +1,133 @@
+/**
+ * @format
+ */
+
+import CueDispatcher, { CueEvent } from '../components/CueDispatcher';
+import { RecordingCueSink } from '../components/CueSinks';
+import { FeedbackItem, FormFeedback, withMessages } from '../components/FormAnalyzer';
+import { RepPhase } from '../components/RepTracker';
+import SetAnalyzer from '../components/SetAnalyzer';
+import { generateSyntheticSet } from '../components/SyntheticPose';
+import { setLocale } from '../i18n';
+
+setLocale('en');
+
+const fault = (code: string, penalty: number, severity: FeedbackItem['severity'] = 'error'): FeedbackItem => ({
+  code,
+  severity,
+  bodyParts: [],
+  penalty,
+  cue: code,
+});
+
+const VALGUS = fault('SQUAT_KNEE_VALGUS', 30);
+const LEAN = fault('SQUAT_FORWARD_LEAN_MILD', 5, 'warning');
+
+const frame = (items: FeedbackItem[], phase: RepPhase = 'eccentric', extra: Partial<FormFeedback> = {}): FormFeedback => ({
+  score: 100,
+  ...withMessages(items),
+  phase,
+  ...extra,
+});
+
+// Feeds the same frame every 100ms from `start` until `end`
+const hold = (dispatcher: CueDispatcher, feedback: FormFeedback, start: number, end: number) => {
+  for (let timestamp = start; timestamp < end; timestamp += 100) {
+    dispatcher.addFrame(feedback, timestamp);
+  }
+};
+
+const setup = () => {
+  const spoken = new RecordingCueSink();
+  const screen = new RecordingCueSink(true);
+  const dispatcher = new CueDispatcher([spoken, screen], {
+    minIntervalMs: 2000,
+    repeatIntervalMs: 5000,
+    debounce: { minFrames: 2, cooldownMs: 0 },
+  });
+  return { dispatcher, spoken, screen };
+};
+
+test('a persistent fault is announced once', () => {
+  const { dispatcher, spoken, screen } = setup();
+  hold(dispatcher, frame([VALGUS]), 0, 3000);
+
+  expect(spoken.getTexts()).toEqual(['SQUAT_KNEE_VALGUS']);
+  expect(screen.getTexts()).toEqual(['SQUAT_KNEE_VALGUS']);
+});
+
+test('faults wait until the concentric phase is over', () => {
+  const { dispatcher, spoken, screen } = setup();
+  hold(dispatcher, frame([VALGUS], 'concentric'), 0, 1000);
+
+  expect(spoken.events).toEqual([]);
+  // The screen doesn't distract the lifter, so it shows the fault right away
+  expect(screen.getTexts()).toEqual(['SQUAT_KNEE_VALGUS']);
+
+  hold(dispatcher, frame([VALGUS], 'lockout'), 1000, 1200);
+  expect(spoken.events.map(event => event.timestamp)).toEqual([1000]);
+});
+
+test('a fault that clears during the concentric phase is never spoken', () => {
+  const { dispatcher, spoken, screen } = setup();
+  hold(dispatcher, frame([VALGUS], 'concentric'), 0, 1000);
+  hold(dispatcher, frame([], 'lockout'), 1000, 2000);
+
+  expect(spoken.events).toEqual([]);
+  expect(screen.clearCount).toBe(1);
+});
+
+test('cues are rate limited unless the new one is more important', () => {
+  const { dispatcher, spoken } = setup();
+  hold(dispatcher, frame([LEAN]), 0, 500);
+  // A more important fault cuts in straight away
+  hold(dispatcher, frame([LEAN, VALGUS]), 500, 1000);
+  // A less important one has to wait out the interval
+  hold(dispatcher, frame([fault('SQUAT_DEPTH_SHALLOW', 25)]), 1000, 4000);
+
+  expect(spoken.events.map(event => [event.text, event.timestamp])).toEqual([
+    ['SQUAT_FORWARD_LEAN_MILD', 100],
+    ['SQUAT_KNEE_VALGUS', 600],
+    ['SQUAT_DEPTH_SHALLOW', 2600],
+  ]);
+});
+
+test('the same fault is not repeated within the repeat interval', () => {
+  const { dispatcher, spoken } = setup();
+  hold(dispatcher, frame([VALGUS]), 0, 1000);
+  hold(dispatcher, frame([]), 1000, 2000);
+  hold(dispatcher, frame([VALGUS]), 2000, 8000);
+
+  expect(spoken.events.map(event => event.timestamp)).toEqual([100, 5100]);
+});
+
+test('finished reps are counted out loud', () => {
+  const { dispatcher, spoken } = setup();
+  dispatcher.addFrame(frame([], 'lockout', { repCompleted: true, repCount: 1 }), 0);
+  dispatcher.addFrame(frame([], 'lockout', { repCompleted: true, repCount: 2 }), 3000);
+
+  expect(spoken.events.map(event => [event.kind, event.text])).toEqual([['rep', '1'], ['rep', '2']]);
+});
+
+test('a generated set is coached headlessly and ends with a summary', () => {
+  const phases: RepPhase[] = [];
+  const spoken = new RecordingCueSink();
+  const dispatcher = new CueDispatcher([spoken, {
+    deliver: () => phases.push(dispatcher.getPhase()),
+  }]);
+  const analyzer = new SetAnalyzer('squat');
+
+  generateSyntheticSet('squat', { view: 'front', faults: ['kneeCave'], reps: 3 }).forEach(poseData => {
+    dispatcher.addFrame(analyzer.addFrame(poseData), poseData.timestamp);
+  });
+  dispatcher.finishSet(analyzer.getSummary(), 100000);
+
+  const kinds = (kind: CueEvent['kind']) => spoken.events.filter(event => event.kind === kind);
+  expect(kinds('fault').map(event => event.code)).toContain('SQUAT_KNEE_VALGUS');
+  expect(kinds('rep').map(event => event.text)).toEqual(['1', '2', '3']);
+  expect(phases.slice(0, -1)).not.toContain('concentric');
+
+  const summary = spoken.events[spoken.events.length - 1];
+  expect(summary.kind).toBe('summary');
+  expect(summary.text).toMatch(/^Set done: 3 reps, score 70\. Next set, work on this: Knees caving in/);
+});
@@ -0,0 +1,299 @@
+/**
+ * @format
+ */
+
+import FormAnalyzer from '../components/FormAnalyzer';
+import { PoseTraceWriter, parsePoseTrace } from '../components/PoseTrace';
+import SetAnalyzer from '../components/SetAnalyzer';
+import {
+  SyntheticFault,
+  SyntheticMovement,
+  SyntheticSetOptions,
+  generateSyntheticSet,
+} from '../components/SyntheticPose';
+import { setLocale, t } from '../i18n';
+
+// Golden outputs for generated sets. A threshold or rule change that moves any
+// of these should be deliberate: update the expectation alongside it.
+interface GoldenCase {
+  name: string;
+  movement: SyntheticMovement;
+  options: Partial<SyntheticSetOptions>;
+  view: string;
+  score: number;
+  // Error codes every rep is expected to get
+  codes: string[];
+  errors: string[];
+}
+
+// Golden messages are the English cues
+setLocale('en');
+
+const GOLDEN: GoldenCase[] = [
+  {
+    name: 'clean squat from the side',
+    movement: 'squat',
+    options: { view: 'side' },
+    view: 'side',
+    score: 100,
+    codes: [],
+    errors: [],
+  },
+  {
+    name: 'clean squat from the front',
+    movement: 'squat',
+    options: { view: 'front' },
+    view: 'front',
+    score: 100,
+    codes: [],
+    errors: [],
+  },
+  {
+    name: 'shallow squat',
+    movement: 'squat',
+    options: { view: 'side', faults: ['shallowDepth'] },
+    view: 'side',
+    score: 75,
+    codes: ['SQUAT_DEPTH_SHALLOW'],
+    errors: ['Squat deeper - hips need to go below knee level'],
+  },
+  {
+    name: 'squat with knee cave',
+    movement: 'squat',
+    options: { view: 'front', faults: ['kneeCave'] },
+    view: 'front',
+    score: 70,
+    codes: ['SQUAT_KNEE_VALGUS'],
+    errors: ['Knees caving in - push knees out over toes'],
+  },
+  {
+    name: 'squat with forward lean',
+    movement: 'squat',
+    options: { view: 'side', faults: ['forwardLean'] },
+    view: 'side',
+    score: 80,
+    codes: ['SQUAT_FORWARD_LEAN_EXCESSIVE'],
+    errors: ['Too much forward lean - keep chest up'],
+  },
+  {
+    name: 'asymmetric squat',
+    movement: 'squat',
+    options: { view: 'front', faults: ['asymmetry'] },
+    view: 'front',
+    score: 85,
+    codes: ['SQUAT_ASYMMETRY'],
+    errors: ['Uneven squat - check your stance and balance'],
+  },
+  {
+    name: 'clean bench from the side',
+    movement: 'bench',
+    options: { view: 'side' },
+    view: 'side',
+    score: 100,
+    codes: [],
+    errors: [],
+  },
+  {
+    name: 'bench with flared elbows',
+    movement: 'bench',
+    options: { view: 'side', faults: ['flaredElbows'] },
+    view: 'side',
+    score: 75,
+    codes: ['BENCH_ELBOW_FLARE'],
+    errors: ['Elbows too flared - bring them closer to your body'],
+  },
+  {
+    name: 'asymmetric bench',
+    movement: 'bench',
+    options: { view: 'front', faults: ['asymmetry'] },
+    view: 'front',
+    score: 85,
+    codes: ['BENCH_ASYMMETRY'],
+    errors: ['Uneven press - check your grip and shoulder position'],
+  },
+  {
+    name: 'clean deadlift',
+    movement: 'deadlift',
+    options: { view: 'side' },
+    view: 'side',
+    score: 100,
+    codes: [],
+    errors: [],
+  },
+  {
+    name: 'deadlift with rounded back',
+    movement: 'deadlift',
+    options: { view: 'side', faults: ['roundedBack'] },
+    view: 'side',
+    score: 70,
+    codes: ['DEADLIFT_BACK_ROUNDING'],
+    errors: ['Back rounding detected - keep your back straight'],
+  },
+];
+
+const analyzeSet = (movement: SyntheticMovement, options: Partial<SyntheticSetOptions>) => {
+  const analyzer = new SetAnalyzer(movement);
+  generateSyntheticSet(movement, options).forEach(frame => analyzer.addFrame(frame));
+  return analyzer.getSummary();
+};
+
+describe.each(GOLDEN)('$name', ({ movement, options, view, score, codes, errors }) => {
+  const summary = analyzeSet(movement, { reps: 3, ...options });
+
+  test('counts every rep and calibrates during the setup hold', () => {
+    expect(summary.repCount).toBe(3);
+    expect(summary.calibration).not.toBeNull();
+    expect(summary.view).toBe(view);
+  });
+
+  test('scores each rep as expected', () => {
+    expect(summary.score).toBe(score);
+    summary.reps.forEach(rep => {
+      expect(rep.score).toBe(score);
+      expect(rep.errors).toEqual(errors);
+      expect(rep.items.filter(item => item.severity === 'error').map(item => item.code)).toEqual(codes);
+    });
+  });
+
+  test('breakdown deductions account for the whole score', () => {
+    const deducted = summary.breakdown.reduce((sum, criterion) =>
+      sum + criterion.deductions.reduce((total, deduction) => total + deduction.penalty, 0), 0);
+    expect(100 - deducted).toBeCloseTo(score);
+  });
+
+  test('reports faults seen on every rep as recurring', () => {
+    expect(summary.recurringFaults).toEqual(
+      codes.map((code, index) => ({ code, message: errors[index], reps: [1, 2, 3] })),
+    );
+  });
+});
+
+test('score breakdown lists every criterion with its subscore', () => {
+  const summary = analyzeSet('squat', { view: 'side', faults: ['forwardLean'] });
+
+  expect(summary.breakdown.map(({ rule, weight, subscore }) => ({ rule, weight, subscore }))).toEqual([
+    { rule: 'depth', weight: 25, subscore: 100 },
+    { rule: 'kneeTracking', weight: 30, subscore: null },
+    { rule: 'forwardLean', weight: 20, subscore: 0 },
+    { rule: 'symmetry', weight: 15, subscore: null },
+  ]);
+  expect(summary.breakdown[2].deductions).toEqual([{
+    code: 'SQUAT_FORWARD_LEAN_EXCESSIVE',
+    cue: 'Too much forward lean - keep chest up',
+    penalty: 20,
+    reps: [1, 2, 3],
+  }]);
+});
+
+test('keypoint jitter does not change the outcome', () => {
+  const clean = analyzeSet('squat', { view: 'side', faults: ['shallowDepth'] });
+  const noisy = analyzeSet('squat', { view: 'side', faults: ['shallowDepth'], noise: 0.002, seed: 7 });
+
+  expect(noisy.repCount).toBe(clean.repCount);
+  expect(noisy.reps.map(rep => rep.errors)).toEqual(clean.reps.map(rep => rep.errors));
+});
+
+test('results do not depend on camera distance', () => {
+  const near = analyzeSet('squat', { view: 'side', faults: ['forwardLean'] });
+  const far = analyzeSet('squat', { view: 'side', faults: ['forwardLean'], scale: 0.6 });
+
+  expect(far.score).toBe(near.score);
+  expect(far.reps[0].details!.forwardLean).toBeCloseTo(near.reps[0].details!.forwardLean, 2);
+});
+
+test('single frames are scored against the bottom position', () => {
+  const frames = generateSyntheticSet('squat', { reps: 1, view: 'side', setupSeconds: 0, restSeconds: 0 });
+  const standing = FormAnalyzer.analyze('squat', frames[0]);
+  const bottom = FormAnalyzer.analyze('squat', frames[30]);
+
+  expect(standing.details!.depth).toBeCloseTo(-1, 1);
+  expect(standing.errors).toContain('Squat deeper - hips need to go below knee level');
+  expect(standing.items.find(item => item.code === 'SQUAT_DEPTH_SHALLOW')).toEqual({
+    code: 'SQUAT_DEPTH_SHALLOW',
+    severity: 'error',
+    rule: 'depth',
+    bodyParts: ['leftHip', 'rightHip', 'leftKnee', 'rightKnee'],
+    value: standing.details!.depth,
+    threshold: 0.1,
+    penalty: 25,
+    cue: 'Squat deeper - hips need to go below knee level',
+  });
+  expect(bottom.errors).toEqual([]);
+  expect(bottom.feedback).toContain('Excellent depth!');
+  expect(bottom.items.map(item => item.code)).toContain('SQUAT_DEPTH_OK');
+});
+
+test('a deadlift frame without the head skips only the back check', () => {
+  const frame = generateSyntheticSet('deadlift', { reps: 1, view: 'side' })[0];
+  const keypoints = { ...frame.keypoints };
+  delete keypoints.nose;
+
+  const withHead = FormAnalyzer.analyze('deadlift', frame);
+  const withoutHead = FormAnalyzer.analyze('deadlift', { ...frame, keypoints });
+
+  expect(withHead.details!.backAngle).toBeDefined();
+  expect(withoutHead.details!.backAngle).toBeUndefined();
+  expect(withoutHead.details!.hipHinge).toBe(withHead.details!.hipHinge);
+  expect(withoutHead.skippedChecks).toEqual([{ rule: 'backAngle', label: 'Back angle', reason: t('skip.notVisible') }]);
+  expect(withoutHead.items.map(item => item.code)).not.toContain('POSE_INCOMPLETE');
+});
+
+test('a recorded trace replays to the same analysis', () => {
+  const writer = new PoseTraceWriter('bench', { platform: 'test' });
+  generateSyntheticSet('bench', { faults: ['flaredElbows'] }).forEach(frame => writer.addFrame(frame));
+
+  const live = analyzeSet('bench', { faults: ['flaredElbows'] });
+  const replayed = SetAnalyzer.analyzeTrace(parsePoseTrace(writer.toNDJSON()));
+
+  expect(replayed.repCount).toBe(live.repCount);
+  expect(replayed.score).toBe(live.score);
+  expect(replayed.recurringFaults).toEqual(live.recurringFaults);
+});
+
+describe('depth', () => {
+  const bottomFrame = (view: 'side' | 'front', includeDepth: boolean, faults: SyntheticFault[] = []) => {
+    const frames = generateSyntheticSet('squat', { reps: 1, view, faults, includeDepth, setupSeconds: 0, restSeconds: 0 });
+    return FormAnalyzer.analyze('squat', { ...frames[30], view });
+  };
+
+  test('falls back to 2D angles without z', () => {
+    const summary = analyzeSet('squat', { view: 'side' });
+
+    expect(summary.angleMode).toBe('2d');
+    expect(summary.reps[0].jointAngles!.mode).toBe('2d');
+  });
+
+  test('clean lifts still score 100 in 3D', () => {
+    ['squat', 'bench', 'deadlift'].forEach(movement => {
+      const summary = analyzeSet(movement as SyntheticMovement, { includeDepth: true });
+      expect(summary.angleMode).toBe('3d');
+      expect(summary.score).toBe(100);
+    });
+  });
+
+  test('3D joint angles read the same from the side and the front', () => {
+    const side = bottomFrame('side', true).jointAngles!;
+    const front = bottomFrame('front', true).jointAngles!;
+    const flatSide = bottomFrame('side', false).jointAngles!;
+    const flatFront = bottomFrame('front', false).jointAngles!;
+
+    (['leftKnee', 'leftHip', 'trunk'] as const).forEach(joint => {
+      expect(side[joint]).toBeCloseTo(front[joint]!, 0);
+    });
+    // The knee bends towards a front camera, so the image hides most of it
+    expect(Math.abs(flatSide.leftKnee! - flatFront.leftKnee!)).toBeGreaterThan(15);
+  });
+
+  test('knee cave is measured in 3D from the side', () => {
+    const flat = bottomFrame('side', false, ['kneeCave']);
+    const deep = bottomFrame('side', true, ['kneeCave']);
+
+    expect(flat.skippedChecks!.map(check => check.rule)).toContain('kneeTracking');
+    expect(flat.jointAngles!.leftKneeValgus).toBeNull();
+    expect(deep.angleMode).toBe('3d');
+    expect(deep.items.map(item => item.code)).toContain('SQUAT_KNEE_VALGUS');
+    expect(deep.jointAngles!.leftKneeValgus).toBeGreaterThan(0);
+    expect(deep.jointAngles!.rightKneeValgus).toBeGreaterThan(0);
+    expect(bottomFrame('side', true).jointAngles!.leftKneeValgus!).toBeLessThan(deep.jointAngles!.leftKneeValgus!);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * @format
+ */
+
+import FramePipeline, {
+  INITIAL_FRAME_GATE,
+  INITIAL_SET_FRAME_GATE,
+  gateFrame,
+  gateSetFrame,
+} from '../components/FramePipeline';
+
+const OPTIONS = { minIntervalMs: 100, maxInFlight: 1 };
+
+// A clock the test moves by hand
+const manualClock = () => {
+  let now = 0;
+  return {
+    now: () => now,
+    advance: (ms: number) => {
+      now += ms;
+    },
+  };
+};
+
+test('frames sooner than the target rate are throttled', () => {
+  const first = gateFrame(INITIAL_FRAME_GATE, 0, 1000, OPTIONS);
+  const early = gateFrame(first.gate, 1, 1050, OPTIONS);
+  const onTime = gateFrame(early.gate, 1, 1100, OPTIONS);
+
+  expect([first.decision, early.decision, onTime.decision]).toEqual(['accept', 'throttled', 'accept']);
+  expect(onTime.gate).toEqual({ lastAcceptedAt: 1100, accepted: 2, throttled: 1, busy: 0 });
+});
+
+test('frames are dropped, not queued, while analysis is behind', () => {
+  const first = gateFrame(INITIAL_FRAME_GATE, 0, 0, OPTIONS);
+  const waiting = gateFrame(first.gate, 0, 500, OPTIONS);
+  const caughtUp = gateFrame(waiting.gate, 1, 600, OPTIONS);
+
+  expect([waiting.decision, caughtUp.decision]).toEqual(['busy', 'accept']);
+  expect(caughtUp.gate.busy).toBe(1);
+  // The frame dropped while busy doesn't count as the last one admitted
+  expect(caughtUp.gate.lastAcceptedAt).toBe(600);
+});
+
+test('a 30 fps camera is analyzed at the target rate', () => {
+  const clock = manualClock();
+  const pipeline = new FramePipeline({ targetFps: 10, statsWindowMs: 1000 }, clock.now);
+  for (let frame = 0; frame < 60; frame++) {
+    if (pipeline.offer() === 'accept') {
+      clock.advance(5);
+      pipeline.complete();
+      clock.advance(1000 / 30 - 5);
+    } else {
+      clock.advance(1000 / 30);
+    }
+  }
+  const stats = pipeline.getStats();
+
+  expect(stats.accepted).toBe(20);
+  expect(stats.throttled).toBe(40);
+  expect(stats.busy).toBe(0);
+  expect(stats.fps).toBe(10);
+  expect(stats.latencyMs).toBeCloseTo(5);
+});
+
+test('slow analysis drops frames as busy and shows in the latency', () => {
+  const clock = manualClock();
+  const pipeline = new FramePipeline({ targetFps: 30 }, clock.now);
+  const admitted: number[] = [];
+  for (let frame = 0; frame < 30; frame++) {
+    if (pipeline.offer() === 'accept') {
+      admitted.push(clock.now());
+    }
+    // Each analysis takes three camera frames to finish
+    if (admitted.length > 0 && clock.now() - admitted[0] >= 99) {
+      pipeline.complete(admitted.shift());
+    }
+    clock.advance(34);
+  }
+  const stats = pipeline.getStats();
+
+  expect(stats.busy).toBeGreaterThan(stats.accepted);
+  expect(stats.latencyMs).toBeGreaterThanOrEqual(99);
+  expect(stats.latencyP95Ms).toBeGreaterThanOrEqual(stats.latencyMs!);
+});
+
+test('stats only cover the recent window', () => {
+  const clock = manualClock();
+  const pipeline = new FramePipeline({ targetFps: 10, statsWindowMs: 1000 }, clock.now);
+  pipeline.offer();
+  pipeline.complete();
+  clock.advance(2000);
+
+  expect(pipeline.getStats()).toMatchObject({ fps: 0, latencyMs: null, accepted: 1, completed: 1 });
+});
+
+test('a gate kept by the frame processor is reported as is', () => {
+  const clock = manualClock();
+  const pipeline = new FramePipeline({}, clock.now);
+  const { gate } = gateFrame({ ...INITIAL_FRAME_GATE, throttled: 4, busy: 2 }, 0, 0, pipeline.getGateOptions());
+  clock.advance(20);
+  pipeline.syncGate(gate);
+  pipeline.complete(gate.lastAcceptedAt!);
+
+  expect(pipeline.getStats()).toMatchObject({ accepted: 1, completed: 1, throttled: 4, busy: 2, latencyMs: 20 });
+});
+
+test('a new set restarts the gate even with a frame of the last set in flight', () => {
+  // Set 1 admits a frame that never completes, so its gate stays busy
+  const first = gateSetFrame(INITIAL_SET_FRAME_GATE, 1, 3, 0, OPTIONS);
+  const stuck = gateSetFrame(first.state, 1, 3, 500, OPTIONS);
+  expect([first.decision, stuck.decision]).toEqual(['accept', 'busy']);
+
+  const nextSet = gateSetFrame(stuck.state, 2, 3, 600, OPTIONS);
+
+  expect(nextSet.decision).toBe('accept');
+  expect(nextSet.state).toEqual({
+    generation: 2,
+    completedBefore: 3,
+    gate: { lastAcceptedAt: 600, accepted: 1, throttled: 0, busy: 0 },
+  });
+});
+
+test('frames completed before the set started don\'t count towards it', () => {
+  const first = gateSetFrame(INITIAL_SET_FRAME_GATE, 1, 5, 0, OPTIONS);
+
+  expect(gateSetFrame(first.state, 1, 5, 200, OPTIONS).decision).toBe('busy');
+  expect(gateSetFrame(first.state, 1, 6, 200, OPTIONS).decision).toBe('accept');
+});
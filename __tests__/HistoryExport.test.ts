@@ -0,0 +1,229 @@
+/**
+ * @format
+ */
+
+import { FileSystem } from '../components/FileSystem';
+import {
+  EXPORT_FORMAT,
+  exportHistory,
+  importBundles,
+  importHistory,
+  parseHistoryBundle,
+  saveExportFile,
+  toCsv,
+} from '../components/HistoryExport';
+import { HistoryRepository, NewHistorySet, toHistoryRep } from '../components/HistoryStore';
+import { PoseTraceWriter } from '../components/PoseTrace';
+import SetAnalyzer from '../components/SetAnalyzer';
+import { generateSyntheticSet } from '../components/SyntheticPose';
+
+// File contents by path
+const memoryFs = (files: { [path: string]: string } = {}): FileSystem & { files: typeof files } => ({
+  files,
+  DocumentDirectoryPath: '/docs',
+  exists: async path => path in files || Object.keys(files).some(file => file.startsWith(`${path}/`)),
+  mkdir: async () => {},
+  moveFile: async (from, to) => {
+    files[to] = files[from];
+    delete files[from];
+  },
+  readDir: async directory => Object.keys(files)
+    .filter(path => path.startsWith(`${directory}/`))
+    .map(path => ({ name: path.slice(directory.length + 1), path, size: files[path].length, isFile: () => true })),
+  readFile: async path => {
+    if (!(path in files)) {
+      throw new Error(`No such file: ${path}`);
+    }
+    return files[path];
+  },
+  writeFile: async (path, contents) => {
+    files[path] = contents;
+  },
+  unlink: async path => {
+    delete files[path];
+  },
+});
+
+const sequentialIds = (prefix: string = 'id') => {
+  let next = 0;
+  return () => `${prefix}${++next}`;
+};
+
+const historySet = (movement: string, score: number, recordedAt: number): NewHistorySet => ({
+  movement,
+  recordedAt,
+  durationSeconds: 20,
+  score,
+  repCount: 0,
+  reps: [],
+  breakdown: [],
+  feedback: [],
+  recurringFaults: [],
+  skippedChecks: [],
+  view: 'side',
+  angleMode: '2d',
+  calibration: null,
+  velocity: null,
+  load: null,
+  videoPath: null,
+});
+
+// A squat set analyzed from synthetic frames, with its trace
+const analyzedSquat = (recordedAt: number) => {
+  const analyzer = new SetAnalyzer('squat');
+  const writer = new PoseTraceWriter('squat', { platform: 'test' });
+  generateSyntheticSet('squat', { faults: ['forwardLean'] }).forEach(frame => {
+    analyzer.addFrame(frame);
+    writer.addFrame(frame);
+  });
+  const summary = analyzer.getSummary();
+  const set: NewHistorySet = {
+    ...historySet('squat', summary.score, recordedAt),
+    repCount: summary.repCount,
+    reps: summary.reps.map(toHistoryRep),
+  };
+  return { set, trace: writer.getTrace() };
+};
+
+test('the CSV has a row per rep with tempo, rule readings and faults', async () => {
+  const repository = new HistoryRepository(memoryFs(), { createId: sequentialIds() });
+  const session = await repository.startSession(0);
+  const { set } = analyzedSquat(1000);
+  await repository.addSet(session.id, { ...set, load: { load: 100, unit: 'kg', reps: set.repCount, rpe: 8.5 } });
+  await repository.addSet(session.id, historySet('bench', 0, 2000));
+
+  const [header, ...rows] = toCsv(await repository.getSessions()).trim().split('\n');
+  const columns = header.split(',');
+  const firstRep = rows[0].split(',');
+
+  expect(columns.slice(0, 3)).toEqual(['session_id', 'session_started_at', 'set_id']);
+  expect(columns).toEqual(expect.arrayContaining(['rep_score', 'time_under_tension_s', 'forwardLean', 'faults']));
+  expect(rows).toHaveLength(set.reps.length + 1);
+  expect(firstRep[columns.indexOf('movement')]).toBe('squat');
+  expect(firstRep[columns.indexOf('recorded_at')]).toBe('1970-01-01T00:00:01.000Z');
+  expect(Number(firstRep[columns.indexOf('rep_score')])).toBe(set.reps[0].feedback.score);
+  expect(firstRep[columns.indexOf('faults')]).toContain('FORWARD_LEAN');
+  expect([firstRep[columns.indexOf('load')], firstRep[columns.indexOf('load_unit')], firstRep[columns.indexOf('rpe')]])
+    .toEqual(['100', 'kg', '8.5']);
+  // The bench set had no reps, so only its set columns are filled
+  expect(rows[rows.length - 1].split(',').slice(columns.indexOf('rep_number')).every(value => value === '')).toBe(true);
+});
+
+test('CSV values with commas, quotes or line breaks are quoted', () => {
+  const set = { ...historySet('squat, paused', 80, 0), id: 'a', sessionId: 's', tracePath: null, view: 'say "hi"\n' };
+
+  const csv = toCsv([{ id: 's', startedAt: 0, endedAt: null, sets: [set] }]);
+
+  expect(csv).toContain(',"squat, paused",');
+  expect(csv).toContain(',"say ""hi""\n",');
+});
+
+test('an export can be limited to a movement and date range', async () => {
+  const repository = new HistoryRepository(memoryFs(), { createId: sequentialIds() });
+  const session = await repository.startSession(0);
+  await repository.addSet(session.id, historySet('squat', 90, 100));
+  await repository.addSet(session.id, historySet('bench', 60, 200));
+  await repository.addSet(session.id, historySet('squat', 70, 300));
+
+  const bundle = await exportHistory(repository, { movement: 'squat', from: 200 });
+
+  expect(bundle).toMatchObject({ format: EXPORT_FORMAT, version: 1, traces: {} });
+  expect(bundle.sessions.flatMap(exported => exported.sets).map(set => set.score)).toEqual([70]);
+});
+
+test('a bundle restores sets and traces on another device, once', async () => {
+  const source = new HistoryRepository(memoryFs(), { createId: sequentialIds('a') });
+  const session = await source.startSession(0);
+  const { set, trace } = analyzedSquat(1000);
+  const saved = await source.addSet(session.id, { ...set, videoPath: '/docs/recordings/1000-squat.mp4' }, trace);
+  const text = JSON.stringify(await exportHistory(source, {}, { includeTraces: true }));
+
+  const fs = memoryFs();
+  const target = new HistoryRepository(fs, { createId: sequentialIds('b') });
+  const targetSession = await target.startSession(5000);
+  await target.addSet(targetSession.id, historySet('bench', 60, 6000));
+
+  expect(await importHistory(target, text)).toEqual({ sessionsAdded: 1, setsAdded: 1, setsSkipped: 0 });
+  expect(await importHistory(target, text)).toEqual({ sessionsAdded: 0, setsAdded: 0, setsSkipped: 1 });
+
+  const restored = await target.getSet(saved.id);
+  expect(restored?.reps).toEqual(saved.reps);
+  // The video stayed on the other device
+  expect(restored?.videoPath).toBeNull();
+  expect((await target.loadTrace(saved.id))?.frames).toHaveLength(trace.frames.length);
+  expect(await target.getSessions()).toHaveLength(2);
+});
+
+test('the same set under another id is not imported twice', async () => {
+  const repository = new HistoryRepository(memoryFs(), { createId: sequentialIds() });
+  const session = await repository.startSession(0);
+  await repository.addSet(session.id, historySet('squat', 90, 100));
+  const bundle = await exportHistory(repository);
+  bundle.sessions[0].sets[0].id = 'renamed';
+
+  expect(await importHistory(repository, JSON.stringify(bundle))).toMatchObject({ setsAdded: 0, setsSkipped: 1 });
+});
+
+test('bundles copied into the import folder are imported and bad ones reported', async () => {
+  const source = new HistoryRepository(memoryFs(), { createId: sequentialIds('a') });
+  const session = await source.startSession(0);
+  await source.addSet(session.id, historySet('squat', 90, 100));
+  await source.addSet(session.id, historySet('squat', 80, 200));
+  const sourceFs = memoryFs();
+  const exported = await saveExportFile(sourceFs, 'backup.json', JSON.stringify(await exportHistory(source)));
+
+  const fs = memoryFs({
+    '/docs/import/backup.json': sourceFs.files[exported],
+    '/docs/import/broken.json': '{',
+    '/docs/import/notes.txt': 'not a bundle',
+  });
+  const report = await importBundles(new HistoryRepository(fs, { createId: sequentialIds('b') }), fs);
+
+  expect(exported).toBe('/docs/exports/backup.json');
+  expect(report).toMatchObject({ files: 2, sessionsAdded: 1, setsAdded: 2, setsSkipped: 0 });
+  expect(report.failures).toEqual([{ file: 'broken.json', message: 'Bundle is not valid JSON' }]);
+});
+
+describe('bundle validation', () => {
+  const bundle = (overrides: object) => JSON.stringify({
+    format: EXPORT_FORMAT,
+    version: 1,
+    exportedAt: '2024-01-01T00:00:00.000Z',
+    historyVersion: 1,
+    sessions: [],
+    traces: {},
+    ...overrides,
+  });
+
+  test('files that are not bundles are refused', () => {
+    expect(() => parseHistoryBundle('not json')).toThrow('Bundle is not valid JSON');
+    expect(() => parseHistoryBundle(bundle({ format: 'tma-history' }))).toThrow('Not a history export');
+    expect(() => parseHistoryBundle(bundle({ version: 2 }))).toThrow('Export version 2 is newer than supported version 1');
+    expect(() => parseHistoryBundle(bundle({ historyVersion: 9 }))).toThrow('History version 9 is newer');
+  });
+
+  test('malformed sessions and traces say what is wrong', () => {
+    expect(() => parseHistoryBundle(bundle({ sessions: null }))).toThrow('Bundle has no sessions');
+    expect(() => parseHistoryBundle(bundle({ sessions: [{ id: 's', startedAt: 0, sets: [{ id: 'a', movement: 'squat' }] }] })))
+      .toThrow('Session 1, set 1: recordedAt should be a number');
+    expect(() => parseHistoryBundle(bundle({ traces: { a: 'garbage' } }))).toThrow('Trace of set a is unreadable');
+  });
+
+  test('a set with a malformed rep is refused', () => {
+    const withReps = (reps: object[]) => bundle({
+      sessions: [{ id: 's', startedAt: 0, sets: [{ id: 'a', movement: 'squat', recordedAt: 0, score: 80, repCount: 1, reps }] }],
+    });
+    const rep = {
+      repNumber: 1,
+      feedback: { score: 80, items: [{ code: 'SQUAT_DEPTH_SHALLOW' }] },
+      tempo: { eccentric: 1, pause: 0, concentric: 1, timeUnderTension: 2 },
+    };
+
+    expect(parseHistoryBundle(withReps([rep])).sessions[0].sets[0].reps).toHaveLength(1);
+    expect(() => parseHistoryBundle(withReps([{}]))).toThrow('Session 1, set 1, rep 1: repNumber should be a number');
+    expect(() => parseHistoryBundle(withReps([rep, { ...rep, feedback: { score: 80 } }])))
+      .toThrow('Session 1, set 1, rep 2: feedback items should be a list of coded items');
+    expect(() => parseHistoryBundle(withReps([{ ...rep, tempo: { eccentric: 1 } }])))
+      .toThrow('tempo should have eccentric, pause, concentric, timeUnderTension');
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * @format
+ */
+
+import { FileSystem } from '../components/FileSystem';
+import {
+  HISTORY_FORMAT,
+  HistoryRepository,
+  NewHistorySet,
+  migrateHistory,
+  toHistoryRep,
+} from '../components/HistoryStore';
+import { PoseTraceWriter } from '../components/PoseTrace';
+import SetAnalyzer from '../components/SetAnalyzer';
+import { generateSyntheticSet } from '../components/SyntheticPose';
+
+// File contents by path
+const memoryFs = (files: { [path: string]: string } = {}): FileSystem & { files: typeof files } => ({
+  files,
+  DocumentDirectoryPath: '/docs',
+  exists: async path => path in files || Object.keys(files).some(file => file.startsWith(`${path}/`)),
+  mkdir: async () => {},
+  moveFile: async (from, to) => {
+    files[to] = files[from];
+    delete files[from];
+  },
+  readDir: async directory => Object.keys(files)
+    .filter(path => path.startsWith(`${directory}/`))
+    .map(path => ({ name: path.slice(directory.length + 1), path, size: files[path].length, isFile: () => true })),
+  readFile: async path => {
+    if (!(path in files)) {
+      throw new Error(`No such file: ${path}`);
+    }
+    return files[path];
+  },
+  writeFile: async (path, contents) => {
+    files[path] = contents;
+  },
+  unlink: async path => {
+    delete files[path];
+  },
+});
+
+const sequentialIds = () => {
+  let next = 0;
+  return () => `id${++next}`;
+};
+
+const historySet = (movement: string, score: number, recordedAt: number): NewHistorySet => ({
+  movement,
+  recordedAt,
+  durationSeconds: 20,
+  score,
+  repCount: 3,
+  reps: [],
+  breakdown: [],
+  feedback: [],
+  recurringFaults: [],
+  skippedChecks: [],
+  view: 'side',
+  angleMode: '2d',
+  calibration: null,
+  velocity: null,
+  load: null,
+  videoPath: null,
+});
+
+test('sets, reps and traces survive a restart', async () => {
+  const fs = memoryFs();
+  const analyzer = new SetAnalyzer('squat');
+  const writer = new PoseTraceWriter('squat', { platform: 'test' });
+  generateSyntheticSet('squat', { faults: ['forwardLean'] }).forEach(frame => {
+    analyzer.addFrame(frame);
+    writer.addFrame(frame);
+  });
+  const summary = analyzer.getSummary();
+
+  const repository = new HistoryRepository(fs, { createId: sequentialIds() });
+  const session = await repository.startSession(1000);
+  const saved = await repository.addSet(session.id, {
+    ...historySet('squat', summary.score, 2000),
+    reps: summary.reps.map(toHistoryRep),
+    videoPath: '/docs/recordings/2000-squat.mp4',
+  }, writer.getTrace());
+
+  const reopened = new HistoryRepository(fs);
+  const [set] = await reopened.getSets();
+
+  expect(set).toEqual(saved);
+  expect(set.reps).toHaveLength(3);
+  expect(set.reps[0].feedback.score).toBe(summary.reps[0].score);
+  expect(set.reps[0].feedback.items).toEqual(summary.reps[0].items);
+  expect((await reopened.loadTrace(set.id))?.frames).toHaveLength(writer.getTrace().frames.length);
+});
+
+test('sets can be queried by movement, date range and score', async () => {
+  const repository = new HistoryRepository(memoryFs(), { createId: sequentialIds() });
+  const session = await repository.startSession(0);
+  await repository.addSet(session.id, historySet('squat', 90, 100));
+  await repository.addSet(session.id, historySet('bench', 60, 200));
+  await repository.addSet(session.id, historySet('squat', 70, 300));
+  await repository.addSet(session.id, historySet('squat', 50, 400));
+
+  const scores = async (query: object) => (await repository.getSets(query)).map(set => set.score);
+
+  expect(await scores({})).toEqual([50, 70, 60, 90]);
+  expect(await scores({ movement: 'squat' })).toEqual([50, 70, 90]);
+  expect(await scores({ from: 150, to: 300 })).toEqual([70, 60]);
+  expect(await scores({ movement: 'squat', minScore: 60, maxScore: 80 })).toEqual([70]);
+  expect(await scores({ limit: 2 })).toEqual([50, 70]);
+  expect(await repository.getSessions({ movement: 'deadlift' })).toEqual([]);
+});
+
+test('deleting a set removes its trace', async () => {
+  const fs = memoryFs();
+  const repository = new HistoryRepository(fs, { createId: sequentialIds() });
+  const session = await repository.startSession(0);
+  const writer = new PoseTraceWriter('squat', { platform: 'test' });
+  generateSyntheticSet('squat', { reps: 1 }).forEach(frame => writer.addFrame(frame));
+  const set = await repository.addSet(session.id, historySet('squat', 80, 100), writer.getTrace());
+
+  await repository.deleteSet(set.id);
+
+  expect(await repository.getSets()).toEqual([]);
+  expect(set.tracePath! in fs.files).toBe(false);
+  expect(await repository.getSessions()).toHaveLength(1);
+});
+
+test('adding to a session that does not exist fails and leaves the history as it was', async () => {
+  const fs = memoryFs();
+  const repository = new HistoryRepository(fs, { createId: sequentialIds() });
+  await repository.startSession(0);
+  const before = fs.files['/docs/history/history.json'];
+
+  await expect(repository.addSet('missing', historySet('squat', 80, 100))).rejects.toThrow('No history session missing');
+  expect(fs.files['/docs/history/history.json']).toBe(before);
+  expect(await repository.getSessions()).toHaveLength(1);
+});
+
+test('a load logged after the set is saved with it', async () => {
+  const fs = memoryFs();
+  const repository = new HistoryRepository(fs, { createId: sequentialIds() });
+  const session = await repository.startSession(0);
+  const set = await repository.addSet(session.id, historySet('squat', 80, 100));
+  const load = { load: 100, unit: 'kg' as const, reps: 5, rpe: 8 };
+
+  expect(await repository.updateLoad(set.id, load)).toEqual({ ...set, load });
+  expect((await new HistoryRepository(fs).getSet(set.id))?.load).toEqual(load);
+  await expect(repository.updateLoad('missing', load)).rejects.toThrow('No history set missing');
+});
+
+test('history left in the temporary file by a crash is loaded', async () => {
+  const fs = memoryFs();
+  const repository = new HistoryRepository(fs, { createId: sequentialIds() });
+  const session = await repository.startSession(0);
+  await repository.addSet(session.id, historySet('squat', 80, 100));
+  // Crashed after removing the old file, before moving the new one into place
+  fs.files['/docs/history/history.json.tmp'] = fs.files['/docs/history/history.json'];
+  delete fs.files['/docs/history/history.json'];
+
+  const reopened = new HistoryRepository(fs, { createId: sequentialIds() });
+  expect(await reopened.getSets()).toHaveLength(1);
+
+  await reopened.startSession(200);
+  expect(await new HistoryRepository(fs).getSessions()).toHaveLength(2);
+});
+
+test('a failed read is tried again', async () => {
+  const fs = memoryFs();
+  const repository = new HistoryRepository(fs, { createId: sequentialIds() });
+  await repository.startSession(0);
+  const reopened = new HistoryRepository(fs);
+  const readFile = fs.readFile;
+  fs.readFile = async () => {
+    throw new Error('Storage busy');
+  };
+
+  await expect(reopened.getSessions()).rejects.toThrow('Storage busy');
+  fs.readFile = readFile;
+  expect(await reopened.getSessions()).toHaveLength(1);
+});
+
+describe('migrations', () => {
+  const migrations = {
+    // v1 kept one score per set under "total"
+    1: (data: any) => ({
+      ...data,
+      sessions: data.sessions.map((session: any) => ({
+        ...session,
+        sets: session.sets.map(({ total, ...set }: any) => ({ ...set, score: total })),
+      })),
+    }),
+    2: (data: any) => ({ ...data, migratedTwice: true }),
+  };
+
+  test('old history is upgraded one version at a time', () => {
+    const stored = {
+      format: HISTORY_FORMAT,
+      version: 1,
+      sessions: [{ id: 's', startedAt: 0, endedAt: null, sets: [{ id: 'a', total: 72 }] }],
+    };
+    const migrated: any = migrateHistory(stored, migrations, 3);
+
+    expect(migrated.version).toBe(3);
+    expect(migrated.sessions[0].sets[0]).toEqual({ id: 'a', score: 72 });
+    expect(migrated.migratedTwice).toBe(true);
+  });
+
+  test('sets saved before loads were logged read as unloaded', () => {
+    const stored = {
+      format: HISTORY_FORMAT,
+      version: 1,
+      sessions: [{ id: 's', startedAt: 0, endedAt: null, sets: [{ id: 'a', score: 72 }] }],
+    };
+
+    expect(migrateHistory(stored).sessions[0].sets[0]).toEqual({ id: 'a', score: 72, load: null });
+  });
+
+  test('velocity loss saved as a list is keyed by rep number', () => {
+    const velocity = (meanConcentric: number) => ({ meanConcentric, peakConcentric: meanConcentric, unit: 'm/s' });
+    const set = {
+      id: 'a',
+      score: 72,
+      load: null,
+      reps: [{ repNumber: 1, velocity: velocity(0.5) }, { repNumber: 2, velocity: null }, { repNumber: 3, velocity: velocity(0.4) }],
+      velocity: { unit: 'm/s', fastestRep: 1, velocityLoss: 20, repVelocityLoss: [0, 20] },
+    };
+    const stored = { format: HISTORY_FORMAT, version: 2, sessions: [{ id: 's', startedAt: 0, endedAt: null, sets: [set] }] };
+
+    expect(migrateHistory(stored).sessions[0].sets[0].velocity?.repVelocityLoss).toEqual({ 1: 0, 3: expect.closeTo(20) });
+  });
+
+  test('history from a newer app version is refused', () => {
+    expect(() => migrateHistory({ format: HISTORY_FORMAT, version: 4, sessions: [] }, migrations, 3))
+      .toThrow('History version 4 is newer than supported version 3');
+    expect(() => migrateHistory({ version: 1 }, migrations, 3)).toThrow('Not a training history file');
+  });
+
+  test('an unreadable history file is set aside, not overwritten', async () => {
+    const fs = memoryFs({ '/docs/history/history.json': '{"format":"tma-hist' });
+    const repository = new HistoryRepository(fs);
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await repository.getSessions()).toEqual([]);
+    const setAside = Object.keys(fs.files).find(path => path.includes('history.unreadable-'));
+    expect(setAside && fs.files[setAside]).toBe('{"format":"tma-hist');
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * @format
+ */
+
+import { PreviewLayout, getUprightFrameSize, mapToPreview } from '../components/PoseDetector';
+
+// A 1080x1920 portrait preview showing a 720x1280 camera image: same aspect
+const PORTRAIT: PreviewLayout = { width: 1080, height: 1920, frameWidth: 720, frameHeight: 1280, resizeMode: 'cover' };
+
+test('a matching aspect ratio just scales', () => {
+  expect(mapToPreview({ x: 0.25, y: 0.75 }, PORTRAIT)).toEqual({ x: 270, y: 1440 });
+});
+
+test('a cover preview crops the sides of a wider image', () => {
+  // A square image in a 1:2 view is scaled to the full height
+  const layout: PreviewLayout = { width: 400, height: 800, frameWidth: 1200, frameHeight: 1200, resizeMode: 'cover' };
+  const centre = mapToPreview({ x: 0.5, y: 0.5 }, layout);
+  const left = mapToPreview({ x: 0, y: 0 }, layout);
+
+  expect(centre).toEqual({ x: 200, y: 400 });
+  // The image is 800 wide on screen, so its left edge sits 200 off screen
+  expect(left).toEqual({ x: -200, y: 0 });
+});
+
+test('a contain preview letterboxes a wider image', () => {
+  const layout: PreviewLayout = { width: 400, height: 800, frameWidth: 1200, frameHeight: 1200, resizeMode: 'contain' };
+
+  expect(mapToPreview({ x: 0, y: 0 }, layout)).toEqual({ x: 0, y: 200 });
+  expect(mapToPreview({ x: 1, y: 1 }, layout)).toEqual({ x: 400, y: 600 });
+});
+
+test('a mirrored preview flips horizontally', () => {
+  expect(mapToPreview({ x: 0.25, y: 0.5 }, { ...PORTRAIT, mirrored: true })).toEqual({ x: 810, y: 960 });
+});
+
+test('a landscape camera buffer is turned upright for a portrait preview', () => {
+  // The sensor delivers 1280x720 buffers a quarter turn from upright
+  const size = getUprightFrameSize({ width: 1280, height: 720 }, 'landscape-right');
+  const layout: PreviewLayout = { ...PORTRAIT, frameWidth: size.width, frameHeight: size.height };
+
+  expect(size).toEqual({ width: 720, height: 1280 });
+  expect(mapToPreview({ x: 0.25, y: 0.75 }, layout)).toEqual({ x: 270, y: 1440 });
+  expect(getUprightFrameSize({ width: 720, height: 1280 }, 'portrait')).toEqual({ width: 720, height: 1280 });
+});
@@ -0,0 +1,138 @@
+/**
+ * @format
+ */
+
+import { PoseData } from '../components/FormAnalyzer';
+import { KEYPOINT_SCHEMAS, Landmark, mapLandmarks, toLandmarks } from '../components/KeypointSchema';
+import { MockPoseEstimator, VisionCameraPoseEstimator } from '../components/PoseEstimator';
+import SetAnalyzer from '../components/SetAnalyzer';
+import { generateSyntheticSet } from '../components/SyntheticPose';
+import { WebViewPoseEstimator } from '../components/WebViewPoseEstimator';
+
+// Every landmark at its index, so the mapping can be read back
+const indexed = (count: number): Landmark[] =>
+  Array.from({ length: count }, (_, index) => ({ x: index, y: index * 2, visibility: 0.9 }));
+
+test.each([
+  ['coco17', 17, 11, 16],
+  ['blazepose33', 33, 23, 28],
+] as const)('%s landmarks are named for the analyzer', (schema, count, leftHip, rightAnkle) => {
+  expect(KEYPOINT_SCHEMAS[schema]).toHaveLength(count);
+  const keypoints = mapLandmarks(schema, { landmarks: indexed(count), timestamp: 0, normalized: true });
+
+  expect(keypoints.leftHip.x).toBe(leftHip);
+  expect(keypoints.rightAnkle.x).toBe(rightAnkle);
+  expect(keypoints.nose.x).toBe(0);
+});
+
+test('pixel landmarks are normalized by the frame size', () => {
+  const landmarks = indexed(17);
+  landmarks[11] = { x: 360, y: 960, z: -72, score: 0.8 };
+  const keypoints = mapLandmarks('coco17', {
+    landmarks,
+    timestamp: 0,
+    frameSize: { width: 720, height: 1280 },
+    normalized: false,
+  });
+
+  expect(keypoints.leftHip).toEqual({ x: 0.5, y: 0.75, z: -0.1, visibility: 0.8 });
+});
+
+test('landmarks the model did not find are left out', () => {
+  const landmarks = indexed(17);
+  landmarks[15] = { x: 0, y: 0, score: 0 };
+  const keypoints = mapLandmarks('coco17', { landmarks, timestamp: 0, normalized: true });
+
+  expect(keypoints.leftAnkle).toBeUndefined();
+  expect(keypoints.rightAnkle).toBeDefined();
+});
+
+test('a frame from the wrong schema is rejected', () => {
+  expect(() => mapLandmarks('blazepose33', { landmarks: indexed(17), timestamp: 0, normalized: true }))
+    .toThrow('Expected 33 blazepose33 landmarks, got 17');
+});
+
+test('toLandmarks round-trips through mapLandmarks', () => {
+  const [frame] = generateSyntheticSet('squat', { includeDepth: true });
+  const landmarks = toLandmarks('blazepose33', frame.keypoints);
+
+  expect(mapLandmarks('blazepose33', { landmarks, timestamp: 0, normalized: true })).toEqual(frame.keypoints);
+});
+
+describe('MockPoseEstimator', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  const record = (estimator: MockPoseEstimator) => {
+    const frames: PoseData[] = [];
+    let ended = false;
+    estimator.start(poseData => frames.push(poseData), () => {
+      ended = true;
+    });
+    jest.runAllTimers();
+    return { frames, ended };
+  };
+
+  test.each(['coco17', 'blazepose33'] as const)('plays a set that analyzes like the original (%s)', schema => {
+    const options = { faults: ['forwardLean' as const] };
+    const { frames, ended } = record(new MockPoseEstimator('squat', { ...options, schema }));
+
+    expect(ended).toBe(true);
+    const played = new SetAnalyzer('squat');
+    frames.forEach(frame => played.addFrame(frame));
+    const original = new SetAnalyzer('squat');
+    generateSyntheticSet('squat', options).forEach(frame => original.addFrame(frame));
+
+    expect(played.getSummary().repCount).toBe(3);
+    expect(played.getSummary().score).toBe(original.getSummary().score);
+  });
+
+  test('is deterministic', () => {
+    expect(record(new MockPoseEstimator('bench')).frames).toEqual(record(new MockPoseEstimator('bench')).frames);
+  });
+
+  test('a looping set keeps time moving forward', () => {
+    const estimator = new MockPoseEstimator('squat', { loop: true, reps: 1, setupSeconds: 0.5 });
+    const timestamps: number[] = [];
+    estimator.start(poseData => timestamps.push(poseData.timestamp));
+    jest.advanceTimersByTime(10000);
+    estimator.stop();
+
+    expect(timestamps.length).toBeGreaterThan(250);
+    expect(timestamps.every((timestamp, index) => index === 0 || timestamp > timestamps[index - 1])).toBe(true);
+  });
+});
+
+test('the Vision Camera adapter maps plugin results', () => {
+  const estimator = new VisionCameraPoseEstimator({ schema: 'coco17' });
+  const frames: PoseData[] = [];
+  estimator.start(poseData => frames.push(poseData));
+  estimator.handleResult(null, { width: 720, height: 1280 }, 0);
+  estimator.handleResult(indexed(17), { width: 720, height: 1280 }, 33);
+
+  expect(frames).toHaveLength(1);
+  expect(frames[0].timestamp).toBe(33);
+  expect(frames[0].frameSize).toEqual({ width: 720, height: 1280 });
+  expect(frames[0].keypoints.leftHip).toEqual({ x: 11 / 720, y: 22 / 1280, visibility: 0.9 });
+});
+
+test('the WebView adapter maps posted messages and reports errors', () => {
+  const errors: string[] = [];
+  const estimator = new WebViewPoseEstimator('blazepose33', message => errors.push(message));
+  const frames: PoseData[] = [];
+  estimator.start(poseData => frames.push(poseData));
+
+  estimator.handleMessage(JSON.stringify({ type: 'pose', landmarks: indexed(33), timestamp: 100 }));
+  estimator.handleMessage(JSON.stringify({ type: 'pose', timestamp: 133 }));
+  estimator.handleMessage(JSON.stringify({ type: 'pose', landmarks: indexed(17), timestamp: 166 }));
+  estimator.handleMessage(JSON.stringify({ type: 'error', message: 'Model failed to load' }));
+  estimator.handleMessage('not json');
+
+  expect(frames.map(frame => frame.timestamp)).toEqual([100]);
+  expect(frames[0].keypoints.leftHip.x).toBe(23);
+  expect(errors).toEqual([
+    'Expected 33 blazepose33 landmarks, got 17',
+    'Model failed to load',
+    'Unreadable pose message: not json',
+  ]);
+});
@@ -0,0 +1,82 @@
+/**
+ * @format
+ */
+
+import { KeyPoint, PoseData } from '../components/FormAnalyzer';
+import PosePreprocessor, { OneEuroFilter } from '../components/PosePreprocessor';
+
+const frame = (timestamp: number, keypoints: { [name: string]: KeyPoint }): PoseData => ({ timestamp, keypoints });
+
+test('the One-Euro filter smooths jitter on a still joint', () => {
+  const filter = new OneEuroFilter(1.5, 0.5, 1.0);
+  const outputs = [0.5, 0.52, 0.48, 0.52, 0.48, 0.52].map((value, i) => filter.filter(value, i * 33));
+
+  expect(outputs[0]).toBe(0.5);
+  outputs.slice(1).forEach(output => expect(Math.abs(output - 0.5)).toBeLessThan(0.01));
+});
+
+test('the One-Euro filter follows fast motion more closely than slow jitter', () => {
+  const still = new OneEuroFilter(1.5, 0.5, 1.0);
+  const moving = new OneEuroFilter(1.5, 0.5, 1.0);
+  let stillOutput = 0;
+  let movingOutput = 0;
+  for (let i = 0; i <= 10; i++) {
+    stillOutput = still.filter(i % 2 === 0 ? 0 : 0.02, i * 33);
+    movingOutput = moving.filter(i * 0.05, i * 33);
+  }
+
+  // The moving joint ends at 0.5 and the filter keeps up with most of it
+  expect(movingOutput).toBeGreaterThan(0.35);
+  expect(moving.getDerivative()).toBeGreaterThan(0);
+  expect(Math.abs(stillOutput - 0.01)).toBeLessThan(0.01);
+});
+
+test('keypoints below the visibility bar are kept but not trusted', () => {
+  const preprocessor = new PosePreprocessor({ requiredKeypoints: ['hip', 'knee'] });
+
+  const processed = preprocessor.process(frame(0, {
+    hip: { x: 0.5, y: 0.5, visibility: 0.9 },
+    knee: { x: 0.5, y: 0.7, visibility: 0.2 },
+  }));
+
+  expect(processed.keypoints.knee).toEqual({ x: 0.5, y: 0.7, visibility: 0.2 });
+  expect(processed.unreliableKeypoints).toEqual(['knee']);
+  expect(processed.reliable).toBe(false);
+});
+
+test('frames with every required keypoint are reliable', () => {
+  const preprocessor = new PosePreprocessor({ requiredKeypoints: ['hip'] });
+
+  const processed = preprocessor.process(frame(0, {
+    hip: { x: 0.5, y: 0.5, visibility: 0.9 },
+    wrist: { x: 0.2, y: 0.2, visibility: 0.1 },
+  }));
+
+  expect(processed.reliable).toBe(true);
+  expect(processed.unreliableKeypoints).toEqual(['wrist']);
+  expect(preprocessor.process(frame(33, {})).reliable).toBe(true);
+});
+
+test('a short dropout is bridged from the joint\'s last motion', () => {
+  const preprocessor = new PosePreprocessor({ requiredKeypoints: ['hip'] });
+  preprocessor.process(frame(0, { hip: { x: 0.5, y: 0.5 } }));
+  const last = preprocessor.process(frame(33, { hip: { x: 0.5, y: 0.5 } })).keypoints.hip;
+
+  const bridged = preprocessor.process(frame(100, { hip: { x: 0.1, y: 0.1, visibility: 0.1 } }));
+
+  expect(bridged.reliable).toBe(true);
+  expect(bridged.keypoints.hip).toMatchObject({ x: last.x, y: last.y, interpolated: true });
+});
+
+test('a dropout longer than the gap limit is reported as missing', () => {
+  const preprocessor = new PosePreprocessor({ requiredKeypoints: ['hip'], maxGapMs: 200 });
+  preprocessor.process(frame(0, { hip: { x: 0.5, y: 0.5 } }));
+
+  const gone = preprocessor.process(frame(300, {}));
+  const back = preprocessor.process(frame(333, { hip: { x: 0.8, y: 0.8 } }));
+
+  expect(gone.reliable).toBe(false);
+  expect(gone.keypoints.hip).toBeUndefined();
+  // The filter starts fresh instead of easing over from where the joint was lost
+  expect(back.keypoints.hip).toMatchObject({ x: 0.8, y: 0.8 });
+});
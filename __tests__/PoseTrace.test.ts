@@ -0,0 +1,74 @@
+/**
+ * @format
+ */
+
+import { PoseData } from '../components/FormAnalyzer';
+import {
+  POSE_TRACE_FORMAT,
+  PoseTraceWriter,
+  parsePoseTrace,
+  serializePoseTrace,
+} from '../components/PoseTrace';
+
+const FRAMES: PoseData[] = [
+  { timestamp: 0, keypoints: { hip: { x: 0.5, y: 0.5, visibility: 0.9 }, knee: { x: 0.5, y: 0.7 } } },
+  { timestamp: 100, keypoints: { hip: { x: 0.5, y: 0.55, z: -0.1, visibility: 0.8 } } },
+  { timestamp: 200, keypoints: { knee: { x: 0.52, y: 0.7 }, ankle: { x: 0.5, y: 0.9 } } },
+];
+
+const recordedTrace = () => {
+  const writer = new PoseTraceWriter('squat', { platform: 'test' }, { athleteHeightCm: 180 });
+  FRAMES.forEach(frame => writer.addFrame(frame));
+  return writer.getTrace();
+};
+
+const header = (overrides: object) => JSON.stringify({
+  format: POSE_TRACE_FORMAT,
+  version: 1,
+  movement: 'squat',
+  device: { platform: 'test' },
+  fps: 10,
+  keypointSchema: ['hip'],
+  recordedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+test('a serialized trace parses back to the same frames', () => {
+  const trace = recordedTrace();
+
+  const parsed = parsePoseTrace(serializePoseTrace(trace));
+
+  expect(parsed).toEqual(trace);
+  expect(parsed.header).toMatchObject({ keypointSchema: ['hip', 'knee', 'ankle'], fps: 10, athleteHeightCm: 180 });
+  // Missing keypoints, depth and visibility stay missing
+  expect(parsed.frames[2].keypoints).toEqual({ knee: { x: 0.52, y: 0.7 }, ankle: { x: 0.5, y: 0.9 } });
+});
+
+test('the writer keeps the raw keypoints only', () => {
+  const writer = new PoseTraceWriter('squat', { platform: 'test' });
+  writer.addFrame({ ...FRAMES[0], reliable: false, view: 'side' });
+
+  expect(writer.getTrace().frames).toEqual([FRAMES[0]]);
+});
+
+test('a file that isn\'t a pose trace is refused', () => {
+  expect(() => parsePoseTrace('')).toThrow('Pose trace is empty');
+  expect(() => parsePoseTrace('not json\n')).toThrow('Pose trace header is malformed');
+  expect(() => parsePoseTrace(header({ format: 'tma-history' }))).toThrow('Not a pose trace: unexpected format "tma-history"');
+  expect(() => parsePoseTrace(header({ keypointSchema: undefined }))).toThrow('missing its keypoint schema');
+});
+
+test('a trace from a newer version is refused', () => {
+  expect(() => parsePoseTrace(header({ version: 2 }))).toThrow('Pose trace version 2 is newer than supported version 1');
+  expect(() => parsePoseTrace(header({ version: undefined }))).toThrow('Pose trace header is missing its version');
+});
+
+test('a malformed frame line says which frame it is', () => {
+  const frame = JSON.stringify({ t: 0, k: [[0.5, 0.5, null, null]] });
+
+  expect(() => parsePoseTrace([header({}), frame, '{"t": 100, "k": [[0.5'].join('\n')))
+    .toThrow('Pose trace frame 2 is malformed');
+  expect(() => parsePoseTrace([header({}), '{"t": 0}'].join('\n'))).toThrow('Pose trace frame 1 is malformed');
+  // Blank lines between frames are fine
+  expect(parsePoseTrace([header({}), '', frame, ''].join('\n')).frames).toHaveLength(1);
+});
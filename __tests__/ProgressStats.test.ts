@@ -0,0 +1,148 @@
+/**
+ * @format
+ */
+
+import { HistorySet, toHistoryRep } from '../components/HistoryStore';
+import {
+  computeMovementProgress,
+  computeTrend,
+  detectRegression,
+  findPersonalBest,
+  getSetMetric,
+  groupBySession,
+  ProgressPoint,
+} from '../components/ProgressStats';
+import SetAnalyzer from '../components/SetAnalyzer';
+import { SyntheticFault, generateSyntheticSet } from '../components/SyntheticPose';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A squat set whose reps read the given details
+const historySet = (
+  id: string,
+  day: number,
+  score: number,
+  repDetails: { [metric: string]: number }[],
+): HistorySet => ({
+  id,
+  sessionId: `session${day}`,
+  movement: 'squat',
+  recordedAt: day * DAY_MS,
+  durationSeconds: 20,
+  score,
+  repCount: repDetails.length,
+  reps: repDetails.map((details, index) => ({
+    repNumber: index + 1,
+    startTime: 0,
+    endTime: 0,
+    feedback: { score, items: [], feedback: [], errors: [], details },
+    tempo: { eccentric: 1, pause: 0, concentric: 1, timeUnderTension: 2 },
+  })),
+  breakdown: [],
+  feedback: [],
+  recurringFaults: [],
+  skippedChecks: [],
+  view: 'front',
+  angleMode: '2d',
+  calibration: null,
+  velocity: null,
+  load: null,
+  videoPath: null,
+  tracePath: null,
+});
+
+// Two sets a day with the given knee tracking readings
+const kneeTrackingPoints = (daily: [number, number][]): ProgressPoint[] =>
+  daily.flatMap(([first, second], day) => [
+    { setId: `${day}a`, sessionId: `session${day}`, timestamp: day * DAY_MS, value: first },
+    { setId: `${day}b`, sessionId: `session${day}`, timestamp: day * DAY_MS + 60000, value: second },
+  ]);
+
+test('a set reads a metric as the average over its reps', () => {
+  const set = historySet('a', 0, 80, [{ depth: 0.2 }, { depth: 0.4 }, {}]);
+
+  expect(getSetMetric(set, 'depth')).toBeCloseTo(0.3);
+  expect(getSetMetric(set, 'score')).toBe(80);
+  expect(getSetMetric(set, 'symmetry')).toBeNull();
+  expect(getSetMetric(historySet('b', 0, 0, []), 'score')).toBeNull();
+});
+
+test('sets are averaged per session, oldest first', () => {
+  const sessions = groupBySession(kneeTrackingPoints([[0.9, 0.8], [1, 0.9]]).reverse());
+
+  expect(sessions.map(session => [session.sessionId, session.setCount])).toEqual([['session0', 2], ['session1', 2]]);
+  expect(sessions[0].value).toBeCloseTo(0.85);
+});
+
+test('trends are judged by the direction the metric is better in', () => {
+  const rising = groupBySession(kneeTrackingPoints([[0.7, 0.7], [0.8, 0.8], [0.9, 0.9]]));
+
+  expect(computeTrend(rising, true)).toEqual({ perDay: expect.closeTo(0.1), direction: 'improving' });
+  expect(computeTrend(rising, false)?.direction).toBe('worsening');
+  expect(computeTrend(groupBySession(kneeTrackingPoints([[0.8, 0.8], [0.9, 0.9], [0.8, 0.8]])), true)?.direction)
+    .toBe('flat');
+  expect(computeTrend(rising.slice(0, 1), true)).toBeNull();
+});
+
+test('the personal best is the best reading in the metric\'s direction', () => {
+  const points = kneeTrackingPoints([[0.8, 0.95], [0.7, 0.9]]);
+
+  expect(findPersonalBest(points, true)).toEqual({ value: 0.95, setId: '0b', timestamp: 60000 });
+  expect(findPersonalBest(points, false)?.setId).toBe('1a');
+});
+
+describe('regressions', () => {
+  const baseline: [number, number][] = [[0.95, 0.93], [0.94, 0.96], [0.92, 0.95]];
+
+  test('knee tracking worsening over the last three sessions is flagged', () => {
+    const alert = detectRegression('kneeTracking', kneeTrackingPoints([...baseline, [0.86, 0.84], [0.83, 0.85], [0.8, 0.82]]), true);
+
+    expect(alert).toMatchObject({ metric: 'kneeTracking', sessionCount: 3 });
+    expect(alert!.recentMean).toBeCloseTo(0.833, 2);
+    expect(alert!.tStatistic).toBeGreaterThan(2);
+  });
+
+  test('one bad session is not a regression', () => {
+    expect(detectRegression('kneeTracking', kneeTrackingPoints([...baseline, [0.95, 0.94], [0.93, 0.96], [0.8, 0.82]]), true))
+      .toBeNull();
+  });
+
+  test('a drop within the noise is not a regression', () => {
+    const noisy: [number, number][] = [[1, 0.7], [0.95, 0.75], [0.98, 0.72]];
+    expect(detectRegression('kneeTracking', kneeTrackingPoints([...noisy, [0.9, 0.75], [0.88, 0.74], [0.9, 0.73]]), true))
+      .toBeNull();
+  });
+
+  test('too few sessions are not enough to judge', () => {
+    expect(detectRegression('kneeTracking', kneeTrackingPoints([...baseline.slice(0, 2), [0.5, 0.5], [0.5, 0.5], [0.5, 0.5]]), true))
+      .toBeNull();
+  });
+
+  test('a metric that is better lower regresses upwards', () => {
+    const lean = kneeTrackingPoints([[0.1, 0.12], [0.11, 0.1], [0.12, 0.1], [0.2, 0.22], [0.21, 0.23], [0.24, 0.22]]);
+
+    expect(detectRegression('forwardLean', lean, false)?.metric).toBe('forwardLean');
+    expect(detectRegression('forwardLean', lean, true)).toBeNull();
+  });
+});
+
+test('knees starting to cave in analyzed sets raise a knee tracking alert', () => {
+  const analyzedSet = (day: number, faults: SyntheticFault[]): HistorySet => {
+    const analyzer = new SetAnalyzer('squat');
+    generateSyntheticSet('squat', { view: 'front', faults, seed: day + 1, noise: 0.004 })
+      .forEach(frame => analyzer.addFrame(frame));
+    const summary = analyzer.getSummary();
+    return { ...historySet(`set${day}`, day, summary.score, []), reps: summary.reps.map(toHistoryRep), repCount: summary.repCount };
+  };
+  const sets = [0, 1, 2, 3].map(day => analyzedSet(day, []))
+    .concat([4, 5, 6].map(day => analyzedSet(day, ['kneeCave'])));
+
+  const progress = computeMovementProgress('squat', sets, { minBaselineSessions: 2 });
+
+  expect(progress).toMatchObject({ setCount: 7, sessionCount: 7 });
+  expect(progress.metrics.map(metric => metric.metric)).toEqual(expect.arrayContaining(['score', 'kneeTracking']));
+  expect(progress.regressions.map(alert => alert.metric)).toEqual(expect.arrayContaining(['score', 'kneeTracking']));
+  const score = progress.metrics.find(metric => metric.metric === 'score')!;
+  expect(score.trend?.direction).toBe('worsening');
+  expect(score.personalBest?.setId).toMatch(/^set[0-3]$/);
+});
@@ -0,0 +1,80 @@
+/**
+ * @format
+ */
+
+import RepTracker, { RepEvent } from '../components/RepTracker';
+import { PoseData } from '../components/FormAnalyzer';
+
+// Standing squatter whose hips drop by `depth` (image units) at the bottom
+const squatFrame = (timestamp: number, depth: number): PoseData => ({
+  timestamp,
+  keypoints: {
+    leftHip: { x: 0.45, y: 0.5 + depth },
+    rightHip: { x: 0.55, y: 0.5 + depth },
+    leftKnee: { x: 0.45, y: 0.7 },
+    rightKnee: { x: 0.55, y: 0.7 },
+    leftAnkle: { x: 0.45, y: 0.9 },
+    rightAnkle: { x: 0.55, y: 0.9 },
+  },
+});
+
+// One rep is a half cosine down and back up, with a pause at the top
+const squatSet = (reps: number, depth: number, fps = 30, repSeconds = 2, pauseSeconds = 1) => {
+  const frames: PoseData[] = [];
+  const frameMs = 1000 / fps;
+  let t = 0;
+  const hold = () => {
+    for (let i = 0; i < pauseSeconds * fps; i++) {
+      frames.push(squatFrame(t, 0));
+      t += frameMs;
+    }
+  };
+  hold();
+  for (let rep = 0; rep < reps; rep++) {
+    for (let i = 0; i < repSeconds * fps; i++) {
+      const progress = i / (repSeconds * fps);
+      frames.push(squatFrame(t, depth * (1 - Math.cos(progress * 2 * Math.PI)) / 2));
+      t += frameMs;
+    }
+    hold();
+  }
+  return frames;
+};
+
+const run = (tracker: RepTracker, frames: PoseData[]): RepEvent[] =>
+  frames.flatMap(frame => tracker.update(frame));
+
+test('counts each squat rep exactly once', () => {
+  const tracker = new RepTracker('squat');
+  const events = run(tracker, squatSet(5, 0.2));
+
+  expect(tracker.getRepCount()).toBe(5);
+  expect(events.filter(e => e.type === 'repStart')).toHaveLength(5);
+  expect(events.filter(e => e.type === 'repEnd').map(e => e.repNumber)).toEqual([1, 2, 3, 4, 5]);
+  expect(tracker.getPhase()).toBe('lockout');
+});
+
+test('rep timestamps bracket the turnaround', () => {
+  const tracker = new RepTracker('squat');
+  run(tracker, squatSet(2, 0.2));
+
+  tracker.getReps().forEach(rep => {
+    expect(rep.startTime).toBeLessThan(rep.turnaroundTime);
+    expect(rep.turnaroundTime).toBeLessThan(rep.endTime);
+    expect(rep.endTime - rep.startTime).toBeLessThan(2500);
+  });
+});
+
+test('ignores partial reps that miss the range of motion', () => {
+  const tracker = new RepTracker('squat');
+  const events = run(tracker, squatSet(3, 0.05));
+
+  expect(tracker.getRepCount()).toBe(0);
+  expect(events.some(e => e.type === 'repEnd')).toBe(false);
+});
+
+test('skips frames without the required keypoints', () => {
+  const tracker = new RepTracker('squat');
+  expect(tracker.update({ timestamp: 0, keypoints: {} })).toEqual([]);
+  expect(tracker.getPhase()).toBe('setup');
+});
@@ -0,0 +1,89 @@
+/**
+ * @format
+ */
+
+import FormAnalyzer, { PoseData } from '../components/FormAnalyzer';
+import RepTracker from '../components/RepTracker';
+import SetAnalyzer from '../components/SetAnalyzer';
+import { SyntheticSetOptions, generateSyntheticSet } from '../components/SyntheticPose';
+import { setLocale } from '../i18n';
+
+setLocale('en');
+
+// Synthetic squat sets played one after another, as if in one recording
+const squatFrames = (...sets: Partial<SyntheticSetOptions>[]): PoseData[] => {
+  const frames: PoseData[] = [];
+  sets.forEach((options, i) => {
+    const offset = frames.length > 0 ? frames[frames.length - 1].timestamp + 33 : 0;
+    generateSyntheticSet('squat', { ...options, setupSeconds: i === 0 ? undefined : 0 })
+      .forEach(frame => frames.push({ ...frame, timestamp: frame.timestamp + offset }));
+  });
+  return frames;
+};
+
+const analyze = (frames: PoseData[]) => {
+  const analyzer = new SetAnalyzer('squat');
+  frames.forEach(frame => analyzer.addFrame(frame));
+  return analyzer;
+};
+
+test('each rep is scored on its key frame and rolled up into the set', () => {
+  const analyzer = analyze(squatFrames({ reps: 3 }));
+  const summary = analyzer.getSummary();
+
+  expect(summary.repCount).toBe(3);
+  expect(analyzer.getRepCount()).toBe(3);
+  expect(summary.reps.map(rep => rep.repNumber)).toEqual([1, 2, 3]);
+  expect(summary.reps.every(rep => rep.score === 100 && rep.tempo.timeUnderTension > 0)).toBe(true);
+  expect(summary.score).toBe(100);
+  expect(analyzer.getRunningScore()).toBe(100);
+  expect(summary.recurringFaults).toEqual([]);
+  expect(summary.feedback[0]).toBe('Consistent form across the set');
+});
+
+test('a fault in most reps is reported as recurring', () => {
+  const summary = analyze(squatFrames({ reps: 3, faults: ['shallowDepth'] })).getSummary();
+
+  expect(summary.recurringFaults).toEqual([
+    { code: 'SQUAT_DEPTH_SHALLOW', message: expect.any(String), reps: [1, 2, 3] },
+  ]);
+  expect(summary.feedback[0]).toContain('(reps 1, 2, 3)');
+});
+
+test('the best and worst reps are picked out', () => {
+  const summary = analyze(squatFrames({ reps: 2 }, { reps: 1, faults: ['shallowDepth'] })).getSummary();
+
+  expect(summary.reps.map(rep => rep.score)).toEqual([100, 100, 75]);
+  expect(summary).toMatchObject({ bestRep: 1, worstRep: 3, score: 92 });
+  // One shallow rep out of three isn't a pattern
+  expect(summary.recurringFaults).toEqual([]);
+  expect(summary.feedback).toContain('Best rep: #1 (100), worst rep: #3 (75)');
+});
+
+test('a set without reps is scored on its frames', () => {
+  const frames = generateSyntheticSet('squat', { reps: 0 });
+  const perFrame = frames.map(frame => FormAnalyzer.analyze('squat', frame).score);
+  const summary = analyze(frames).getSummary();
+
+  expect(summary).toMatchObject({ repCount: 0, reps: [], recurringFaults: [], frameCount: frames.length });
+  expect(summary.score).toBe(Math.round(perFrame.reduce((sum, score) => sum + score, 0) / perFrame.length));
+  expect(summary.feedback).toEqual(['No complete reps detected - make sure the full range of motion is in frame']);
+  expect(new SetAnalyzer('squat').getSummary()).toMatchObject({ repCount: 0, score: 0, frameCount: 0 });
+});
+
+test('a rep that ends with no frames kept for it is still counted', () => {
+  const repTracker = new RepTracker('squat');
+  jest.spyOn(repTracker, 'getReps').mockReturnValue([
+    { repNumber: 1, startTime: 0, endTime: 2000, turnaroundTime: 1000, pauseStart: 1000, pauseEnd: 1000, rangeOfMotion: 1 },
+  ]);
+  const frame: PoseData = { timestamp: 2000, keypoints: {}, reliable: false };
+  const analyzeFrame = jest.spyOn(FormAnalyzer, 'analyze')
+    .mockReturnValue({ ...FormAnalyzer.analyze('squat', frame), repCompleted: true });
+
+  const analyzer = new SetAnalyzer('squat', { repTracker, preprocessor: null });
+  analyzer.addFrame(frame);
+  analyzeFrame.mockRestore();
+
+  expect(analyzer.getRepCount()).toBe(1);
+  expect(analyzer.getSummary().reps[0]).toMatchObject({ repNumber: 1, score: 0, startTime: 0, endTime: 2000 });
+});
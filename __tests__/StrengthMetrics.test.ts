@@ -0,0 +1,115 @@
+/**
+ * @format
+ */
+
+import { HistorySet } from '../components/HistoryStore';
+import {
+  SetLoad,
+  computeIntensityProfile,
+  convertLoad,
+  estimateOneRepMax,
+  getRepsToFailure,
+} from '../components/StrengthMetrics';
+
+const squatSet = (id: string, score: number, load: SetLoad | null): HistorySet => ({
+  id,
+  sessionId: 'session',
+  movement: 'squat',
+  recordedAt: 0,
+  durationSeconds: 20,
+  score,
+  repCount: load ? load.reps : 5,
+  reps: [],
+  breakdown: [],
+  feedback: [],
+  recurringFaults: [],
+  skippedChecks: [],
+  view: 'side',
+  angleMode: '2d',
+  calibration: null,
+  velocity: null,
+  load,
+  videoPath: null,
+  tracePath: null,
+});
+
+const kg = (load: number, reps: number, rpe: number | null = 10): SetLoad => ({ load, unit: 'kg', reps, rpe });
+
+test('loads convert between kilograms and pounds', () => {
+  expect(convertLoad(100, 'kg', 'lb')).toBeCloseTo(220.46, 2);
+  expect(convertLoad(225, 'lb', 'kg')).toBeCloseTo(102.06, 2);
+  expect(convertLoad(80, 'kg', 'kg')).toBe(80);
+});
+
+test('each formula estimates a one-rep max from a set to failure', () => {
+  const set = kg(100, 5);
+
+  expect(estimateOneRepMax(set, 'epley')).toBeCloseTo(116.67, 2);
+  expect(estimateOneRepMax(set, 'brzycki')).toBeCloseTo(112.5, 2);
+  expect(estimateOneRepMax(set, 'lombardi')).toBeCloseTo(117.46, 2);
+  expect(estimateOneRepMax(set, 'oconner')).toBeCloseTo(112.5, 2);
+  expect(estimateOneRepMax(set, 'wathan')).toBeCloseTo(116.6, 1);
+  expect(estimateOneRepMax(kg(140, 1), 'brzycki')).toBe(140);
+});
+
+test('reps left in reserve count towards the estimate', () => {
+  expect(getRepsToFailure(kg(100, 5, 8))).toBe(7);
+  expect(getRepsToFailure(kg(100, 5, null))).toBe(5);
+  expect(estimateOneRepMax(kg(100, 5, 8), 'epley')).toBeCloseTo(123.33, 2);
+  expect(estimateOneRepMax(kg(100, 1, 9.5), 'epley')).toBeCloseTo(105, 2);
+});
+
+test('sets too far from failure give no estimate', () => {
+  expect(estimateOneRepMax(kg(60, 10, 6))).toBeNull();
+  expect(estimateOneRepMax(kg(0, 5))).toBeNull();
+  expect(estimateOneRepMax(kg(100, 0))).toBeNull();
+});
+
+describe('form against intensity', () => {
+  // The single at 100 kg is the best estimate, so each load reads as its own percentage
+  const sets = [
+    squatSet('a', 90, kg(60, 5, 6)),
+    squatSet('b', 92, kg(62, 5, 6)),
+    squatSet('c', 85, kg(70, 5, 6)),
+    squatSet('d', 88, kg(72, 5, 6)),
+    squatSet('e', 66, kg(80, 3, 7)),
+    // 85 kg, logged in pounds
+    squatSet('f', 64, { load: 187.39, unit: 'lb', reps: 3, rpe: 8 }),
+    squatSet('g', 60, kg(90, 1, 9)),
+    squatSet('h', 58, kg(92, 1, 9)),
+    squatSet('i', 50, kg(100, 1)),
+    squatSet('unlogged', 20, null),
+  ];
+
+  test('sets are banded by their share of the best estimated one-rep max', () => {
+    const profile = computeIntensityProfile('squat', sets, 'kg', 'epley');
+
+    expect(profile.referenceOneRepMax).toBe(100);
+    expect(profile.points.map(point => point.setId)).toEqual(['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i']);
+    expect(profile.points[5].intensity).toBeCloseTo(0.85, 3);
+    expect(profile.bands.map(band => [Math.round(band.from * 100), band.setCount])).toEqual([
+      [60, 2], [70, 2], [80, 2], [90, 2], [100, 1],
+    ]);
+    expect(profile.bands[2].averageScore).toBe(65);
+  });
+
+  test('the load where scores drop and stay down is where technique breaks down', () => {
+    const profile = computeIntensityProfile('squat', sets, 'kg', 'epley');
+
+    expect(profile.breakdown?.intensity).toBeCloseTo(0.8);
+    expect(profile.breakdown?.load).toBeCloseTo(80);
+    expect(computeIntensityProfile('squat', sets, 'lb', 'epley').breakdown?.load).toBeCloseTo(176.37, 1);
+  });
+
+  test('form that recovers at heavier loads has not broken down', () => {
+    const recovered = sets.map(set => (set.id === 'g' || set.id === 'h' ? { ...set, score: 85 } : set));
+
+    expect(computeIntensityProfile('squat', recovered, 'kg', 'epley').breakdown).toBeNull();
+  });
+
+  test('a movement without logged loads has no profile', () => {
+    const profile = computeIntensityProfile('bench', sets, 'kg');
+
+    expect(profile).toMatchObject({ referenceOneRepMax: null, points: [], bands: [], breakdown: null });
+  });
+});
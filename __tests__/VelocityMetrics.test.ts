@@ -0,0 +1,135 @@
+/**
+ * @format
+ */
+
+import { Rep, RepPhaseDefinition } from '../components/RepTracker';
+import SetAnalyzer from '../components/SetAnalyzer';
+import { SyntheticMovement, generateSyntheticSet } from '../components/SyntheticPose';
+import VelocityTracker, {
+  RepVelocity,
+  computeTempo,
+  summarizeVelocity,
+  toMetersPerSecond,
+} from '../components/VelocityMetrics';
+
+// Follows the hip, like a squat
+const definition = (startPosition: 'top' | 'bottom'): RepPhaseDefinition => ({
+  signal: keypoints => keypoints.hip?.y ?? null,
+  reference: () => 0.2,
+  startPosition,
+  turnaroundPhase: 'bottom',
+  minRangeOfMotion: 0.5,
+});
+
+// 2 s down, 0.5 s at the bottom, 1 s up
+const REP: Rep = {
+  repNumber: 1,
+  startTime: 0,
+  endTime: 3500,
+  turnaroundTime: 2000,
+  pauseStart: 2000,
+  pauseEnd: 2500,
+  rangeOfMotion: 1,
+};
+
+const mps = (meanConcentric: number): RepVelocity => ({ meanConcentric, peakConcentric: meanConcentric, unit: 'm/s' });
+
+test('tempo splits the rep at the turnaround', () => {
+  expect(computeTempo(REP, definition('top'))).toEqual({
+    eccentric: 2,
+    pause: 0.5,
+    concentric: 1,
+    timeUnderTension: 3.5,
+  });
+  // A deadlift lifts first, so the phases swap
+  expect(computeTempo(REP, definition('bottom'))).toMatchObject({ eccentric: 1, concentric: 2 });
+});
+
+test('mean and peak velocity are measured over the concentric', () => {
+  const tracker = new VelocityTracker(definition('top'));
+  // Hip 0.3 lower at the bottom; up at 0.2/s for half a second, then 0.4/s
+  const positions: [number, number][] = [
+    [0, 0.5], [1000, 0.65], [2000, 0.8], [2500, 0.8], [2750, 0.75], [3000, 0.7], [3250, 0.6], [3500, 0.5],
+  ];
+  positions.forEach(([timestamp, y]) => tracker.addFrame({ timestamp, keypoints: { hip: { x: 0.5, y } } }));
+
+  const velocity = tracker.finishRep(REP);
+
+  expect(velocity?.unit).toBe('image/s');
+  expect(velocity?.meanConcentric).toBeCloseTo(0.3);
+  expect(velocity?.peakConcentric).toBeCloseTo(0.4);
+});
+
+test('velocity is in m/s once image units can be converted', () => {
+  const tracker = new VelocityTracker(definition('top'));
+  [2500, 3000, 3500].forEach((timestamp, i) =>
+    tracker.addFrame({ timestamp, keypoints: { hip: { x: 0.5, y: 0.8 - i * 0.15 } } }));
+
+  expect(tracker.finishRep(REP, 2)).toMatchObject({ meanConcentric: expect.closeTo(0.6), unit: 'm/s' });
+  expect(toMetersPerSecond({ meanConcentric: 0.3, peakConcentric: 0.4, unit: 'image/s' }, 2))
+    .toEqual({ meanConcentric: 0.6, peakConcentric: 0.8, unit: 'm/s' });
+});
+
+test('a concentric with too few frames has no velocity', () => {
+  const tracker = new VelocityTracker(definition('top'));
+  tracker.addFrame({ timestamp: 3000, keypoints: { hip: { x: 0.5, y: 0.6 } } });
+
+  expect(tracker.finishRep(REP)).toBeNull();
+});
+
+test('velocity loss is measured from the fastest rep so far', () => {
+  const velocity = summarizeVelocity([
+    { repNumber: 1, velocity: mps(0.5) },
+    { repNumber: 2, velocity: mps(0.6) },
+    { repNumber: 3, velocity: mps(0.54) },
+    { repNumber: 4, velocity: mps(0.45) },
+  ]);
+
+  expect(velocity?.fastestRep).toBe(2);
+  expect(velocity?.velocityLoss).toBeCloseTo(25);
+  expect(velocity?.repVelocityLoss).toEqual({ 1: 0, 2: 0, 3: expect.closeTo(10), 4: expect.closeTo(25) });
+});
+
+test('reps without a velocity keep the losses in line with rep numbers', () => {
+  const velocity = summarizeVelocity([
+    { repNumber: 1, velocity: mps(0.5) },
+    { repNumber: 2, velocity: null },
+    { repNumber: 3, velocity: mps(0.4) },
+  ]);
+
+  expect(velocity?.repVelocityLoss).toEqual({ 1: 0, 3: expect.closeTo(20) });
+  expect(summarizeVelocity([{ repNumber: 1 }])).toBeNull();
+});
+
+test('velocities in image units are not compared with m/s', () => {
+  const velocity = summarizeVelocity([
+    { repNumber: 1, velocity: { meanConcentric: 0.3, peakConcentric: 0.4, unit: 'image/s' } },
+    { repNumber: 2, velocity: mps(0.5) },
+    { repNumber: 3, velocity: mps(0.4) },
+  ]);
+
+  expect(velocity).toMatchObject({ unit: 'm/s', fastestRep: 2, velocityLoss: expect.closeTo(20) });
+  expect(Object.keys(velocity!.repVelocityLoss)).toEqual(['2', '3']);
+});
+
+// The synthetic athlete's ankle-to-nose chain is 0.76 image units long, so
+// at 180 cm tall one image unit is about 2.08 m
+const SYNTHETIC_METERS_PER_UNIT = 1.8 * 0.88 / 0.76;
+
+const lastRepVelocity = (movement: SyntheticMovement, athleteHeightCm: number | null) => {
+  const analyzer = new SetAnalyzer(movement, { athleteHeightCm });
+  generateSyntheticSet(movement).forEach(frame => analyzer.addFrame(frame));
+  const { reps } = analyzer.getSummary();
+  return reps[reps.length - 1].velocity!;
+};
+
+test.each(['squat', 'bench', 'deadlift'])('%s velocity in m/s follows the athlete\'s real size', movement => {
+  // Bench starts lying down and deadlift bent over the bar, yet both have to
+  // scale like a squat that starts standing
+  const metric = lastRepVelocity(movement as SyntheticMovement, 180);
+  const image = lastRepVelocity(movement as SyntheticMovement, null);
+
+  expect(metric.unit).toBe('m/s');
+  expect(image.unit).toBe('image/s');
+  expect(metric.meanConcentric / image.meanConcentric).toBeCloseTo(SYNTHETIC_METERS_PER_UNIT, 1);
+});
@@ -0,0 +1,102 @@
+/**
+ * @format
+ */
+
+import { FileSystem } from '../components/FileSystem';
+import { VideoStore } from '../components/VideoStore';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MB = 1024 * 1024;
+
+// Files by path, with their sizes
+const memoryFs = (files: { [path: string]: number } = {}): FileSystem & { files: typeof files } => ({
+  files,
+  DocumentDirectoryPath: '/docs',
+  exists: async path => path in files || Object.keys(files).some(file => file.startsWith(`${path}/`)),
+  mkdir: async () => {},
+  moveFile: async (from, to) => {
+    if (!(from in files)) {
+      throw new Error(`No such file: ${from}`);
+    }
+    files[to] = files[from];
+    delete files[from];
+  },
+  readDir: async directory => Object.keys(files)
+    .filter(path => path.startsWith(`${directory}/`))
+    .map(path => ({ name: path.slice(directory.length + 1), path, size: files[path], isFile: () => true })),
+  // Recordings are only ever moved, never read or written
+  readFile: async path => {
+    throw new Error(`Unexpected read of ${path}`);
+  },
+  writeFile: async (path, contents) => {
+    files[path] = contents.length;
+  },
+  unlink: async path => {
+    delete files[path];
+  },
+});
+
+test('a recording is moved into the store and named for the set', async () => {
+  const fs = memoryFs({ '/tmp/VisionCamera-1.mov': 5 * MB });
+  const store = new VideoStore(fs, {}, () => 1700000000000);
+
+  const video = await store.save('/tmp/VisionCamera-1.mov', 'squat');
+
+  expect(video).toEqual({
+    path: '/docs/recordings/1700000000000-squat.mov',
+    movement: 'squat',
+    recordedAt: 1700000000000,
+    size: 5 * MB,
+  });
+  expect(Object.keys(fs.files)).toEqual([video.path]);
+});
+
+test('the oldest recordings go once there are too many', async () => {
+  const fs = memoryFs({
+    '/docs/recordings/1000-squat.mp4': MB,
+    '/docs/recordings/2000-bench.mp4': MB,
+    '/docs/recordings/3000-deadlift.mp4': MB,
+    '/tmp/new.mp4': MB,
+  });
+  const store = new VideoStore(fs, { maxFiles: 3 }, () => 4000);
+
+  await store.save('/tmp/new.mp4', 'squat');
+
+  expect((await store.list()).map(video => video.recordedAt)).toEqual([4000, 3000, 2000]);
+});
+
+test('recordings are pruned by total size and age', async () => {
+  const now = 100 * DAY_MS;
+  const fs = memoryFs({
+    [`/docs/recordings/${now - 40 * DAY_MS}-squat.mp4`]: MB,
+    [`/docs/recordings/${now - 3 * DAY_MS}-squat.mp4`]: 30 * MB,
+    [`/docs/recordings/${now - 2 * DAY_MS}-bench.mp4`]: 30 * MB,
+    [`/docs/recordings/${now - DAY_MS}-squat.mp4`]: 30 * MB,
+    'other.txt': 1,
+  });
+  const store = new VideoStore(fs, { maxTotalBytes: 64 * MB, maxAgeDays: 30 }, () => now);
+
+  const removed = await store.prune();
+
+  expect(removed).toEqual([
+    `/docs/recordings/${now - 3 * DAY_MS}-squat.mp4`,
+    `/docs/recordings/${now - 40 * DAY_MS}-squat.mp4`,
+  ]);
+  expect(fs.files['other.txt']).toBe(1);
+});
+
+test('the recording just saved is kept even when it is over the limit', async () => {
+  const fs = memoryFs({ '/docs/recordings/1000-squat.mp4': MB, '/tmp/big.mp4': 80 * MB });
+  const store = new VideoStore(fs, { maxTotalBytes: 64 * MB }, () => 2000);
+
+  const video = await store.save('/tmp/big.mp4', 'deadlift');
+
+  expect((await store.list()).map(stored => stored.path)).toEqual([video.path]);
+});
+
+test('saving without a file system fails clearly', async () => {
+  const store = new VideoStore(null);
+
+  expect(store.isAvailable()).toBe(false);
+  await expect(store.save('/tmp/a.mp4', 'squat')).rejects.toThrow('Video storage is not available');
+});
@@ -0,0 +1,64 @@
+/**
+ * @format
+ */
+
+import { Keypoints } from '../components/PoseGeometry';
+import ViewClassifier, { classifyView } from '../components/ViewClassifier';
+
+// Shoulders and hips spread by `width` across a torso 0.3 long
+const body = (width: number, visibility: number = 0.9): Keypoints => ({
+  leftShoulder: { x: 0.5 - width / 2, y: 0.3, visibility },
+  rightShoulder: { x: 0.5 + width / 2, y: 0.3, visibility },
+  leftHip: { x: 0.5 - width / 2, y: 0.6, visibility },
+  rightHip: { x: 0.5 + width / 2, y: 0.6, visibility },
+  leftKnee: { x: 0.5 - width / 2, y: 0.8, visibility },
+  rightKnee: { x: 0.5 + width / 2, y: 0.8, visibility },
+});
+
+test('body width against torso length decides the view', () => {
+  expect(classifyView(body(0.15))).toBe('front');
+  expect(classifyView(body(0.03))).toBe('side');
+  expect(classifyView(body(0.09))).toBe('oblique');
+});
+
+test('the view switches either side of each threshold', () => {
+  expect(classifyView(body(0.136))).toBe('front');
+  expect(classifyView(body(0.134))).toBe('oblique');
+  expect(classifyView(body(0.061))).toBe('oblique');
+  expect(classifyView(body(0.059))).toBe('side');
+});
+
+test('the thigh stands in for the torso when the shoulders are missing', () => {
+  const lowerBody = body(0.15);
+  delete lowerBody.leftShoulder;
+  delete lowerBody.rightShoulder;
+
+  // Hips 0.15 apart over a 0.2 thigh
+  expect(classifyView(lowerBody)).toBe('front');
+});
+
+test('low-confidence keypoints don\'t decide the view', () => {
+  expect(classifyView(body(0.15, 0.3))).toBe('unknown');
+  // Confident hips alone are too narrow to be a front view
+  expect(classifyView({ ...body(0.15, 0.3), ...body(0.03) })).toBe('side');
+  expect(classifyView(body(0.15, 0.3), { minVisibility: 0.2 })).toBe('front');
+});
+
+test('a body without shoulders or hips is unknown', () => {
+  expect(classifyView({})).toBe('unknown');
+  expect(classifyView({ leftKnee: { x: 0.4, y: 0.8 }, rightKnee: { x: 0.6, y: 0.8 } })).toBe('unknown');
+});
+
+test('the streaming view ignores a stray frame and unknown frames', () => {
+  const classifier = new ViewClassifier({ windowSize: 5 });
+  expect(classifier.getView()).toBe('unknown');
+
+  [0.03, 0.03, 0.15, 0.03].forEach(width => classifier.update(body(width)));
+  expect(classifier.update({})).toBe('side');
+
+  [0.15, 0.15, 0.15].forEach(width => classifier.update(body(width)));
+  expect(classifier.getView()).toBe('front');
+
+  classifier.reset();
+  expect(classifier.getView()).toBe('unknown');
+});
@@ -0,0 +1,132 @@
+/**
+ * @format
+ */
+
+import { SetLoad } from '../components/StrengthMetrics';
+import WorkoutSession, { WorkoutPlan, WorkoutSetAnalysis } from '../components/WorkoutSession';
+
+const plan: WorkoutPlan = {
+  exercises: [
+    { movement: 'squat', sets: 2, targetReps: 5, load: 100 },
+    { movement: 'bench', sets: 1, targetReps: 8, load: null },
+  ],
+  restSeconds: 90,
+};
+
+const manualClock = (start: number = 0) => {
+  let now = start;
+  const clock = () => now;
+  clock.advance = (ms: number) => {
+    now += ms;
+  };
+  return clock;
+};
+
+const analysis = (
+  score: number,
+  repCount: number,
+  faults: string[] = [],
+  load: SetLoad | null = null,
+): WorkoutSetAnalysis => ({
+  score,
+  repCount,
+  durationSeconds: 30,
+  recurringFaults: faults.map(code => ({ code, message: code, reps: [1, 2] })),
+  load,
+});
+
+const kg = (load: number, reps: number): SetLoad => ({ load, unit: 'kg', reps, rpe: null });
+
+test('sets are recorded in order, resting between them and moving on to the next exercise', () => {
+  const clock = manualClock();
+  const workout = new WorkoutSession(plan, clock);
+
+  expect(workout.getStatus()).toMatchObject({ phase: 'set', exerciseIndex: 0, setNumber: 1, plannedSets: 3 });
+
+  clock.advance(30000);
+  expect(workout.recordSet(analysis(90, 5))).toMatchObject({ movement: 'squat', setNumber: 1, completedAt: 30000 });
+  expect(workout.getStatus()).toMatchObject({ phase: 'rest', exerciseIndex: 0, setNumber: 2, restRemainingSeconds: 90 });
+
+  clock.advance(60500);
+  expect(workout.getStatus().restRemainingSeconds).toBe(30);
+  clock.advance(29500);
+  expect(workout.getStatus().phase).toBe('set');
+
+  workout.recordSet(analysis(80, 5));
+  expect(workout.getStatus()).toMatchObject({ phase: 'rest', exerciseIndex: 1, setNumber: 1, exercise: plan.exercises[1] });
+
+  workout.skipRest();
+  expect(workout.getStatus().phase).toBe('set');
+  workout.recordSet(analysis(70, 8));
+  expect(workout.getStatus()).toMatchObject({ phase: 'finished', completedSets: 3, restRemainingSeconds: 0 });
+  expect(workout.isFinished()).toBe(true);
+  expect(() => workout.recordSet(analysis(70, 8))).toThrow('The workout is already finished');
+});
+
+test('skipping an exercise leaves its remaining sets undone', () => {
+  const workout = new WorkoutSession(plan, manualClock());
+
+  workout.recordSet(analysis(90, 5));
+  workout.skipExercise();
+
+  expect(workout.getStatus()).toMatchObject({ exerciseIndex: 1, setNumber: 1 });
+  workout.skipExercise();
+  expect(workout.getStatus().phase).toBe('finished');
+  expect(workout.getSummary().exercises.map(exercise => exercise.completedSets)).toEqual([1, 0]);
+});
+
+test('the summary rolls up every set of the workout', () => {
+  const clock = manualClock(1000);
+  const workout = new WorkoutSession(plan, clock);
+  workout.recordSet(analysis(90, 5, ['SQUAT_KNEE_VALGUS'], kg(100, 5)));
+  workout.recordSet(analysis(70, 4, ['SQUAT_KNEE_VALGUS', 'SQUAT_DEPTH'], kg(100, 4)));
+  clock.advance(600000);
+  // The last set finishes the workout
+  workout.recordSet(analysis(80, 8));
+  clock.advance(60000);
+
+  const summary = workout.getSummary();
+
+  expect(summary).toMatchObject({
+    startedAt: 1000,
+    endedAt: 601000,
+    durationSeconds: 600,
+    completedSets: 3,
+    plannedSets: 3,
+    totalReps: 17,
+    averageScore: 80,
+    // Bench was bodyweight
+    volume: 900,
+    volumeUnit: 'kg',
+  });
+  expect(summary.exercises[0]).toMatchObject({
+    totalReps: 9,
+    averageScore: 80,
+    bestSet: 1,
+    worstSet: 2,
+    shortSets: [2],
+  });
+  expect(summary.exercises[0].faults).toEqual([
+    { code: 'SQUAT_KNEE_VALGUS', message: 'SQUAT_KNEE_VALGUS', sets: [1, 2] },
+    { code: 'SQUAT_DEPTH', message: 'SQUAT_DEPTH', sets: [2] },
+  ]);
+  expect(summary.exercises[1]).toMatchObject({ bestSet: 1, worstSet: null, shortSets: [] });
+});
+
+test('volume counts the load logged for each set, in one unit', () => {
+  const workout = new WorkoutSession(plan, manualClock());
+  // Heavier than planned, and logged in pounds
+  workout.recordSet(analysis(90, 5, [], { load: 242.5, unit: 'lb', reps: 5, rpe: 8 }));
+  // Logged after the set, with a rep the analysis missed
+  workout.recordSet(analysis(80, 4));
+  workout.updateLoad(0, 2, kg(100, 5));
+
+  expect(workout.getSummary().volume).toBeCloseTo(242.5 / 2.20462 * 5 + 500);
+  expect(workout.getSummary('lb')).toMatchObject({ volume: expect.closeTo(242.5 * 5 + 500 * 2.20462), volumeUnit: 'lb' });
+});
+
+test('plans without exercises or sets are refused', () => {
+  expect(() => new WorkoutSession({ exercises: [], restSeconds: 60 })).toThrow('at least one exercise');
+  expect(() => new WorkoutSession({ exercises: [{ movement: 'squat', sets: 0, targetReps: 5, load: null }], restSeconds: 60 }))
+    .toThrow('Exercise 1 needs at least one set');
+});
@@ -0,0 +1,77 @@
+/**
+ * @format
+ */
+
+import { MOVEMENTS } from '../components/MovementRegistry';
+import { CATALOGS, LOCALES, Message, resolveLocale, setLocale, t } from '../i18n';
+
+const placeholders = (message: Message): string[] => {
+  const texts = typeof message === 'string' ? [message] : [message.one, message.other];
+  const names = texts.flatMap(text => (text || '').match(/\{\w+\}/g) || []);
+  return [...new Set(names)].sort();
+};
+
+const english = CATALOGS.en;
+
+afterEach(() => setLocale('en'));
+
+describe.each(LOCALES.filter(locale => locale.id !== 'en'))('$name catalog', ({ id }) => {
+  const catalog = CATALOGS[id];
+
+  test('has every English key', () => {
+    expect(Object.keys(english).filter(key => !(key in catalog))).toEqual([]);
+  });
+
+  test('has no keys English lacks', () => {
+    expect(Object.keys(catalog).filter(key => !(key in english))).toEqual([]);
+  });
+
+  test('uses the same placeholders as English', () => {
+    Object.keys(english)
+      .filter(key => key in catalog)
+      .forEach(key => {
+        expect([key, placeholders(catalog[key])]).toEqual([key, placeholders(english[key])]);
+      });
+  });
+});
+
+test('English movement copy and cues come from the registry', () => {
+  MOVEMENTS.forEach(movement => {
+    expect(t(`movement.${movement.id}.name`)).toBe(movement.name);
+    expect(t(`movement.${movement.id}.cameraGuidance`)).toBe(movement.cameraGuidance);
+    expect(t(`movement.${movement.id}.incompletePose`)).toBe(movement.incompletePoseMessage);
+    movement.rules.forEach(rule => {
+      expect(t(`rule.${rule.id}`)).toBe(rule.label);
+      rule.thresholds.forEach(threshold => expect(t(`feedback.${threshold.code}`)).toBe(threshold.message));
+      expect(t(`feedback.${rule.code}_OK`)).toBe(rule.passMessage || `feedback.${rule.code}_OK`);
+    });
+  });
+});
+
+test('interpolates values', () => {
+  expect(t('app.viewLastResults', { score: 85 })).toBe('View Last Results (85/100)');
+});
+
+test('pluralizes by count', () => {
+  expect(t('results.reps', { count: 1 })).toBe('1 Rep');
+  expect(t('results.reps', { count: 5 })).toBe('5 Reps');
+
+  setLocale('es');
+  expect(t('results.reps', { count: 1 })).toBe('1 repetición');
+  expect(t('results.reps', { count: 0 })).toBe('0 repeticiones');
+
+  setLocale('zh');
+  expect(t('results.reps', { count: 1 })).toBe('1 次');
+});
+
+test('falls back to the key for unknown messages', () => {
+  expect(t('app.doesNotExist')).toBe('app.doesNotExist');
+});
+
+test('maps device locale tags to supported locales', () => {
+  expect(resolveLocale('es-MX')).toBe('es');
+  expect(resolveLocale('zh-Hans-CN')).toBe('zh');
+  expect(resolveLocale('zh_TW')).toBe('zh');
+  expect(resolveLocale('fr-FR')).toBe('en');
+  expect(resolveLocale(null)).toBe('en');
+});
@@ -1,6 +1,7 @@
 module.exports = {
   presets: ['module:@react-native/babel-preset'],
   plugins: [
+    ['react-native-worklets-core/plugin'],
     'react-native-reanimated/plugin', // Must be last
   ],
 };
\ No newline at end of file
@@ -0,0 +1,191 @@
+// components/BarPath.ts
+import { BodyCalibration, Segment, measureSegments } from './Calibration';
+import { PoseData } from './FormAnalyzer';
+import { Keypoints, midpoint } from './PoseGeometry';
+import { RepPhase } from './RepTracker';
+
+export interface BarPathDefinition {
+  // Segment the path is measured in, so results don't depend on camera distance
+  normalizeBy: Segment;
+  // Bench: classify the press as a J-curve, vertical or drifting to the feet
+  measureJCurve?: boolean;
+  // Deadlift: how far the bar drifts away from the legs
+  measureBarToBody?: boolean;
+}
+
+export interface BarPathPoint {
+  // Normalized image coordinates, ready to plot over a frame
+  x: number;
+  y: number;
+  timestamp: number;
+  phase: RepPhase;
+}
+
+export type BarPathShape = 'j-curve' | 'vertical' | 'reverse' | 'unknown';
+
+export interface BarPathAnalysis {
+  points: BarPathPoint[];
+  // Metrics below are in lengths of the definition's normalizeBy segment
+  // End x minus start x; sign follows image x
+  horizontalDrift: number;
+  // Largest and RMS horizontal distance from a vertical line through the start
+  maxDeviation: number;
+  rmsDeviation: number;
+  shape?: BarPathShape;
+  barToBody?: { mean: number; max: number };
+}
+
+// Headward travel on the press, in segment lengths, that makes a J-curve
+const J_CURVE_OFFSET = 0.15;
+
+// Bar position approximated by the midpoint of the hands
+const barPosition = (kp: Keypoints) => midpoint(kp.leftWrist, kp.rightWrist);
+
+// Horizontal gap between the bar and the leg line at the bar's height
+const barToLegs = (kp: Keypoints): number | null => {
+  const bar = barPosition(kp);
+  const hip = midpoint(kp.leftHip, kp.rightHip);
+  const knee = midpoint(kp.leftKnee, kp.rightKnee);
+  const ankle = midpoint(kp.leftAnkle, kp.rightAnkle);
+  if (!bar || !hip || !knee) {
+    return null;
+  }
+
+  const [top, bottom] = ankle && bar.y > knee.y ? [knee, ankle] : [hip, knee];
+  const span = bottom.y - top.y;
+  const t = span !== 0 ? Math.max(0, Math.min(1, (bar.y - top.y) / span)) : 0;
+  const legX = top.x + (bottom.x - top.x) * t;
+  return Math.abs(bar.x - legX);
+};
+
+// +1 when the head is towards larger image x, -1 when towards smaller, 0 unknown
+const headDirection = (kp: Keypoints): number => {
+  const shoulder = midpoint(kp.leftShoulder, kp.rightShoulder);
+  const reference = kp.nose || midpoint(kp.leftHip, kp.rightHip);
+  if (!shoulder || !reference) {
+    return 0;
+  }
+  const sign = Math.sign(reference.x - shoulder.x);
+  return kp.nose ? sign : -sign;
+};
+
+/**
+ * Follows the bar (hand midpoint) through each rep and summarizes its path
+ * when the rep ends.
+ */
+class BarPathTracker {
+  private definition: BarPathDefinition;
+  private calibration: BodyCalibration | null;
+  private points: BarPathPoint[] = [];
+  private barToBody: { timestamp: number; gap: number }[] = [];
+  private scale = 0;
+  private head = 0;
+
+  constructor(definition: BarPathDefinition, calibration: BodyCalibration | null = null) {
+    this.definition = definition;
+    this.calibration = calibration;
+  }
+
+  setCalibration(calibration: BodyCalibration | null): void {
+    this.calibration = calibration;
+    if (calibration) {
+      this.scale = calibration.segments[this.definition.normalizeBy];
+    }
+  }
+
+  addFrame(poseData: PoseData, phase: RepPhase): void {
+    const { keypoints } = poseData;
+    const bar = barPosition(keypoints);
+    if (!bar) {
+      return;
+    }
+
+    if (!this.scale) {
+      this.scale = this.calibration
+        ? this.calibration.segments[this.definition.normalizeBy]
+        : measureSegments(keypoints)[this.definition.normalizeBy];
+    }
+    if (!this.head) {
+      this.head = headDirection(keypoints);
+    }
+
+    this.points.push({ x: bar.x, y: bar.y, timestamp: poseData.timestamp, phase });
+
+    if (this.definition.measureBarToBody) {
+      const gap = barToLegs(keypoints);
+      if (gap !== null) {
+        this.barToBody.push({ timestamp: poseData.timestamp, gap });
+      }
+    }
+  }
+
+  /**
+   * Summarizes the points collected between startTime and endTime and clears
+   * everything up to endTime, ready for the next rep.
+   */
+  finishRep(startTime: number, endTime: number): BarPathAnalysis | null {
+    const points = this.points.filter(p => p.timestamp >= startTime && p.timestamp <= endTime);
+    this.points = this.points.filter(p => p.timestamp >= endTime);
+    const barToBody = this.barToBody
+      .filter(entry => entry.timestamp >= startTime && entry.timestamp <= endTime)
+      .map(entry => entry.gap);
+    this.barToBody = this.barToBody.filter(entry => entry.timestamp >= endTime);
+
+    const scale = this.scale;
+    if (points.length < 2 || !scale) {
+      return null;
+    }
+
+    const startX = points[0].x;
+    const deviations = points.map(p => Math.abs(p.x - startX) / scale);
+    const analysis: BarPathAnalysis = {
+      points,
+      horizontalDrift: (points[points.length - 1].x - startX) / scale,
+      maxDeviation: Math.max(...deviations),
+      rmsDeviation: Math.sqrt(deviations.reduce((sum, d) => sum + d * d, 0) / deviations.length),
+    };
+
+    if (this.definition.measureJCurve) {
+      analysis.shape = this.classifyShape(points, scale);
+    }
+
+    if (this.definition.measureBarToBody && barToBody.length > 0) {
+      const gaps = barToBody.map(gap => gap / scale);
+      analysis.barToBody = {
+        mean: gaps.reduce((sum, gap) => sum + gap, 0) / gaps.length,
+        max: Math.max(...gaps),
+      };
+    }
+
+    return analysis;
+  }
+
+  reset(): void {
+    this.points = [];
+    this.barToBody = [];
+    this.scale = 0;
+    this.head = 0;
+  }
+
+  // On a good bench press the bar travels back towards the face on the way up
+  private classifyShape(points: BarPathPoint[], scale: number): BarPathShape {
+    const pressing = points.filter(p => p.phase === 'concentric');
+    if (pressing.length < 2 || !this.head) {
+      return 'unknown';
+    }
+    // Lowest bar position (largest y) is the chest touch
+    const chest = points.reduce((low, p) => (p.y > low.y ? p : low));
+    const lockout = pressing[pressing.length - 1];
+    const headward = (lockout.x - chest.x) * this.head / scale;
+
+    if (headward > J_CURVE_OFFSET) {
+      return 'j-curve';
+    }
+    if (headward < -J_CURVE_OFFSET) {
+      return 'reverse';
+    }
+    return 'vertical';
+  }
+}
+
+export default BarPathTracker;
@@ -0,0 +1,180 @@
+// components/Calibration.ts
+import { PoseData } from './FormAnalyzer';
+import { Keypoints, distance, midpoint } from './PoseGeometry';
+
+export interface BodySegments {
+  torso: number;
+  femur: number;
+  shin: number;
+  upperArm: number;
+}
+
+export type Segment = keyof BodySegments;
+
+export interface BodyCalibration {
+  // Segment lengths in normalized image units, measured standing
+  segments: BodySegments;
+  // Estimated standing height in image units; used to convert to real units
+  // once the athlete's height is known. Missing if the head wasn't visible.
+  stature?: number;
+  sampleCount: number;
+  capturedAt: number;
+}
+
+export type CalibrationStatus = 'waiting' | 'collecting' | 'complete';
+
+export interface CalibrationOptions {
+  // How long the athlete must hold still
+  durationMs: number;
+  minSamples: number;
+  // Hip speed (image units/s) above which the athlete counts as moving
+  maxMotion: number;
+}
+
+const DEFAULT_OPTIONS: CalibrationOptions = {
+  durationMs: 2000,
+  minSamples: 15,
+  maxMotion: 0.05,
+};
+
+const SEGMENTS: Segment[] = ['torso', 'femur', 'shin', 'upperArm'];
+
+// Ankle-to-nose length along the body as a fraction of standing height
+const NOSE_TO_ANKLE_RATIO = 0.88;
+
+const averageOf = (values: (number | null)[]): number => {
+  const known = values.filter((value): value is number => value !== null);
+  return known.length > 0 ? known.reduce((sum, value) => sum + value, 0) / known.length : 0;
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Measures segment lengths from a single frame. Left and right are averaged;
+ * a segment with neither side visible comes back as 0.
+ */
+export const measureSegments = (kp: Keypoints): BodySegments => ({
+  torso: distance(midpoint(kp.leftShoulder, kp.rightShoulder), midpoint(kp.leftHip, kp.rightHip)) ?? 0,
+  femur: averageOf([distance(kp.leftHip, kp.leftKnee), distance(kp.rightHip, kp.rightKnee)]),
+  shin: averageOf([distance(kp.leftKnee, kp.leftAnkle), distance(kp.rightKnee, kp.rightAnkle)]),
+  upperArm: averageOf([distance(kp.leftShoulder, kp.leftElbow), distance(kp.rightShoulder, kp.rightElbow)]),
+});
+
+/**
+ * Standing height estimated from one frame, or 0 if the head or a leg or
+ * torso segment is missing. It adds up shin, femur, torso and head rather
+ * than measuring head to feet, so it comes out the same whether the set
+ * starts standing, lying on the bench or bent over the bar.
+ */
+export const measureStature = (kp: Keypoints): number => {
+  const { torso, femur, shin } = measureSegments(kp);
+  const head = distance(midpoint(kp.leftShoulder, kp.rightShoulder), kp.nose);
+  if (!torso || !femur || !shin || !head) {
+    return 0;
+  }
+  return (shin + femur + torso + head) / NOSE_TO_ANKLE_RATIO;
+};
+
+// Real length of one image unit, given the athlete's height; null without both heights
+export const getMetersPerUnit = (calibration: BodyCalibration | null, athleteHeightCm: number | null): number | null => {
+  const stature = calibration?.stature;
+  if (!athleteHeightCm || !stature) {
+    return null;
+  }
+  return athleteHeightCm / 100 / stature;
+};
+
+/**
+ * Collects the standing calibration at the start of a recording. Frames are
+ * only sampled while the athlete holds still; any movement restarts the
+ * window. Each segment is the median over the window so a single bad frame
+ * can't skew it.
+ */
+class CalibrationCollector {
+  private options: CalibrationOptions;
+  private samples: BodySegments[] = [];
+  private statureSamples: number[] = [];
+  private windowStart: number | null = null;
+  private lastHip: { x: number; y: number; timestamp: number } | null = null;
+  private calibration: BodyCalibration | null = null;
+
+  constructor(options: Partial<CalibrationOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  addFrame(poseData: PoseData): CalibrationStatus {
+    if (this.calibration) {
+      return 'complete';
+    }
+
+    const { keypoints, timestamp } = poseData;
+    const hip = midpoint(keypoints.leftHip, keypoints.rightHip);
+    if (!hip || poseData.reliable === false) {
+      return this.getStatus();
+    }
+
+    const previous = this.lastHip;
+    this.lastHip = { x: hip.x, y: hip.y, timestamp };
+    if (previous && timestamp > previous.timestamp) {
+      const speed = Math.sqrt(Math.pow(hip.x - previous.x, 2) + Math.pow(hip.y - previous.y, 2))
+        / ((timestamp - previous.timestamp) / 1000);
+      if (speed > this.options.maxMotion) {
+        this.samples = [];
+        this.statureSamples = [];
+        this.windowStart = null;
+        return this.getStatus();
+      }
+    }
+
+    if (this.windowStart === null) {
+      this.windowStart = timestamp;
+    }
+    this.samples.push(measureSegments(keypoints));
+    const stature = measureStature(keypoints);
+    if (stature > 0) {
+      this.statureSamples.push(stature);
+    }
+
+    if (
+      this.samples.length >= this.options.minSamples &&
+      timestamp - this.windowStart >= this.options.durationMs
+    ) {
+      const segments = {} as BodySegments;
+      SEGMENTS.forEach(segment => {
+        const measured = this.samples.map(sample => sample[segment]).filter(length => length > 0);
+        segments[segment] = measured.length > 0 ? median(measured) : 0;
+      });
+      this.calibration = { segments, sampleCount: this.samples.length, capturedAt: timestamp };
+      if (this.statureSamples.length > 0) {
+        this.calibration.stature = median(this.statureSamples);
+      }
+    }
+
+    return this.getStatus();
+  }
+
+  getStatus(): CalibrationStatus {
+    if (this.calibration) {
+      return 'complete';
+    }
+    return this.samples.length > 0 ? 'collecting' : 'waiting';
+  }
+
+  getCalibration(): BodyCalibration | null {
+    return this.calibration;
+  }
+
+  reset(): void {
+    this.samples = [];
+    this.statureSamples = [];
+    this.windowStart = null;
+    this.lastHip = null;
+    this.calibration = null;
+  }
+}
+
+export default CalibrationCollector;
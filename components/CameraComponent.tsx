@@ -10,13 +10,28 @@ import {
   Platform,
   StatusBar,
 } from 'react-native';
+import { Locale, getLocale, t } from '../i18n';
+import CueDispatcher, { CueEvent, CueSink } from './CueDispatcher';
+import { OnScreenCueSink, SpokenCueSink, ToneCueSink } from './CueSinks';
+import FeedbackDisplay from './FeedbackDisplay';
+import { FeedbackItem, PoseData } from './FormAnalyzer';
+import FramePipeline, { FramePipelineStats, INITIAL_SET_FRAME_GATE, SetFrameGate, gateSetFrame } from './FramePipeline';
+import { Landmark } from './KeypointSchema';
+import { getMovement } from './MovementRegistry';
+import PoseDetector, { FrameOrientation, getUprightFrameSize } from './PoseDetector';
+import { MockPoseEstimator, VisionCameraPoseEstimator } from './PoseEstimator';
+import { PoseTrace, PoseTraceReplay, PoseTraceWriter } from './PoseTrace';
+import SetAnalyzer from './SetAnalyzer';
+import { isSyntheticMovement } from './SyntheticPose';
+import { StoredVideo, VideoStore } from './VideoStore';
 
 // Try to import camera modules with fallbacks
 let Camera: any = null;
 let useCameraDevices: any = null;
 let useFrameProcessor: any = null;
 let useSharedValue: any = null;
-let runOnJS: any = null;
+let useRunInJS: any = null;
+let Tts: any = null;
 
 try {
   const visionCamera = require('react-native-vision-camera');
@@ -27,22 +42,63 @@ try {
   console.log('Vision Camera not available:', error);
 }
 
+// Vision Camera's frame processors run on react-native-worklets-core, so
+// shared values and calls back to JS have to come from it too
 try {
-  const reanimated = require('react-native-reanimated');
-  useSharedValue = reanimated.useSharedValue;
-  runOnJS = reanimated.runOnJS;
+  const worklets = require('react-native-worklets-core');
+  useSharedValue = worklets.useSharedValue;
+  useRunInJS = worklets.useRunInJS;
 } catch (error) {
-  console.log('Reanimated not available:', error);
+  console.log('Worklets not available:', error);
+}
+
+try {
+  Tts = require('react-native-tts').default;
+} catch (error) {
+  console.log('Text-to-speech not available:', error);
+}
+
+// Voice to read cues in, per app language
+const SPEECH_LANGUAGES: { [locale in Locale]: string } = {
+  en: 'en-US',
+  es: 'es-ES',
+  zh: 'zh-CN',
+};
+
+// Runs the native pose model on camera frames, when the build includes one
+const cameraPoseEstimator = new VisionCameraPoseEstimator();
+const videoStore = new VideoStore();
+
+// What the camera reports for a finished recording
+interface RecordedVideo {
+  path: string;
+  duration: number;
 }
 
 interface CameraComponentProps {
   selectedMovement: string;
-  onVideoRecorded?: (video: any) => void;
+  athleteHeightCm?: number | null;
+  // Plays a recorded set through the analyzer instead of the live camera
+  replayTrace?: PoseTrace | null;
+  // Camera frames analyzed per second; the rest are dropped
+  analysisFps?: number;
+  onVideoRecorded?: (video: StoredVideo) => void;
   onAnalysisComplete?: (results: any) => void;
 }
 
+// Latest frame and set progress, shown by the skeleton and live cue layers
+interface LiveState {
+  pose: PoseData;
+  items: FeedbackItem[];
+  repCount: number;
+  setScore: number | null;
+}
+
 const CameraComponent: React.FC<CameraComponentProps> = ({
   selectedMovement,
+  athleteHeightCm,
+  replayTrace,
+  analysisFps = 15,
   onVideoRecorded,
   onAnalysisComplete,
 }) => {
@@ -51,14 +107,109 @@ const CameraComponent: React.FC<CameraComponentProps> = ({
   const [isRecording, setIsRecording] = useState(false);
   const [recordingTime, setRecordingTime] = useState(0);
   const [hasPermission, setHasPermission] = useState(false);
+  const [live, setLive] = useState<LiveState | null>(null);
+  const [cue, setCue] = useState<CueEvent | null>(null);
+  const [pipelineStats, setPipelineStats] = useState<FramePipelineStats | null>(null);
+
+  const camera = useRef<any>(null);
+  // Settles with the camera's file once a recording ends, or null if it failed
+  const videoRecording = useRef<Promise<RecordedVideo | null> | null>(null);
 
   // Timer ref for recording duration
   const recordingTimer = useRef<NodeJS.Timeout | null>(null);
+  // Clock time the set started; replays and the auto-stop end the set from
+  // an earlier render, where recordingTime is stale
+  const recordingStartedAt = useRef<number | null>(null);
+  // Collects per-frame feedback for the set being recorded
+  const setAnalyzer = useRef<SetAnalyzer | null>(null);
+  // Records the raw pose frames so the set can be replayed later
+  const traceWriter = useRef<PoseTraceWriter | null>(null);
+  const replay = useRef<PoseTraceReplay | null>(null);
+  // Stands in for the camera's pose model when recording without one
+  const mockEstimator = useRef<MockPoseEstimator | null>(null);
+  // Turns the analysis into on-screen, spoken and haptic cues
+  const cueDispatcher = useRef<CueDispatcher | null>(null);
+  // Decides which frames get analyzed and measures how analysis keeps up
+  const framePipeline = useRef(new FramePipeline({ targetFps: analysisFps }));
+
+  // Frame processor state, each value written from one thread only. The JS
+  // thread numbers the sets and counts every frame it finishes; the worklet
+  // keeps the gate and restarts it when a new set begins.
+  const setGeneration = useSharedValue?.(0);
+  const framesCompleted = useSharedValue?.(0);
+  const frameGate = useSharedValue?.(INITIAL_SET_FRAME_GATE);
 
   useEffect(() => {
     checkLibraries();
   }, []);
 
+  // Pose model results for a frame the frame processor admitted. Frames
+  // from an earlier set are dropped without counting, as that set's gate
+  // is gone.
+  const handleCameraPose = (
+    landmarks: Landmark[] | null,
+    frameSize: { width: number; height: number },
+    orientation: FrameOrientation,
+    { generation, gate }: SetFrameGate,
+  ) => {
+    if (generation !== setGeneration.value) {
+      return;
+    }
+    try {
+      cameraPoseEstimator.handleResult(landmarks, getUprightFrameSize(frameSize, orientation), gate.lastAcceptedAt!);
+    } catch (error) {
+      console.log('Pose frame skipped:', error);
+    } finally {
+      framePipeline.current.syncGate(gate);
+      framePipeline.current.complete(gate.lastAcceptedAt!);
+      framesCompleted.value += 1;
+    }
+  };
+
+  const reportCameraPose = useRunInJS?.(handleCameraPose, []);
+  const posePlugin = librariesAvailable ? cameraPoseEstimator.getPlugin() : null;
+  const gateOptions = framePipeline.current.getGateOptions();
+  const frameProcessor = useFrameProcessor?.((frame: any) => {
+    'worklet';
+    if (!posePlugin) {
+      return;
+    }
+    const { decision, state } = gateSetFrame(
+      frameGate.value,
+      setGeneration.value,
+      framesCompleted.value,
+      Date.now(),
+      gateOptions,
+    );
+    frameGate.value = state;
+    if (decision !== 'accept') {
+      return;
+    }
+    let landmarks: unknown = null;
+    try {
+      landmarks = posePlugin.call(frame) || null;
+    } finally {
+      // Report even a frame the model failed on; one left in flight would
+      // have every later frame dropped as busy
+      reportCameraPose(landmarks, { width: frame.width, height: frame.height }, frame.orientation, state);
+    }
+  }, [posePlugin, analysisFps, reportCameraPose]);
+
+  const createCueDispatcher = () => {
+    const sinks: CueSink[] = [new OnScreenCueSink(setCue), new ToneCueSink()];
+    if (Tts) {
+      // Android's engine starts asynchronously and refuses settings until it has
+      Tts.getInitStatus()
+        .then(() => Tts.setDefaultLanguage(SPEECH_LANGUAGES[getLocale()]))
+        .catch((error: any) => console.log('Speech engine not ready:', error));
+      sinks.push(new SpokenCueSink({
+        speak: text => Tts.speak(text)?.catch?.((error: any) => console.log('Cue not spoken:', error)),
+        stop: () => Tts.stop(),
+      }));
+    }
+    return new CueDispatcher(sinks);
+  };
+
   const checkLibraries = () => {
     if (Camera && useCameraDevices) {
       setLibrariesAvailable(true);
@@ -81,19 +232,118 @@ const CameraComponent: React.FC<CameraComponentProps> = ({
       }
     } catch (error) {
       console.error('Permission error:', error);
-      Alert.alert('Camera Error', 'Unable to access camera permissions');
+      Alert.alert(t('camera.errorTitle'), t('camera.permissionError'));
+    }
+  };
+
+  // Every pose frame of the set, live or replayed, comes through here
+  const handlePoseFrame = (poseData: PoseData) => {
+    const analyzer = setAnalyzer.current;
+    traceWriter.current?.addFrame(poseData);
+    if (!analyzer) {
+      return;
+    }
+    const feedback = analyzer.addFrame(poseData);
+    cueDispatcher.current?.addFrame(feedback, poseData.timestamp);
+    setLive({
+      pose: poseData,
+      items: feedback.items,
+      repCount: analyzer.getRepCount(),
+      setScore: analyzer.getRunningScore(),
+    });
+  };
+
+  const renderLiveFeedback = () => live && (
+    <FeedbackDisplay
+      cue={cue}
+      repCount={live.repCount}
+      setScore={live.setScore}
+    />
+  );
+
+  // Generated frames stand in for the camera, so they're admitted like its frames
+  const handleMockPose = (poseData: PoseData) => {
+    if (framePipeline.current.offer() !== 'accept') {
+      return;
+    }
+    handlePoseFrame(poseData);
+    framePipeline.current.complete();
+  };
+
+  const startVideoRecording = () => {
+    videoRecording.current = new Promise(resolve => {
+      camera.current.startRecording({
+        onRecordingFinished: (video: RecordedVideo) => resolve(video),
+        onRecordingError: (error: any) => {
+          console.error('Recording error:', error);
+          Alert.alert(t('camera.errorTitle'), t('camera.recordingError'));
+          resolve(null);
+        },
+      });
+    });
+  };
+
+  // Stores the recording once the camera has written it; null if there's none
+  const saveVideoRecording = async (recording: Promise<RecordedVideo | null>): Promise<string | null> => {
+    const video = await recording;
+    if (!video) {
+      return null;
+    }
+    try {
+      const stored = await videoStore.save(video.path, selectedMovement);
+      onVideoRecorded?.(stored);
+      return stored.path;
+    } catch (error) {
+      console.error('Video save error:', error);
+      Alert.alert(t('camera.errorTitle'), t('camera.videoSaveError'));
+      return null;
     }
   };
 
-  // Start mock recording (when camera not available)
-  const startMockRecording = () => {
+  const startRecording = () => {
     setIsRecording(true);
     setRecordingTime(0);
+    recordingStartedAt.current = Date.now();
+    setLive(null);
+    setPipelineStats(null);
+    cueDispatcher.current = createCueDispatcher();
+    framePipeline.current = new FramePipeline({ targetFps: analysisFps });
+
+    // A replay is analyzed with the options it was recorded with. A live set
+    // calibrates afresh: the camera or the lift may have changed since the last
+    const analysisOptions = replayTrace
+      ? { calibration: replayTrace.header.calibration, athleteHeightCm: replayTrace.header.athleteHeightCm }
+      : { calibration: null, athleteHeightCm };
+    setAnalyzer.current = new SetAnalyzer(selectedMovement, analysisOptions);
+    traceWriter.current = new PoseTraceWriter(
+      selectedMovement,
+      { platform: Platform.OS, osVersion: String(Platform.Version) },
+      analysisOptions,
+    );
+
+    if (replayTrace) {
+      replay.current = new PoseTraceReplay(replayTrace);
+      replay.current.start(handlePoseFrame, () => stopRecording());
+    } else if (posePlugin && setGeneration) {
+      setGeneration.value += 1;
+      cameraPoseEstimator.start(handlePoseFrame);
+    } else if (!librariesAvailable && isSyntheticMovement(selectedMovement)) {
+      mockEstimator.current = new MockPoseEstimator(selectedMovement);
+      mockEstimator.current.start(handleMockPose, () => stopRecording());
+    }
+    if (librariesAvailable && camera.current && !replayTrace) {
+      startVideoRecording();
+    }
 
     recordingTimer.current = setInterval(() => {
+      if (!replay.current) {
+        setPipelineStats(framePipeline.current.getStats());
+      }
       setRecordingTime(prev => {
-        if (prev >= 5) { // Auto-stop after 5 seconds for demo
-          stopMockRecording();
+        // Auto-stop after 5 seconds for demo, unless a set is being played or analyzed
+        if (prev >= 5 && !replayTrace && !mockEstimator.current && !cameraPoseEstimator.isRunning()
+          && !videoRecording.current) {
+          stopRecording();
           return prev;
         }
         return prev + 1;
@@ -101,8 +351,7 @@ const CameraComponent: React.FC<CameraComponentProps> = ({
     }, 1000);
   };
 
-  // Stop mock recording
-  const stopMockRecording = () => {
+  const stopRecording = () => {
     setIsRecording(false);
     
     if (recordingTimer.current) {
@@ -110,27 +359,62 @@ const CameraComponent: React.FC<CameraComponentProps> = ({
       recordingTimer.current = null;
     }
 
-    // Simulate video processing
-    setTimeout(() => {
+    replay.current?.stop();
+    replay.current = null;
+    mockEstimator.current?.stop();
+    mockEstimator.current = null;
+    cameraPoseEstimator.stop();
+    const recording = videoRecording.current;
+    videoRecording.current = null;
+    if (recording) {
+      camera.current?.stopRecording().catch((error: any) => console.error('Stop recording error:', error));
+    }
+
+    const duration = recordingStartedAt.current !== null
+      ? Math.round((Date.now() - recordingStartedAt.current) / 1000)
+      : 0;
+    recordingStartedAt.current = null;
+    const set = (setAnalyzer.current || new SetAnalyzer(selectedMovement)).getSummary();
+    const poseTrace = traceWriter.current?.getTrace();
+    cueDispatcher.current?.finishSet(set, Date.now());
+    setAnalyzer.current = null;
+    traceWriter.current = null;
+    cueDispatcher.current = null;
+
+    const reportAnalysis = (videoPath: string | null) => {
       onAnalysisComplete?.({
         movement: selectedMovement,
-        duration: recordingTime,
-        videoPath: 'mock://video/path',
-        score: Math.floor(Math.random() * 30) + 70,
-        feedback: [
-          'Good form detected',
-          'Consistent movement pattern',
-          'Try to maintain tempo'
-        ]
+        duration,
+        videoPath,
+        score: set.score,
+        breakdown: set.breakdown,
+        feedback: set.feedback,
+        repCount: set.repCount,
+        reps: set.reps,
+        bestRep: set.bestRep,
+        worstRep: set.worstRep,
+        recurringFaults: set.recurringFaults,
+        view: set.view,
+        angleMode: set.angleMode,
+        skippedChecks: set.skippedChecks,
+        calibration: set.calibration,
+        velocity: set.velocity,
+        poseTrace,
       });
-    }, 1000);
+    };
+    // The analysis waits for the video so it can point at the stored file
+    if (recording) {
+      saveVideoRecording(recording).then(reportAnalysis);
+    } else {
+      reportAnalysis(null);
+    }
   };
 
   const handleRecordPress = () => {
     if (isRecording) {
-      stopMockRecording();
+      stopRecording();
     } else {
-      startMockRecording();
+      startRecording();
     }
   };
 
@@ -140,17 +424,22 @@ const CameraComponent: React.FC<CameraComponentProps> = ({
     return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   };
 
+  const renderPipelineStats = () => pipelineStats && pipelineStats.latencyMs !== null && (
+    <Text style={styles.pipelineStatsText}>
+      {t('camera.analysisStats', {
+        fps: Math.round(pipelineStats.fps),
+        latency: Math.round(pipelineStats.latencyMs),
+      })}
+    </Text>
+  );
+
   const getCameraGuidance = () => {
-    switch (selectedMovement) {
-      case 'squat':
-        return 'Position camera to show full body from the side. Ensure you can see from head to feet.';
-      case 'bench':
-        return 'Position camera to show upper body and bar path. Side angle preferred.';
-      case 'deadlift':
-        return 'Position camera to show full body from the side. Capture entire lift movement.';
-      default:
-        return 'Position camera to capture your full movement range.';
+    if (isRecording && setAnalyzer.current?.getCalibrationStatus() !== 'complete') {
+      return t('camera.calibrating');
     }
+    return getMovement(selectedMovement)
+      ? t(`movement.${selectedMovement}.cameraGuidance`)
+      : t('camera.defaultGuidance');
   };
 
   // If libraries aren't available, show setup instructions
@@ -158,19 +447,19 @@ const CameraComponent: React.FC<CameraComponentProps> = ({
     return (
       <View style={styles.setupContainer}>
         <Text style={styles.setupIcon}>📷</Text>
-        <Text style={styles.setupTitle}>Camera Setup Required</Text>
+        <Text style={styles.setupTitle}>{t('camera.setupTitle')}</Text>
         <Text style={styles.setupMessage}>
-          To enable camera functionality, please install the required dependencies:
+          {t('camera.setupMessage')}
         </Text>
         
         <View style={styles.codeContainer}>
           <Text style={styles.codeText}>npm install react-native-vision-camera</Text>
-          <Text style={styles.codeText}>npm install react-native-reanimated</Text>
+          <Text style={styles.codeText}>npm install react-native-worklets-core</Text>
           <Text style={styles.codeText}>cd ios && bundle exec pod install</Text>
         </View>
 
         <Text style={styles.setupNote}>
-          For now, you can test with the mock camera below:
+          {t('camera.setupNote')}
         </Text>
 
         <TouchableOpacity 
@@ -178,17 +467,20 @@ const CameraComponent: React.FC<CameraComponentProps> = ({
           onPress={handleRecordPress}
         >
           <Text style={styles.mockButtonText}>
-            {isRecording ? 'Stop Mock Recording' : 'Start Mock Recording'}
+            {t(isRecording ? 'camera.stopMock' : 'camera.startMock')}
           </Text>
         </TouchableOpacity>
 
         {isRecording && (
           <View style={styles.mockRecording}>
             <Text style={styles.mockRecordingText}>
-              📹 Mock Recording: {formatTime(recordingTime)}
+              {t('camera.mockRecording', { time: formatTime(recordingTime) })}
             </Text>
+            {renderPipelineStats()}
           </View>
         )}
+
+        {isRecording && renderLiveFeedback()}
       </View>
     );
   }
@@ -198,12 +490,12 @@ const CameraComponent: React.FC<CameraComponentProps> = ({
     return (
       <View style={styles.permissionContainer}>
         <Text style={styles.permissionText}>📷</Text>
-        <Text style={styles.permissionTitle}>Camera Access Required</Text>
+        <Text style={styles.permissionTitle}>{t('camera.permissionTitle')}</Text>
         <Text style={styles.permissionMessage}>
-          To analyze your weightlifting form, we need access to your camera.
+          {t('camera.permissionMessage')}
         </Text>
         <TouchableOpacity style={styles.permissionButton} onPress={checkCameraPermission}>
-          <Text style={styles.permissionButtonText}>Grant Camera Access</Text>
+          <Text style={styles.permissionButtonText}>{t('camera.grantAccess')}</Text>
         </TouchableOpacity>
       </View>
     );
@@ -217,9 +509,9 @@ const CameraComponent: React.FC<CameraComponentProps> = ({
     return (
       <View style={styles.errorContainer}>
         <Text style={styles.errorText}>📷</Text>
-        <Text style={styles.errorTitle}>Camera Not Available</Text>
+        <Text style={styles.errorTitle}>{t('camera.unavailableTitle')}</Text>
         <Text style={styles.errorMessage}>
-          Unable to access camera device. Please check your device settings.
+          {t('camera.unavailableMessage')}
         </Text>
       </View>
     );
@@ -231,33 +523,50 @@ const CameraComponent: React.FC<CameraComponentProps> = ({
       
       {/* Camera Preview */}
       <Camera
+        ref={camera}
         style={StyleSheet.absoluteFill}
         device={device}
         isActive={true}
         video={true}
         audio={false}
         preset="medium"
+        frameProcessor={isRecording ? frameProcessor : undefined}
       />
 
+      {/* Detected skeleton */}
+      {isRecording && live && (
+        <PoseDetector
+          pose={live.pose}
+          faults={live.items}
+          mirrored={device.position === 'front'}
+        />
+      )}
+
       {/* Camera Overlay */}
       <View style={styles.overlay}>
         {/* Top Info Bar */}
         <View style={styles.topBar}>
           <View style={styles.movementIndicator}>
-            <Text style={styles.movementText}>{selectedMovement.toUpperCase()}</Text>
+            <Text style={styles.movementText}>{t(`movement.${selectedMovement}.name`).toUpperCase()}</Text>
           </View>
           
           {isRecording && (
-            <View style={styles.recordingIndicator}>
-              <View style={styles.recordingDot} />
-              <Text style={styles.recordingTime}>{formatTime(recordingTime)}</Text>
+            <View>
+              <View style={styles.recordingIndicator}>
+                <View style={styles.recordingDot} />
+                <Text style={styles.recordingTime}>{formatTime(recordingTime)}</Text>
+              </View>
+              {renderPipelineStats()}
             </View>
           )}
         </View>
 
-        {/* Camera Guidance */}
-        <View style={styles.guidanceContainer}>
-          <Text style={styles.guidanceText}>{getCameraGuidance()}</Text>
+        {/* Camera Guidance and live cues */}
+        <View>
+          <View style={styles.guidanceContainer}>
+            <Text style={styles.guidanceText}>{getCameraGuidance()}</Text>
+          </View>
+          {isRecording && renderLiveFeedback()}
         </View>
 
         {/* Recording Controls */}
@@ -280,10 +589,7 @@ const CameraComponent: React.FC<CameraComponentProps> = ({
         {/* Bottom Instructions */}
         <View style={styles.instructionsContainer}>
           <Text style={styles.instructionsText}>
-            {isRecording 
-              ? 'Tap to stop recording and analyze'
-              : 'Tap to start recording your set'
-            }
+            {t(isRecording ? 'camera.tapToStop' : 'camera.tapToStart')}
           </Text>
         </View>
       </View>
@@ -365,6 +671,12 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: 'bold',
   },
+  pipelineStatsText: {
+    color: '#ffffff',
+    fontSize: 12,
+    textAlign: 'center',
+    marginTop: 2,
+  },
   
   // Permission states
   permissionContainer: {
@@ -0,0 +1,94 @@
+// components/CueDebouncer.ts
+import { FeedbackItem, FeedbackSeverity } from './FormAnalyzer';
+
+export interface CueDebounceOptions {
+  // Consecutive frames a fault must be seen in before it's shown
+  minFrames: number;
+  // How long a cue stays away after it was hidden, so it can't flicker
+  cooldownMs: number;
+}
+
+const DEFAULT_OPTIONS: CueDebounceOptions = {
+  minFrames: 5,
+  cooldownMs: 3000,
+};
+
+const SEVERITY_RANK: { [severity in FeedbackSeverity]: number } = {
+  error: 2,
+  warning: 1,
+  success: 0,
+  info: 0,
+};
+
+// Errors before warnings, then the fault that costs the most points
+export const getCuePriority = (item: FeedbackItem): number =>
+  SEVERITY_RANK[item.severity] * 1000 + item.penalty;
+
+export const compareCuePriority = (a: FeedbackItem, b: FeedbackItem): number =>
+  getCuePriority(b) - getCuePriority(a);
+
+const isFault = (item: FeedbackItem) => item.severity === 'error' || item.severity === 'warning';
+
+/**
+ * Picks the fault to show from a stream of per-frame feedback. A fault has to
+ * persist for a few frames before it appears and stays up while it persists;
+ * once it clears it can't come back until its cooldown runs out. A more
+ * important fault replaces the one on screen as soon as it qualifies.
+ */
+class CueDebouncer {
+  private options: CueDebounceOptions;
+  private streaks: { [code: string]: number } = {};
+  private cooldownUntil: { [code: string]: number } = {};
+  private current: FeedbackItem | null = null;
+
+  constructor(options: Partial<CueDebounceOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  update(items: FeedbackItem[], timestamp: number): FeedbackItem | null {
+    const faults = items.filter(isFault);
+
+    const streaks: { [code: string]: number } = {};
+    faults.forEach(item => {
+      streaks[item.code] = (this.streaks[item.code] || 0) + 1;
+    });
+    this.streaks = streaks;
+
+    const stillPresent = this.current && faults.find(item => item.code === this.current!.code);
+    if (this.current && !stillPresent) {
+      this.hide(timestamp);
+    }
+    // Keep the reading on screen current
+    this.current = stillPresent || null;
+
+    const candidate = faults
+      .filter(item => streaks[item.code] >= this.options.minFrames)
+      .filter(item => !(this.cooldownUntil[item.code] > timestamp))
+      .sort(compareCuePriority)[0];
+
+    if (candidate && (!this.current || compareCuePriority(candidate, this.current) < 0)) {
+      if (this.current) {
+        this.hide(timestamp);
+      }
+      this.current = candidate;
+    }
+    return this.current;
+  }
+
+  getCurrent(): FeedbackItem | null {
+    return this.current;
+  }
+
+  reset(): void {
+    this.streaks = {};
+    this.cooldownUntil = {};
+    this.current = null;
+  }
+
+  private hide(timestamp: number): void {
+    this.cooldownUntil[this.current!.code] = timestamp + this.options.cooldownMs;
+    this.current = null;
+  }
+}
+
+export default CueDebouncer;
@@ -0,0 +1,197 @@
+// components/CueDispatcher.ts
+import { t } from '../i18n';
+import CueDebouncer, { CueDebounceOptions, getCuePriority } from './CueDebouncer';
+import { FeedbackItem, FeedbackSeverity, FormFeedback } from './FormAnalyzer';
+import { RepPhase } from './RepTracker';
+import { SetAnalysis } from './SetAnalyzer';
+
+export type CueKind = 'fault' | 'rep' | 'summary';
+
+export interface CueEvent {
+  kind: CueKind;
+  text: string;
+  // Higher wins; fault priorities come from getCuePriority
+  priority: number;
+  timestamp: number;
+  // Feedback code of a fault cue, used to stop it repeating
+  code?: string;
+  severity?: FeedbackSeverity;
+  bodyParts?: string[];
+}
+
+export interface CueSink {
+  deliver(event: CueEvent): void;
+  // The fault that was delivered is gone, or the set was reset
+  clear?(): void;
+  // Sinks that can't distract the lifter (the screen) get every fault as soon
+  // as it's picked and skip the rate limit and quiet phases
+  immediate?: boolean;
+}
+
+export interface CueDispatchOptions {
+  // Shortest gap between two cues unless the newer one is more important
+  minIntervalMs: number;
+  // How long before the same fault may be announced again
+  repeatIntervalMs: number;
+  // Phases where the lifter is straining and shouldn't be talked to
+  quietPhases: RepPhase[];
+  debounce?: Partial<CueDebounceOptions>;
+}
+
+const DEFAULT_OPTIONS: CueDispatchOptions = {
+  minIntervalMs: 2000,
+  repeatIntervalMs: 8000,
+  quietPhases: ['concentric'],
+};
+
+// Rep counts are the least important thing to say; a set summary the most
+const REP_PRIORITY = 0;
+const SUMMARY_PRIORITY = Number.MAX_SAFE_INTEGER;
+
+const toFaultEvent = (item: FeedbackItem, timestamp: number): CueEvent => ({
+  kind: 'fault',
+  text: item.cue,
+  priority: getCuePriority(item),
+  timestamp,
+  code: item.code,
+  severity: item.severity,
+  bodyParts: item.bodyParts,
+});
+
+/**
+ * Routes cues from the analysis pipeline to the sinks that present them.
+ *
+ * Faults are debounced per frame and handed to immediate sinks as soon as one
+ * is picked. The other sinks only hear about them between rate limits and
+ * outside the quiet phases; a fault that had to wait is announced on the
+ * first frame it's allowed, provided it's still there.
+ */
+class CueDispatcher {
+  private options: CueDispatchOptions;
+  private sinks: CueSink[];
+  private debouncer: CueDebouncer;
+  private phase: RepPhase = 'setup';
+  private current: CueEvent | null = null;
+  private announced = false;
+  private lastDelivered: CueEvent | null = null;
+  private lastByCode: { [code: string]: number } = {};
+
+  constructor(sinks: CueSink[] = [], options: Partial<CueDispatchOptions> = {}) {
+    this.sinks = [...sinks];
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.debouncer = new CueDebouncer(this.options.debounce);
+  }
+
+  addSink(sink: CueSink): void {
+    this.sinks.push(sink);
+  }
+
+  removeSink(sink: CueSink): void {
+    this.sinks = this.sinks.filter(existing => existing !== sink);
+  }
+
+  // Feeds one analyzed frame; timestamp is the pose frame's
+  addFrame(feedback: FormFeedback, timestamp: number): void {
+    if (feedback.phase) {
+      this.phase = feedback.phase;
+    }
+    if (feedback.repCompleted && feedback.repCount) {
+      this.dispatch({ kind: 'rep', text: String(feedback.repCount), priority: REP_PRIORITY, timestamp });
+    }
+    // Frames that weren't scored say nothing about the athlete's form
+    if (feedback.reliable === false) {
+      return;
+    }
+
+    const cue = this.debouncer.update(feedback.items || [], timestamp);
+    if (cue?.code !== this.current?.code) {
+      this.current = cue ? toFaultEvent(cue, timestamp) : null;
+      this.announced = false;
+      this.sinks.filter(sink => sink.immediate).forEach(sink => {
+        if (this.current) {
+          sink.deliver(this.current);
+        } else {
+          sink.clear?.();
+        }
+      });
+    }
+
+    if (this.current && !this.announced) {
+      const event = { ...this.current, timestamp };
+      if (this.isAllowed(event)) {
+        this.deliver(event, this.sinks.filter(sink => !sink.immediate));
+        this.announced = true;
+      }
+    }
+  }
+
+  /**
+   * Sends a one-off cue. Immediate sinks always get it; the rest only if the
+   * rules allow it right now. Returns whether it got past the rules.
+   */
+  dispatch(event: CueEvent): boolean {
+    const allowed = this.isAllowed(event);
+    if (allowed) {
+      this.deliver(event, this.sinks);
+    } else {
+      this.sinks.filter(sink => sink.immediate).forEach(sink => sink.deliver(event));
+    }
+    return allowed;
+  }
+
+  // Announces how the set went: reps, score and the fault to work on next
+  finishSet(summary: SetAnalysis, timestamp: number): void {
+    this.clearCurrent();
+    const parts = summary.repCount > 0
+      ? [t('cue.setSummary', { count: summary.repCount, score: summary.score })]
+      : [t('set.noReps')];
+    if (summary.recurringFaults.length > 0) {
+      parts.push(t('cue.workOn', { message: summary.recurringFaults[0].message }));
+    }
+    this.dispatch({ kind: 'summary', text: parts.join('. '), priority: SUMMARY_PRIORITY, timestamp });
+  }
+
+  getPhase(): RepPhase {
+    return this.phase;
+  }
+
+  reset(): void {
+    this.debouncer.reset();
+    this.phase = 'setup';
+    this.lastDelivered = null;
+    this.lastByCode = {};
+    this.clearCurrent();
+  }
+
+  private clearCurrent(): void {
+    this.current = null;
+    this.announced = false;
+    this.sinks.forEach(sink => sink.clear?.());
+  }
+
+  private isAllowed(event: CueEvent): boolean {
+    if (event.kind === 'summary') {
+      return true;
+    }
+    if (this.options.quietPhases.includes(this.phase)) {
+      return false;
+    }
+    // Rep counts are short and the lifter relies on them, so they never wait
+    const last = event.kind === 'rep' ? null : this.lastDelivered;
+    if (last && event.timestamp - last.timestamp < this.options.minIntervalMs && event.priority <= last.priority) {
+      return false;
+    }
+    const lastSaid = event.code ? this.lastByCode[event.code] : undefined;
+    return lastSaid === undefined || event.timestamp - lastSaid >= this.options.repeatIntervalMs;
+  }
+
+  private deliver(event: CueEvent, sinks: CueSink[]): void {
+    this.lastDelivered = event;
+    if (event.code) {
+      this.lastByCode[event.code] = event.timestamp;
+    }
+    sinks.forEach(sink => sink.deliver(event));
+  }
+}
+
+export default CueDispatcher;
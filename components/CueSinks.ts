@@ -0,0 +1,115 @@
+// components/CueSinks.ts
+import { Vibration } from 'react-native';
+import { CueEvent, CueKind, CueSink } from './CueDispatcher';
+
+/**
+ * Shows the live fault on screen. Gets every fault as soon as it's picked,
+ * since reading it doesn't interrupt the lift.
+ */
+export class OnScreenCueSink implements CueSink {
+  immediate = true;
+  private onChange: (cue: CueEvent | null) => void;
+
+  constructor(onChange: (cue: CueEvent | null) => void) {
+    this.onChange = onChange;
+  }
+
+  deliver(event: CueEvent): void {
+    if (event.kind === 'fault') {
+      this.onChange(event);
+    }
+  }
+
+  clear(): void {
+    this.onChange(null);
+  }
+}
+
+// The parts of a text-to-speech engine the spoken sink needs
+export interface Speaker {
+  speak(text: string): void;
+  stop?(): void;
+}
+
+// Speaks each cue, cutting off whatever was still being said
+export class SpokenCueSink implements CueSink {
+  private speaker: Speaker;
+
+  constructor(speaker: Speaker) {
+    this.speaker = speaker;
+  }
+
+  deliver(event: CueEvent): void {
+    this.speaker.stop?.();
+    this.speaker.speak(event.text);
+  }
+
+  clear(): void {
+    this.speaker.stop?.();
+  }
+}
+
+// Alternating on/off durations in ms, starting with a pause
+export type CuePattern = number[];
+
+const PATTERNS: { [kind in CueKind]: CuePattern } = {
+  rep: [0, 60],
+  fault: [0, 250, 100, 250],
+  summary: [0, 400, 150, 400],
+};
+
+const WARNING_PATTERN: CuePattern = [0, 250];
+
+/**
+ * Signals cues without words: a tick per rep, a double buzz for an error, a
+ * single one for a warning. Plays through the vibration motor unless another
+ * player, such as a tone generator, is passed in.
+ */
+export class ToneCueSink implements CueSink {
+  private play: (pattern: CuePattern) => void;
+  private stop: () => void;
+
+  constructor(
+    play: (pattern: CuePattern) => void = pattern => Vibration.vibrate(pattern),
+    stop: () => void = () => Vibration.cancel(),
+  ) {
+    this.play = play;
+    this.stop = stop;
+  }
+
+  deliver(event: CueEvent): void {
+    this.play(event.kind === 'fault' && event.severity === 'warning' ? WARNING_PATTERN : PATTERNS[event.kind]);
+  }
+
+  clear(): void {
+    this.stop();
+  }
+}
+
+// Keeps every cue it's given, for tests and for checking a replayed set
+export class RecordingCueSink implements CueSink {
+  events: CueEvent[] = [];
+  clearCount = 0;
+  immediate: boolean;
+
+  constructor(immediate = false) {
+    this.immediate = immediate;
+  }
+
+  deliver(event: CueEvent): void {
+    this.events.push(event);
+  }
+
+  clear(): void {
+    this.clearCount += 1;
+  }
+
+  getTexts(): string[] {
+    return this.events.map(event => event.text);
+  }
+
+  reset(): void {
+    this.events = [];
+    this.clearCount = 0;
+  }
+}
@@ -1,14 +1,102 @@
-
-// components/FeedbackDisplay.tsx - Placeholder
+// components/FeedbackDisplay.tsx
 import React from 'react';
-import { View } from 'react-native';
+import { StyleSheet, Text, View } from 'react-native';
+import { t } from '../i18n';
+import { CueEvent } from './CueDispatcher';
 
 interface FeedbackDisplayProps {
-  // Props will be added when we implement feedback display
+  // Fault picked by the cue dispatcher's on-screen sink
+  cue: CueEvent | null;
+  repCount: number;
+  // Average score of the reps finished so far
+  setScore: number | null;
 }
 
-const FeedbackDisplay: React.FC<FeedbackDisplayProps> = () => {
-  return <View />;
+const getScoreColor = (score: number): string => {
+  if (score >= 80) {
+    return '#22c55e';
+  }
+  if (score >= 60) {
+    return '#f59e0b';
+  }
+  return '#ef4444';
 };
 
+/**
+ * Live coaching layer drawn over the camera preview: the most important
+ * fault right now, the rep counter and the running set score.
+ */
+const FeedbackDisplay: React.FC<FeedbackDisplayProps> = ({ cue, repCount, setScore }) => (
+  <View style={styles.container} pointerEvents="none">
+    <View style={styles.statsRow}>
+      <View style={styles.stat}>
+        <Text style={styles.statValue}>{repCount}</Text>
+        <Text style={styles.statLabel}>{t('live.reps', { count: repCount })}</Text>
+      </View>
+      <View style={styles.stat}>
+        <Text style={[
+          styles.statValue,
+          setScore !== null && { color: getScoreColor(setScore) },
+        ]}>
+          {setScore !== null ? setScore : '–'}
+        </Text>
+        <Text style={styles.statLabel}>{t('live.setScore')}</Text>
+      </View>
+    </View>
+
+    {cue && (
+      <View style={[styles.cue, cue.severity === 'error' ? styles.cueError : styles.cueWarning]}>
+        <Text style={styles.cueText}>{cue.text}</Text>
+      </View>
+    )}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: 20,
+    marginTop: 12,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+  },
+  stat: {
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 12,
+    marginLeft: 8,
+    minWidth: 64,
+  },
+  statValue: {
+    color: '#ffffff',
+    fontSize: 22,
+    fontWeight: 'bold',
+  },
+  statLabel: {
+    color: '#a1a1aa',
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  cue: {
+    marginTop: 12,
+    padding: 14,
+    borderRadius: 12,
+  },
+  cueError: {
+    backgroundColor: 'rgba(239, 68, 68, 0.9)',
+  },
+  cueWarning: {
+    backgroundColor: 'rgba(245, 158, 11, 0.9)',
+  },
+  cueText: {
+    color: '#ffffff',
+    fontSize: 18,
+    fontWeight: 'bold',
+    textAlign: 'center',
+  },
+});
+
 export default FeedbackDisplay;
@@ -0,0 +1,24 @@
+// components/FileSystem.ts
+
+// The parts of react-native-fs the app's stores use
+export interface FileSystem {
+  DocumentDirectoryPath: string;
+  exists(path: string): Promise<boolean>;
+  mkdir(path: string): Promise<void>;
+  moveFile(from: string, to: string): Promise<void>;
+  readDir(path: string): Promise<{ name: string; path: string; size: number; isFile(): boolean }[]>;
+  readFile(path: string, encoding: 'utf8'): Promise<string>;
+  writeFile(path: string, contents: string, encoding: 'utf8'): Promise<void>;
+  unlink(path: string): Promise<void>;
+}
+
+let RNFS: FileSystem | null = null;
+
+try {
+  RNFS = require('react-native-fs');
+} catch (error) {
+  console.log('File system not available:', error);
+}
+
+// The device file system, or null when react-native-fs isn't installed
+export const getFileSystem = (): FileSystem | null => RNFS;
@@ -1,389 +1,307 @@
 // components/FormAnalyzer.tsx
+import { t } from '../i18n';
+import { BodyCalibration, measureSegments } from './Calibration';
+import { JointAngles, getAngleMode, measureJointAngles } from './JointAngles';
+import { MovementDefinition, MovementRule, RuleThreshold, getMovement } from './MovementRegistry';
+import { AngleMode } from './PoseGeometry';
+import RepTracker, { RepPhase } from './RepTracker';
+import { CameraView, classifyView } from './ViewClassifier';
+
 export interface KeyPoint {
   x: number;
   y: number;
   z?: number;
   visibility?: number;
+  // Filled in by PosePreprocessor to bridge a short dropout
+  interpolated?: boolean;
 }
 
 export interface PoseData {
   keypoints: { [key: string]: KeyPoint };
   timestamp: number;
+  // Set by PosePreprocessor; frames without it are assumed reliable
+  reliable?: boolean;
+  unreliableKeypoints?: string[];
+  // Set by a streaming ViewClassifier; classified per frame when missing
+  view?: CameraView;
+  // Pixel size of the image the keypoints were normalized against
+  frameSize?: { width: number; height: number };
+}
+
+export interface SkippedCheck {
+  rule: string;
+  label: string;
+  reason: string;
+}
+
+// Errors are faults to fix, warnings softer coaching notes, success a check
+// that passed and info a status message about the frame itself
+export type FeedbackSeverity = 'error' | 'warning' | 'success' | 'info';
+
+export interface FeedbackItem {
+  // Stable identifier, e.g. SQUAT_KNEE_VALGUS; safe to key on across frames
+  code: string;
+  severity: FeedbackSeverity;
+  // Id of the movement rule that produced it, if any
+  rule?: string;
+  // Keypoint names the item refers to
+  bodyParts: string[];
+  // Measured reading, after normalizing by the rule's body segment
+  value?: number;
+  // Limit the reading crossed; missing when the check passed
+  threshold?: number;
+  // Points taken off the score
+  penalty: number;
+  cue: string;
+}
+
+export interface ScoreDeduction {
+  code: string;
+  cue: string;
+  penalty: number;
+  // Reps the deduction was applied in, on set breakdowns
+  reps?: number[];
+}
+
+// How one rule contributed to the score
+export interface ScoreCriterion {
+  rule: string;
+  label: string;
+  // Most points this criterion can take off the score
+  weight: number;
+  // Share of the weight kept, 0-100; null when the check couldn't be run
+  subscore: number | null;
+  deductions: ScoreDeduction[];
 }
 
 export interface FormFeedback {
   score: number;
+  items: FeedbackItem[];
+  // Cues of the non-error items, in order
   feedback: string[];
+  // Cues of the error items, in order
   errors: string[];
   repCompleted?: boolean;
+  repCount?: number;
+  phase?: RepPhase;
+  // False when the frame failed the keypoint confidence bar and wasn't scored
+  reliable?: boolean;
+  view?: CameraView;
+  // Rules that couldn't be judged from this frame
+  skippedChecks?: SkippedCheck[];
+  // Whether segment-relative metrics used the athlete's calibration rather
+  // than lengths estimated from this frame
+  calibrated?: boolean;
   details?: { [key: string]: number };
+  // Whether angles and distances used depth (3d) or the image plane (2d)
+  angleMode?: AngleMode;
+  jointAngles?: JointAngles;
+  // One entry per movement rule, in rule order. The score is 100 minus every
+  // deduction, floored at 0.
+  breakdown?: ScoreCriterion[];
 }
 
-class FormAnalyzer {
-  static analyze(movement: string, poseData: PoseData): FormFeedback {
-    if (!poseData || !poseData.keypoints) {
-      return { score: 0, feedback: [], errors: [] };
-    }
-
-    switch (movement) {
-      case 'squat':
-        return this.analyzeSquat(poseData);
-      case 'bench':
-        return this.analyzeBench(poseData);
-      case 'deadlift':
-        return this.analyzeDeadlift(poseData);
-      default:
-        return { score: 0, feedback: [], errors: [] };
-    }
-  }
-
-  private static analyzeSquat(poseData: PoseData): FormFeedback {
-    const { keypoints } = poseData;
-    const errors: string[] = [];
-    const feedback: string[] = [];
-    let score = 100;
-
-    // Check if we have the required keypoints
-    const requiredPoints = ['leftHip', 'rightHip', 'leftKnee', 'rightKnee', 'leftAnkle', 'rightAnkle'];
-    const hasRequiredPoints = requiredPoints.every(point => keypoints[point]);
-
-    if (!hasRequiredPoints) {
-      return { 
-        score: 0, 
-        feedback: ['Position yourself so your full body is visible'], 
-        errors: ['Incomplete pose detection'] 
-      };
-    }
-
-    // Calculate angles and positions
-    const leftHip = keypoints.leftHip;
-    const rightHip = keypoints.rightHip;
-    const leftKnee = keypoints.leftKnee;
-    const rightKnee = keypoints.rightKnee;
-    const leftAnkle = keypoints.leftAnkle;
-    const rightAnkle = keypoints.rightAnkle;
-
-    // 1. Depth Analysis
-    const hipHeight = (leftHip.y + rightHip.y) / 2;
-    const kneeHeight = (leftKnee.y + rightKnee.y) / 2;
-    const depthRatio = (kneeHeight - hipHeight) / (leftAnkle.y - hipHeight);
-
-    if (depthRatio < 0.1) {
-      errors.push('Squat deeper - hips need to go below knee level');
-      score -= 25;
-    } else if (depthRatio < 0.3) {
-      feedback.push('Good depth! Try to go slightly deeper');
-      score -= 5;
-    } else {
-      feedback.push('Excellent depth!');
-    }
-
-    // 2. Knee Valgus (Knee Cave) Detection
-    const kneeWidth = Math.abs(rightKnee.x - leftKnee.x);
-    const hipWidth = Math.abs(rightHip.x - leftHip.x);
-    const kneeCollapseRatio = kneeWidth / hipWidth;
-
-    if (kneeCollapseRatio < 0.7) {
-      errors.push('Knees caving in - push knees out over toes');
-      score -= 30;
-    } else if (kneeCollapseRatio < 0.85) {
-      feedback.push('Watch knee alignment - keep them tracking over toes');
-      score -= 10;
-    } else {
-      feedback.push('Great knee tracking!');
-    }
-
-    // 3. Forward Lean Analysis
-    let forwardLean = 0;
-    if (keypoints.leftShoulder && keypoints.rightShoulder) {
-      const shoulderCenter = {
-        x: (keypoints.leftShoulder.x + keypoints.rightShoulder.x) / 2,
-        y: (keypoints.leftShoulder.y + keypoints.rightShoulder.y) / 2,
-      };
-      const hipCenter = {
-        x: (leftHip.x + rightHip.x) / 2,
-        y: (leftHip.y + rightHip.y) / 2,
-      };
-
-      forwardLean = Math.abs(shoulderCenter.x - hipCenter.x);
-      
-      if (forwardLean > 0.1) {
-        errors.push('Too much forward lean - keep chest up');
-        score -= 20;
-      } else if (forwardLean > 0.05) {
-        feedback.push('Slight forward lean - focus on keeping chest up');
-        score -= 5;
-      } else {
-        feedback.push('Good upright posture!');
-      }
-    }
-
-    // 4. Symmetry Check
-    const leftLegLength = Math.sqrt(
-      Math.pow(leftKnee.x - leftHip.x, 2) + Math.pow(leftKnee.y - leftHip.y, 2)
-    );
-    const rightLegLength = Math.sqrt(
-      Math.pow(rightKnee.x - rightHip.x, 2) + Math.pow(rightKnee.y - rightHip.y, 2)
-    );
-    const asymmetry = Math.abs(leftLegLength - rightLegLength) / Math.max(leftLegLength, rightLegLength);
-
-    if (asymmetry > 0.15) {
-      errors.push('Uneven squat - check your stance and balance');
-      score -= 15;
-    }
+export interface AnalysisContext {
+  // Pass the set's tracker to have repCompleted, repCount and phase filled in
+  repTracker?: RepTracker;
+  calibration?: BodyCalibration | null;
+}
 
-    // Determine if this is a completed rep
-    const repCompleted = depthRatio > 0.2 && this.detectBottomPosition(poseData);
+// Builds the FormFeedback message arrays from its items
+export const withMessages = (items: FeedbackItem[]): Pick<FormFeedback, 'items' | 'feedback' | 'errors'> => ({
+  items,
+  feedback: items.filter(item => item.severity !== 'error').map(item => item.cue),
+  errors: items.filter(item => item.severity === 'error').map(item => item.cue),
+});
 
-    return {
-      score: Math.max(0, score),
-      feedback,
-      errors,
-      repCompleted,
-      details: {
-        depth: depthRatio,
-        kneeTracking: kneeCollapseRatio,
-        forwardLean,
-        symmetry: asymmetry,
-      }
-    };
+class FormAnalyzer {
+  static getRequiredKeypoints(movement: string): string[] {
+    return getMovement(movement)?.requiredKeypoints || [];
   }
 
-  private static analyzeBench(poseData: PoseData): FormFeedback {
-    const { keypoints } = poseData;
-    const errors: string[] = [];
-    const feedback: string[] = [];
-    let score = 100;
-
-    // Check for required keypoints
-    const requiredPoints = ['leftShoulder', 'rightShoulder', 'leftElbow', 'rightElbow', 'leftWrist', 'rightWrist'];
-    const hasRequiredPoints = requiredPoints.every(point => keypoints[point]);
-
-    if (!hasRequiredPoints) {
-      return { 
-        score: 0, 
-        feedback: ['Position camera to show your upper body clearly'], 
-        errors: ['Incomplete pose detection'] 
-      };
+  /**
+   * Scores a single frame. Rep detection and calibration need the frames
+   * around it, so those come in through the context.
+   */
+  static analyze(movement: string, poseData: PoseData, context: AnalysisContext = {}): FormFeedback {
+    const { repTracker, calibration } = context;
+    if (!poseData || !poseData.keypoints) {
+      return { score: 0, ...withMessages([]) };
     }
 
-    const leftShoulder = keypoints.leftShoulder;
-    const rightShoulder = keypoints.rightShoulder;
-    const leftElbow = keypoints.leftElbow;
-    const rightElbow = keypoints.rightElbow;
-    const leftWrist = keypoints.leftWrist;
-    const rightWrist = keypoints.rightWrist;
-
-    // 1. Elbow Flare Analysis
-    const leftElbowAngle = this.calculateAngle(leftShoulder, leftElbow, leftWrist);
-    const rightElbowAngle = this.calculateAngle(rightShoulder, rightElbow, rightWrist);
-    const avgElbowAngle = (leftElbowAngle + rightElbowAngle) / 2;
-
-    if (avgElbowAngle > 100) {
-      errors.push('Elbows too flared - bring them closer to your body');
-      score -= 25;
-    } else if (avgElbowAngle > 85) {
-      feedback.push('Slight elbow flare - try to keep elbows at 45-degree angle');
-      score -= 10;
-    } else {
-      feedback.push('Good elbow position!');
+    const definition = getMovement(movement);
+    if (!definition) {
+      return { score: 0, ...withMessages([]) };
     }
 
-    // 2. Bar Path Analysis (approximated by wrist position)
-    const wristCenter = {
-      x: (leftWrist.x + rightWrist.x) / 2,
-      y: (leftWrist.y + rightWrist.y) / 2,
-    };
-    const shoulderCenter = {
-      x: (leftShoulder.x + rightShoulder.x) / 2,
-      y: (leftShoulder.y + rightShoulder.y) / 2,
-    };
-
-    const barDeviation = Math.abs(wristCenter.x - shoulderCenter.x);
-    if (barDeviation > 0.08) {
-      errors.push('Bar drifting - keep it over your shoulders');
-      score -= 20;
-    } else if (barDeviation > 0.04) {
-      feedback.push('Minor bar drift - focus on straight up and down');
-      score -= 5;
+    let result: FormFeedback;
+    if (poseData.reliable === false) {
+      result = {
+        score: 0,
+        ...withMessages([{
+          code: 'POSE_UNRELIABLE',
+          severity: 'info',
+          bodyParts: poseData.unreliableKeypoints || [],
+          penalty: 0,
+          cue: t('feedback.POSE_UNRELIABLE'),
+        }]),
+        reliable: false,
+      };
     } else {
-      feedback.push('Great bar path!');
+      result = this.evaluateRules(definition, poseData, calibration || null);
     }
 
-    // 3. Symmetry Check
-    const leftArmExtension = Math.sqrt(
-      Math.pow(leftWrist.x - leftShoulder.x, 2) + Math.pow(leftWrist.y - leftShoulder.y, 2)
-    );
-    const rightArmExtension = Math.sqrt(
-      Math.pow(rightWrist.x - rightShoulder.x, 2) + Math.pow(rightWrist.y - rightShoulder.y, 2)
-    );
-    const asymmetry = Math.abs(leftArmExtension - rightArmExtension) / Math.max(leftArmExtension, rightArmExtension);
-
-    if (asymmetry > 0.1) {
-      errors.push('Uneven press - check your grip and shoulder position');
-      score -= 15;
+    if (repTracker) {
+      // Unreliable frames would only feed jitter into the phase detection
+      const events = poseData.reliable === false ? [] : repTracker.update(poseData);
+      result.repCompleted = events.some(event => event.type === 'repEnd');
+      result.repCount = repTracker.getRepCount();
+      result.phase = repTracker.getPhase();
     }
 
-    const repCompleted = this.detectPressMovement(poseData);
-
-    return {
-      score: Math.max(0, score),
-      feedback,
-      errors,
-      repCompleted,
-      details: {
-        elbowAngle: avgElbowAngle,
-        barPath: barDeviation,
-        symmetry: asymmetry,
-      }
-    };
+    return result;
   }
 
-  private static analyzeDeadlift(poseData: PoseData): FormFeedback {
+  private static evaluateRules(
+    definition: MovementDefinition,
+    poseData: PoseData,
+    calibration: BodyCalibration | null,
+  ): FormFeedback {
     const { keypoints } = poseData;
-    const errors: string[] = [];
-    const feedback: string[] = [];
+    const items: FeedbackItem[] = [];
+    const details: { [key: string]: number } = {};
+    const skippedChecks: SkippedCheck[] = [];
+    const breakdown: ScoreCriterion[] = [];
     let score = 100;
 
-    // Check for required keypoints
-    const requiredPoints = ['leftShoulder', 'rightShoulder', 'leftHip', 'rightHip', 'leftKnee', 'rightKnee'];
-    const hasRequiredPoints = requiredPoints.every(point => keypoints[point]);
+    // Check if we have the required keypoints
+    const hasRequiredPoints = definition.requiredKeypoints.every(point => keypoints[point]);
 
     if (!hasRequiredPoints) {
-      return { 
-        score: 0, 
-        feedback: ['Position yourself so your full body is visible from the side'], 
-        errors: ['Incomplete pose detection'] 
+      const missing = definition.requiredKeypoints.filter(point => !keypoints[point]);
+      return {
+        score: 0,
+        ...withMessages([
+          {
+            code: 'POSE_REPOSITION',
+            severity: 'info',
+            bodyParts: missing,
+            penalty: 0,
+            cue: t(`movement.${definition.id}.incompletePose`),
+          },
+          { code: 'POSE_INCOMPLETE', severity: 'error', bodyParts: missing, penalty: 0, cue: t('feedback.POSE_INCOMPLETE') },
+        ]),
       };
     }
 
-    const leftShoulder = keypoints.leftShoulder;
-    const rightShoulder = keypoints.rightShoulder;
-    const leftHip = keypoints.leftHip;
-    const rightHip = keypoints.rightHip;
-    const leftKnee = keypoints.leftKnee;
-    const rightKnee = keypoints.rightKnee;
-
-    // 1. Back Angle Analysis
-    const shoulderCenter = {
-      x: (leftShoulder.x + rightShoulder.x) / 2,
-      y: (leftShoulder.y + rightShoulder.y) / 2,
-    };
-    const hipCenter = {
-      x: (leftHip.x + rightHip.x) / 2,
-      y: (leftHip.y + rightHip.y) / 2,
-    };
-
-    const backAngle = Math.atan2(
-      shoulderCenter.y - hipCenter.y,
-      shoulderCenter.x - hipCenter.x
-    ) * 180 / Math.PI;
-
-    if (Math.abs(backAngle) > 30) {
-      errors.push('Back rounding detected - keep your back straight');
-      score -= 30;
-    } else if (Math.abs(backAngle) > 15) {
-      feedback.push('Slight back rounding - focus on neutral spine');
-      score -= 10;
-    } else {
-      feedback.push('Good back position!');
-    }
-
-    // 2. Hip Hinge Analysis
-    const kneeCenter = {
-      x: (leftKnee.x + rightKnee.x) / 2,
-      y: (leftKnee.y + rightKnee.y) / 2,
-    };
-
-    const hipToKneeDistance = Math.sqrt(
-      Math.pow(hipCenter.x - kneeCenter.x, 2) + Math.pow(hipCenter.y - kneeCenter.y, 2)
-    );
-
-    if (hipToKneeDistance < 0.1) {
-      errors.push('Not enough hip hinge - push your hips back');
-      score -= 25;
-    } else if (hipToKneeDistance < 0.15) {
-      feedback.push('Good hip hinge, try to push hips back slightly more');
-      score -= 5;
-    } else {
-      feedback.push('Excellent hip hinge pattern!');
-    }
-
-    // 3. Knee Position Check
-    if (keypoints.leftAnkle && keypoints.rightAnkle) {
-      const ankleCenter = {
-        x: (keypoints.leftAnkle.x + keypoints.rightAnkle.x) / 2,
-        y: (keypoints.leftAnkle.y + keypoints.rightAnkle.y) / 2,
-      };
-
-      const kneeOverToes = Math.abs(kneeCenter.x - ankleCenter.x);
-      if (kneeOverToes > 0.08) {
-        errors.push('Knees too far forward - keep shins more vertical');
-        score -= 15;
+    // Without a calibration, fall back to the lengths visible in this frame
+    const segments = calibration ? calibration.segments : measureSegments(keypoints);
+
+    // Only run the checks that can be measured from where the camera is
+    const view = poseData.view || classifyView(keypoints);
+    // True 3D angles need depth on every keypoint the movement depends on
+    const angleMode = getAngleMode(keypoints, definition.requiredKeypoints);
+
+    definition.rules.forEach(rule => {
+      const viewDependent = !(rule.anyViewWithDepth && angleMode === '3d');
+      if (viewDependent && rule.views && view !== 'unknown' && !rule.views.includes(view)) {
+        skippedChecks.push({
+          rule: rule.id,
+          label: t(`rule.${rule.id}`),
+          reason: t('skip.wrongView', {
+            views: rule.views.map(name => t(`view.${name}`)).join(t('list.or')),
+            view: t(`view.${view}`),
+          }),
+        });
+        breakdown.push(this.criterion(rule, false));
+        return;
       }
-    }
 
-    const repCompleted = this.detectDeadliftMovement(poseData);
+      let value = rule.metric(keypoints, angleMode);
+      if (value === null) {
+        skippedChecks.push({
+          rule: rule.id,
+          label: t(`rule.${rule.id}`),
+          reason: t('skip.notVisible'),
+        });
+        breakdown.push(this.criterion(rule, false));
+        return;
+      }
+      if (rule.normalizeBy) {
+        const length = segments[rule.normalizeBy];
+        if (!length) {
+          skippedChecks.push({
+            rule: rule.id,
+            label: t(`rule.${rule.id}`),
+            reason: t('skip.noSegment', { segment: t(`segment.${rule.normalizeBy}`) }),
+          });
+          breakdown.push(this.criterion(rule, false));
+          return;
+        }
+        value /= length;
+      }
+      details[rule.id] = value;
+
+      const crossed = this.findCrossedThreshold(rule, value);
+      breakdown.push(this.criterion(rule, true, crossed));
+      if (crossed) {
+        items.push({
+          code: crossed.code,
+          severity: crossed.kind === 'error' ? 'error' : 'warning',
+          rule: rule.id,
+          bodyParts: rule.bodyParts,
+          value,
+          threshold: crossed.limit,
+          penalty: crossed.penalty,
+          cue: t(`feedback.${crossed.code}`),
+        });
+        score -= crossed.penalty;
+      } else if (rule.passMessage) {
+        items.push({
+          code: `${rule.code}_OK`,
+          severity: 'success',
+          rule: rule.id,
+          bodyParts: rule.bodyParts,
+          value,
+          penalty: 0,
+          cue: t(`feedback.${rule.code}_OK`),
+        });
+      }
+    });
 
     return {
       score: Math.max(0, score),
-      feedback,
-      errors,
-      repCompleted,
-      details: {
-        backAngle: Math.abs(backAngle),
-        hipHinge: hipToKneeDistance,
-      }
+      ...withMessages(items),
+      view,
+      skippedChecks,
+      calibrated: !!calibration,
+      details,
+      angleMode,
+      jointAngles: measureJointAngles(keypoints, angleMode, view),
+      breakdown,
     };
   }
 
-  // Helper methods
-  private static calculateAngle(point1: KeyPoint, point2: KeyPoint, point3: KeyPoint): number {
-    const vector1 = {
-      x: point1.x - point2.x,
-      y: point1.y - point2.y,
-    };
-    const vector2 = {
-      x: point3.x - point2.x,
-      y: point3.y - point2.y,
+  private static criterion(rule: MovementRule, measured: boolean, crossed?: RuleThreshold): ScoreCriterion {
+    const weight = Math.max(...rule.thresholds.map(threshold => threshold.penalty));
+    const deductions = crossed
+      ? [{ code: crossed.code, cue: t(`feedback.${crossed.code}`), penalty: crossed.penalty }]
+      : [];
+    const lost = deductions.reduce((sum, deduction) => sum + deduction.penalty, 0);
+    return {
+      rule: rule.id,
+      label: t(`rule.${rule.id}`),
+      weight,
+      subscore: measured ? Math.round(100 * (1 - lost / weight)) : null,
+      deductions,
     };
-
-    const dot = vector1.x * vector2.x + vector1.y * vector2.y;
-    const mag1 = Math.sqrt(vector1.x ** 2 + vector1.y ** 2);
-    const mag2 = Math.sqrt(vector2.x ** 2 + vector2.y ** 2);
-
-    const cos = dot / (mag1 * mag2);
-    return Math.acos(Math.max(-1, Math.min(1, cos))) * 180 / Math.PI;
-  }
-
-  private static detectBottomPosition(poseData: PoseData): boolean {
-    const { keypoints } = poseData;
-    const hipHeight = (keypoints.leftHip.y + keypoints.rightHip.y) / 2;
-    const kneeHeight = (keypoints.leftKnee.y + keypoints.rightKnee.y) / 2;
-    
-    return hipHeight > kneeHeight; // Hips below knees
   }
 
-  private static detectPressMovement(poseData: PoseData): boolean {
-    // Simple heuristic for bench press rep detection
-    return Math.random() > 0.8; // Placeholder
-  }
-
-  private static detectDeadliftMovement(poseData: PoseData): boolean {
-    const { keypoints } = poseData;
-    const hipCenter = {
-      x: (keypoints.leftHip.x + keypoints.rightHip.x) / 2,
-      y: (keypoints.leftHip.y + keypoints.rightHip.y) / 2,
-    };
-    const shoulderCenter = {
-      x: (keypoints.leftShoulder.x + keypoints.rightShoulder.x) / 2,
-      y: (keypoints.leftShoulder.y + keypoints.rightShoulder.y) / 2,
-    };
-    
-    // Check if torso is upright (completing the lift)
-    const torsoAngle = Math.abs(shoulderCenter.x - hipCenter.x);
-    return torsoAngle < 0.05; // Standing upright
+  private static findCrossedThreshold(rule: MovementRule, value: number): RuleThreshold | undefined {
+    return rule.thresholds.find(threshold =>
+      rule.faultWhen === 'above' ? value > threshold.limit : value < threshold.limit,
+    );
   }
 }
 
-export default FormAnalyzer;
\ No newline at end of file
+export default FormAnalyzer;
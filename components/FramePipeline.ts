@@ -0,0 +1,204 @@
+// components/FramePipeline.ts
+
+export type FrameDecision = 'accept' | 'throttled' | 'busy';
+
+/**
+ * Admission state for camera frames. Only the side that admits frames writes
+ * it; the side that analyzes them only counts completions, so the two never
+ * write the same value from different threads.
+ */
+export interface FrameGate {
+  // Clock time of the last admitted frame, or null before the first
+  lastAcceptedAt: number | null;
+  accepted: number;
+  // Frames dropped for arriving sooner than the target rate allows
+  throttled: number;
+  // Frames dropped because the analysis hadn't caught up
+  busy: number;
+}
+
+export interface FrameGateOptions {
+  // Shortest gap between admitted frames
+  minIntervalMs: number;
+  // Admitted frames that may be waiting for analysis at once
+  maxInFlight: number;
+}
+
+export const INITIAL_FRAME_GATE: FrameGate = { lastAcceptedAt: null, accepted: 0, throttled: 0, busy: 0 };
+
+/**
+ * Decides whether to run pose estimation on a frame. Frames are dropped, not
+ * queued: while the analysis is behind, or when they come faster than the
+ * target rate. Pure, so it runs in the frame-processor worklet as well as
+ * on the JS thread.
+ */
+export const gateFrame = (
+  gate: FrameGate,
+  completed: number,
+  now: number,
+  options: FrameGateOptions,
+): { decision: FrameDecision; gate: FrameGate } => {
+  'worklet';
+  // Camera frames jitter, so one slightly early still counts as on time;
+  // otherwise a rate that divides the camera's would lose every other slot
+  const earliest = options.minIntervalMs * 0.9;
+  if (gate.accepted - completed >= options.maxInFlight) {
+    return { decision: 'busy', gate: { ...gate, busy: gate.busy + 1 } };
+  }
+  if (gate.lastAcceptedAt !== null && now - gate.lastAcceptedAt < earliest) {
+    return { decision: 'throttled', gate: { ...gate, throttled: gate.throttled + 1 } };
+  }
+  return { decision: 'accept', gate: { ...gate, lastAcceptedAt: now, accepted: gate.accepted + 1 } };
+};
+
+/**
+ * The frame processor's gate for one set. The JS thread starts a set by
+ * bumping a generation number rather than touching the gate; the worklet
+ * sees the new generation and starts a fresh gate itself, so the gate keeps
+ * a single writer even with a frame from the last set still in flight.
+ */
+export interface SetFrameGate {
+  generation: number;
+  // Frames the JS thread had completed when this set's gate started
+  completedBefore: number;
+  gate: FrameGate;
+}
+
+export const INITIAL_SET_FRAME_GATE: SetFrameGate = { generation: 0, completedBefore: 0, gate: INITIAL_FRAME_GATE };
+
+// gateFrame for the set numbered `generation`, given all frames ever completed
+export const gateSetFrame = (
+  state: SetFrameGate,
+  generation: number,
+  completed: number,
+  now: number,
+  options: FrameGateOptions,
+): { decision: FrameDecision; state: SetFrameGate } => {
+  'worklet';
+  const current = state.generation === generation
+    ? state
+    : { generation, completedBefore: completed, gate: INITIAL_FRAME_GATE };
+  const result = gateFrame(current.gate, completed - current.completedBefore, now, options);
+  return { decision: result.decision, state: { ...current, gate: result.gate } };
+};
+
+export interface FramePipelineOptions {
+  // Analysis rate to aim for; the camera usually delivers 30 or 60
+  targetFps: number;
+  maxInFlight: number;
+  // Stretch of time FPS and latency are measured over
+  statsWindowMs: number;
+}
+
+export interface FramePipelineStats {
+  // Frames analyzed per second over the stats window
+  fps: number;
+  // Time from admitting a frame to finishing its analysis, in ms
+  latencyMs: number | null;
+  latencyP95Ms: number | null;
+  accepted: number;
+  completed: number;
+  throttled: number;
+  busy: number;
+}
+
+const DEFAULT_OPTIONS: FramePipelineOptions = {
+  targetFps: 15,
+  maxInFlight: 1,
+  statsWindowMs: 2000,
+};
+
+interface CompletedFrame {
+  completedAt: number;
+  latency: number;
+}
+
+/**
+ * Schedules camera frames for analysis at a steady rate and measures how
+ * the pipeline keeps up. Frame sources on the JS thread call offer() and
+ * complete() directly. The camera's frame processor gates frames itself
+ * with gateSetFrame and reports back through complete() and syncGate().
+ */
+class FramePipeline {
+  private options: FramePipelineOptions;
+  private clock: () => number;
+  private gate: FrameGate = INITIAL_FRAME_GATE;
+  private completed = 0;
+  private pending: number[] = [];
+  private history: CompletedFrame[] = [];
+
+  constructor(options: Partial<FramePipelineOptions> = {}, clock: () => number = Date.now) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.clock = clock;
+  }
+
+  getGateOptions(): FrameGateOptions {
+    return {
+      minIntervalMs: 1000 / this.options.targetFps,
+      maxInFlight: this.options.maxInFlight,
+    };
+  }
+
+  // Whether to analyze a frame arriving now
+  offer(): FrameDecision {
+    const now = this.clock();
+    const result = gateFrame(this.gate, this.completed, now, this.getGateOptions());
+    this.gate = result.gate;
+    if (result.decision === 'accept') {
+      this.pending.push(now);
+    }
+    return result.decision;
+  }
+
+  /**
+   * Marks the oldest admitted frame as analyzed. Frames admitted elsewhere
+   * pass the clock time they were admitted at.
+   */
+  complete(acceptedAt?: number): void {
+    const now = this.clock();
+    const startedAt = acceptedAt ?? this.pending.shift();
+    this.completed += 1;
+    if (startedAt !== undefined) {
+      this.history.push({ completedAt: now, latency: now - startedAt });
+    }
+    this.trimHistory(now);
+  }
+
+  // Adopts the counters of a gate kept outside the pipeline
+  syncGate(gate: FrameGate): void {
+    this.gate = gate;
+  }
+
+  getStats(): FramePipelineStats {
+    const now = this.clock();
+    this.trimHistory(now);
+    const latencies = this.history.map(frame => frame.latency).sort((a, b) => a - b);
+    const { accepted, throttled, busy } = this.gate;
+    return {
+      fps: this.history.length / (this.options.statsWindowMs / 1000),
+      latencyMs: latencies.length > 0
+        ? latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length
+        : null,
+      latencyP95Ms: latencies.length > 0
+        ? latencies[Math.min(latencies.length - 1, Math.floor(latencies.length * 0.95))]
+        : null,
+      accepted,
+      completed: this.completed,
+      throttled,
+      busy,
+    };
+  }
+
+  reset(): void {
+    this.gate = INITIAL_FRAME_GATE;
+    this.completed = 0;
+    this.pending = [];
+    this.history = [];
+  }
+
+  private trimHistory(now: number): void {
+    this.history = this.history.filter(frame => now - frame.completedAt <= this.options.statsWindowMs);
+  }
+}
+
+export default FramePipeline;
@@ -0,0 +1,295 @@
+// components/HistoryExport.ts
+import { FileSystem } from './FileSystem';
+import {
+  HISTORY_FORMAT,
+  HISTORY_VERSION,
+  HistoryMergeResult,
+  HistoryQuery,
+  HistoryRepository,
+  HistorySession,
+  HistorySet,
+  migrateHistory,
+} from './HistoryStore';
+import { PoseTrace, parsePoseTrace, serializePoseTrace } from './PoseTrace';
+import { RepTempo } from './VelocityMetrics';
+
+export const EXPORT_FORMAT = 'tma-history-export';
+export const EXPORT_VERSION = 1;
+
+/**
+ * Everything needed to rebuild a history elsewhere. Sessions are stored
+ * exactly as the history keeps them, at the history version they were
+ * exported from; traces are serialized pose traces keyed by set id.
+ */
+export interface HistoryBundle {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  // ISO 8601
+  exportedAt: string;
+  historyVersion: number;
+  sessions: HistorySession[];
+  traces: { [setId: string]: string };
+}
+
+export interface ExportOptions {
+  includeTraces: boolean;
+}
+
+// Sessions holding the sets that match the query, with their traces if asked for
+export const exportHistory = async (
+  repository: HistoryRepository,
+  query: HistoryQuery = {},
+  options: Partial<ExportOptions> = {},
+): Promise<HistoryBundle> => {
+  const sessions = await repository.getSessions(query);
+  const traces: { [setId: string]: string } = {};
+  if (options.includeTraces) {
+    for (const set of sessions.flatMap(session => session.sets)) {
+      const trace = await repository.loadTrace(set.id);
+      if (trace) {
+        traces[set.id] = serializePoseTrace(trace);
+      }
+    }
+  }
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    historyVersion: HISTORY_VERSION,
+    sessions,
+    traces,
+  };
+};
+
+const REQUIRED_SET_FIELDS: [keyof HistorySet, string][] = [
+  ['id', 'string'],
+  ['movement', 'string'],
+  ['recordedAt', 'number'],
+  ['score', 'number'],
+  ['repCount', 'number'],
+];
+
+const TEMPO_FIELDS: (keyof RepTempo)[] = ['eccentric', 'pause', 'concentric', 'timeUnderTension'];
+
+// The parts of a rep that the CSV export and progress stats read
+const validateRep = (rep: any, where: string): void => {
+  if (typeof rep?.repNumber !== 'number') {
+    throw new Error(`${where}: repNumber should be a number`);
+  }
+  if (typeof rep.feedback?.score !== 'number') {
+    throw new Error(`${where}: feedback should have a score`);
+  }
+  if (!Array.isArray(rep.feedback.items) || rep.feedback.items.some((item: any) => typeof item?.code !== 'string')) {
+    throw new Error(`${where}: feedback items should be a list of coded items`);
+  }
+  if (TEMPO_FIELDS.some(field => typeof rep.tempo?.[field] !== 'number')) {
+    throw new Error(`${where}: tempo should have ${TEMPO_FIELDS.join(', ')}`);
+  }
+};
+
+const validateSessions = (sessions: any): void => {
+  if (!Array.isArray(sessions)) {
+    throw new Error('Bundle has no sessions');
+  }
+  sessions.forEach((session: any, sessionIndex: number) => {
+    const where = `Session ${sessionIndex + 1}`;
+    if (typeof session?.id !== 'string' || typeof session.startedAt !== 'number') {
+      throw new Error(`${where} is missing its id or start time`);
+    }
+    if (!Array.isArray(session.sets)) {
+      throw new Error(`${where} has no sets`);
+    }
+    session.sets.forEach((set: any, setIndex: number) => {
+      REQUIRED_SET_FIELDS.forEach(([field, type]) => {
+        if (typeof set?.[field] !== type) {
+          throw new Error(`${where}, set ${setIndex + 1}: ${field} should be a ${type}`);
+        }
+      });
+      if (!Array.isArray(set.reps)) {
+        throw new Error(`${where}, set ${setIndex + 1}: reps should be a list`);
+      }
+      set.reps.forEach((rep: any, repIndex: number) => validateRep(rep, `${where}, set ${setIndex + 1}, rep ${repIndex + 1}`));
+    });
+  });
+};
+
+/**
+ * Reads a bundle and brings its sessions up to the current history
+ * version. Throws with what's wrong when the bundle can't be trusted, so
+ * nothing half-valid reaches the history.
+ */
+export const parseHistoryBundle = (text: string): { sessions: HistorySession[]; traces: { [setId: string]: PoseTrace } } => {
+  let bundle: any;
+  try {
+    bundle = JSON.parse(text);
+  } catch (error) {
+    throw new Error('Bundle is not valid JSON');
+  }
+  if (bundle?.format !== EXPORT_FORMAT) {
+    throw new Error(`Not a history export: unexpected format "${bundle?.format}"`);
+  }
+  if (typeof bundle.version !== 'number' || bundle.version > EXPORT_VERSION) {
+    throw new Error(`Export version ${bundle.version} is newer than supported version ${EXPORT_VERSION}`);
+  }
+  validateSessions(bundle.sessions);
+
+  const { sessions } = migrateHistory({ format: HISTORY_FORMAT, version: bundle.historyVersion, sessions: bundle.sessions });
+  const traces: { [setId: string]: PoseTrace } = {};
+  Object.entries(bundle.traces || {}).forEach(([setId, trace]) => {
+    try {
+      traces[setId] = parsePoseTrace(String(trace));
+    } catch (error) {
+      throw new Error(`Trace of set ${setId} is unreadable: ${error instanceof Error ? error.message : error}`);
+    }
+  });
+  return { sessions, traces };
+};
+
+// Validates a bundle and merges it into the history
+export const importHistory = async (repository: HistoryRepository, text: string): Promise<HistoryMergeResult> => {
+  const { sessions, traces } = parseHistoryBundle(text);
+  return repository.mergeSessions(sessions, traces);
+};
+
+const CSV_COLUMNS = [
+  'session_id',
+  'session_started_at',
+  'set_id',
+  'movement',
+  'recorded_at',
+  'set_score',
+  'rep_count',
+  'load',
+  'load_unit',
+  'logged_reps',
+  'rpe',
+  'view',
+  'angle_mode',
+  'rep_number',
+  'rep_score',
+  'eccentric_s',
+  'pause_s',
+  'concentric_s',
+  'time_under_tension_s',
+];
+
+type CsvValue = string | number | null | undefined;
+
+const formatCsvValue = (value: CsvValue): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = typeof value === 'number' ? String(Math.round(value * 10000) / 10000) : value;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One row per rep, for spreadsheets: the set it belongs to with its logged
+ * load, the rep's score and tempo, a column per rule reading found in any
+ * rep, and the codes of the faults it was marked down for. Sets without
+ * reps get one row of set columns only.
+ */
+export const toCsv = (sessions: HistorySession[]): string => {
+  const sets = sessions
+    .flatMap(session => session.sets.map(set => ({ session, set })))
+    .sort((a, b) => a.set.recordedAt - b.set.recordedAt);
+
+  const metrics: string[] = [];
+  sets.forEach(({ set }) => set.reps.forEach(rep => Object.keys(rep.feedback.details || {}).forEach(metric => {
+    if (!metrics.includes(metric)) {
+      metrics.push(metric);
+    }
+  })));
+
+  const rows: CsvValue[][] = [];
+  sets.forEach(({ session, set }) => {
+    const setColumns: CsvValue[] = [
+      session.id,
+      new Date(session.startedAt).toISOString(),
+      set.id,
+      set.movement,
+      new Date(set.recordedAt).toISOString(),
+      set.score,
+      set.repCount,
+      set.load?.load,
+      set.load?.unit,
+      set.load?.reps,
+      set.load?.rpe,
+      set.view,
+      set.angleMode,
+    ];
+    if (set.reps.length === 0) {
+      rows.push(setColumns);
+      return;
+    }
+    set.reps.forEach(rep => {
+      const faults = rep.feedback.items
+        .filter(item => item.severity === 'error' || item.severity === 'warning')
+        .map(item => item.code);
+      rows.push([
+        ...setColumns,
+        rep.repNumber,
+        rep.feedback.score,
+        rep.tempo.eccentric,
+        rep.tempo.pause,
+        rep.tempo.concentric,
+        rep.tempo.timeUnderTension,
+        ...metrics.map(metric => rep.feedback.details?.[metric]),
+        faults.join(';'),
+      ]);
+    });
+  });
+
+  return [[...CSV_COLUMNS, ...metrics, 'faults'], ...rows]
+    .map(row => row.map(formatCsvValue).join(','))
+    .join('\n') + '\n';
+};
+
+// Under the app's documents directory
+export const EXPORT_DIRECTORY = 'exports';
+export const IMPORT_DIRECTORY = 'import';
+
+// Writes an export where it can be shared from and returns its path
+export const saveExportFile = async (fs: FileSystem, fileName: string, contents: string): Promise<string> => {
+  const directory = `${fs.DocumentDirectoryPath}/${EXPORT_DIRECTORY}`;
+  if (!(await fs.exists(directory))) {
+    await fs.mkdir(directory);
+  }
+  const path = `${directory}/${fileName}`;
+  await fs.writeFile(path, contents, 'utf8');
+  return path;
+};
+
+export interface ImportReport extends HistoryMergeResult {
+  files: number;
+  // Bundles that could not be imported, with why
+  failures: { file: string; message: string }[];
+}
+
+/**
+ * Imports every bundle copied into the import folder. Files stay where
+ * they are; importing one again only skips the sets it already added.
+ */
+export const importBundles = async (repository: HistoryRepository, fs: FileSystem): Promise<ImportReport> => {
+  const directory = `${fs.DocumentDirectoryPath}/${IMPORT_DIRECTORY}`;
+  const report: ImportReport = { files: 0, sessionsAdded: 0, setsAdded: 0, setsSkipped: 0, failures: [] };
+  if (!(await fs.exists(directory))) {
+    await fs.mkdir(directory);
+    return report;
+  }
+  const files = (await fs.readDir(directory))
+    .filter(file => file.isFile() && file.name.endsWith('.json'))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  for (const file of files) {
+    report.files += 1;
+    try {
+      const result = await importHistory(repository, await fs.readFile(file.path, 'utf8'));
+      report.sessionsAdded += result.sessionsAdded;
+      report.setsAdded += result.setsAdded;
+      report.setsSkipped += result.setsSkipped;
+    } catch (error) {
+      report.failures.push({ file: file.name, message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return report;
+};
@@ -0,0 +1,477 @@
+// components/HistoryStore.ts
+import { BarPathAnalysis } from './BarPath';
+import { BodyCalibration } from './Calibration';
+import { FileSystem, getFileSystem } from './FileSystem';
+import { FormFeedback, ScoreCriterion, SkippedCheck } from './FormAnalyzer';
+import { AngleMode } from './PoseGeometry';
+import { PoseTrace, parsePoseTrace, serializePoseTrace } from './PoseTrace';
+import { RecurringFault, RepAnalysis } from './SetAnalyzer';
+import { SetLoad } from './StrengthMetrics';
+import { RepTempo, RepVelocity, SetVelocity, summarizeVelocity } from './VelocityMetrics';
+import { CameraView } from './ViewClassifier';
+
+export const HISTORY_FORMAT = 'tma-history';
+export const HISTORY_VERSION = 3;
+
+export interface HistoryRep {
+  repNumber: number;
+  // Ms into the set
+  startTime: number;
+  endTime: number;
+  // The analysis of the rep's key frame
+  feedback: FormFeedback;
+  tempo: RepTempo;
+  velocity?: RepVelocity | null;
+  barPath?: BarPathAnalysis | null;
+}
+
+export interface HistorySet {
+  id: string;
+  sessionId: string;
+  movement: string;
+  // Epoch ms
+  recordedAt: number;
+  durationSeconds: number;
+  score: number;
+  repCount: number;
+  reps: HistoryRep[];
+  breakdown: ScoreCriterion[];
+  feedback: string[];
+  recurringFaults: RecurringFault[];
+  skippedChecks: SkippedCheck[];
+  view: CameraView;
+  angleMode: AngleMode;
+  calibration: BodyCalibration | null;
+  velocity: SetVelocity | null;
+  // Null until the lifter logs what was on the bar
+  load: SetLoad | null;
+  videoPath: string | null;
+  // The set's pose trace, stored next to the history file
+  tracePath: string | null;
+}
+
+export type NewHistorySet = Omit<HistorySet, 'id' | 'sessionId' | 'tracePath'>;
+
+export interface HistorySession {
+  id: string;
+  // Epoch ms
+  startedAt: number;
+  endedAt: number | null;
+  sets: HistorySet[];
+}
+
+// What the history file holds
+export interface HistoryData {
+  format: typeof HISTORY_FORMAT;
+  version: number;
+  sessions: HistorySession[];
+}
+
+/**
+ * Upgrades history data from the version it's keyed by to the next one.
+ * When the stored shape changes: bump HISTORY_VERSION and add the step from
+ * the old version here, so histories saved by earlier app versions still load.
+ */
+export type HistoryMigration = (data: any) => any;
+
+export const HISTORY_MIGRATIONS: { [fromVersion: number]: HistoryMigration } = {
+  // v2 logs the load of each set
+  1: data => ({
+    ...data,
+    sessions: data.sessions.map((session: any) => ({
+      ...session,
+      sets: session.sets.map((set: any) => ({ ...set, load: null })),
+    })),
+  }),
+  // v3 keys the set's velocity loss by rep number; v2 listed it for the
+  // measured reps only, so it's worked out again from the reps
+  2: data => ({
+    ...data,
+    sessions: data.sessions.map((session: any) => ({
+      ...session,
+      sets: session.sets.map((set: any) => (set.velocity ? { ...set, velocity: summarizeVelocity(set.reps) } : set)),
+    })),
+  }),
+};
+
+// Brings stored history up to the current version, one migration at a time
+export const migrateHistory = (
+  data: any,
+  migrations: { [fromVersion: number]: HistoryMigration } = HISTORY_MIGRATIONS,
+  version: number = HISTORY_VERSION,
+): HistoryData => {
+  if (!data || data.format !== HISTORY_FORMAT || typeof data.version !== 'number') {
+    throw new Error('Not a training history file');
+  }
+  if (data.version > version) {
+    throw new Error(`History version ${data.version} is newer than supported version ${version}`);
+  }
+  let migrated = data;
+  while (migrated.version < version) {
+    const migrate = migrations[migrated.version];
+    if (!migrate) {
+      throw new Error(`No migration from history version ${migrated.version}`);
+    }
+    migrated = { ...migrate(migrated), format: HISTORY_FORMAT, version: migrated.version + 1 };
+  }
+  return migrated as HistoryData;
+};
+
+// Keeps the analysis of a rep's key frame as its FormFeedback
+export const toHistoryRep = (rep: RepAnalysis): HistoryRep => ({
+  repNumber: rep.repNumber,
+  startTime: rep.startTime,
+  endTime: rep.endTime,
+  feedback: {
+    score: rep.score,
+    items: rep.items,
+    feedback: rep.feedback,
+    errors: rep.errors,
+    details: rep.details,
+    jointAngles: rep.jointAngles,
+    breakdown: rep.breakdown,
+  },
+  tempo: rep.tempo,
+  velocity: rep.velocity,
+  barPath: rep.barPath,
+});
+
+export interface HistoryQuery {
+  movement?: string;
+  // Epoch ms, inclusive
+  from?: number;
+  to?: number;
+  minScore?: number;
+  maxScore?: number;
+  limit?: number;
+}
+
+// Whether a set matches every filter of a query
+export const matchesQuery = (set: HistorySet, query: HistoryQuery): boolean =>
+  (query.movement === undefined || set.movement === query.movement)
+  && (query.from === undefined || set.recordedAt >= query.from)
+  && (query.to === undefined || set.recordedAt <= query.to)
+  && (query.minScore === undefined || set.score >= query.minScore)
+  && (query.maxScore === undefined || set.score <= query.maxScore);
+
+// What merging sessions from elsewhere added
+export interface HistoryMergeResult {
+  sessionsAdded: number;
+  setsAdded: number;
+  // Sets the history already had
+  setsSkipped: number;
+}
+
+// Sets recorded at the same moment for the same movement are the same set,
+// whatever id they've been given
+const getSetKey = (set: HistorySet): string => `${set.movement}@${set.recordedAt}`;
+
+export interface HistoryRepositoryOptions {
+  // Under the app's documents directory
+  directory: string;
+  createId: () => string;
+}
+
+const DEFAULT_OPTIONS: HistoryRepositoryOptions = {
+  directory: 'history',
+  createId: () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+};
+
+const emptyHistory = (): HistoryData => ({ format: HISTORY_FORMAT, version: HISTORY_VERSION, sessions: [] });
+
+/**
+ * Training history kept in one JSON file, with each set's pose trace in a
+ * file of its own. The file is loaded and migrated on first use and
+ * rewritten whole on every change; writes go to a temporary file first,
+ * which loading falls back to, so a crash mid-write can't lose the history.
+ */
+export class HistoryRepository {
+  private fs: FileSystem | null;
+  private options: HistoryRepositoryOptions;
+  private data: HistoryData | null = null;
+  private loading: Promise<HistoryData> | null = null;
+  // Changes are applied one at a time, in order
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(fs: FileSystem | null = getFileSystem(), options: Partial<HistoryRepositoryOptions> = {}) {
+    this.fs = fs;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  isAvailable(): boolean {
+    return this.fs !== null;
+  }
+
+  // Sessions newest first, holding only the sets that match the query
+  async getSessions(query: HistoryQuery = {}): Promise<HistorySession[]> {
+    const data = await this.load();
+    const { limit, ...filters } = query;
+    const filtered = Object.values(filters).some(value => value !== undefined);
+    const sessions = data.sessions
+      .map(session => ({ ...session, sets: session.sets.filter(set => matchesQuery(set, query)) }))
+      // Sessions without a matching set only show up when nothing is filtered
+      .filter(session => session.sets.length > 0 || !filtered)
+      .sort((a, b) => b.startedAt - a.startedAt);
+    return limit !== undefined ? sessions.slice(0, limit) : sessions;
+  }
+
+  // Sets newest first
+  async getSets(query: HistoryQuery = {}): Promise<HistorySet[]> {
+    const data = await this.load();
+    const sets = data.sessions
+      .flatMap(session => session.sets)
+      .filter(set => matchesQuery(set, query))
+      .sort((a, b) => b.recordedAt - a.recordedAt);
+    return query.limit !== undefined ? sets.slice(0, query.limit) : sets;
+  }
+
+  async getSet(id: string): Promise<HistorySet | null> {
+    return (await this.getSets()).find(set => set.id === id) || null;
+  }
+
+  async startSession(startedAt: number = Date.now()): Promise<HistorySession> {
+    const session: HistorySession = { id: this.options.createId(), startedAt, endedAt: null, sets: [] };
+    await this.update(data => {
+      data.sessions.push(session);
+    });
+    return session;
+  }
+
+  async endSession(sessionId: string, endedAt: number = Date.now()): Promise<void> {
+    await this.update(data => {
+      this.findSession(data, sessionId).endedAt = endedAt;
+    });
+  }
+
+  async addSet(sessionId: string, record: NewHistorySet, trace?: PoseTrace | null): Promise<HistorySet> {
+    const id = this.options.createId();
+    let tracePath: string | null = null;
+    if (trace) {
+      tracePath = await this.writeTrace(id, trace);
+    }
+
+    const set: HistorySet = { ...record, id, sessionId, tracePath };
+    await this.update(data => {
+      this.findSession(data, sessionId).sets.push(set);
+    });
+    return set;
+  }
+
+  // Logs or corrects the load of a set after it was saved
+  async updateLoad(setId: string, load: SetLoad | null): Promise<HistorySet> {
+    let updated: HistorySet | null = null;
+    await this.update(data => {
+      updated = data.sessions.flatMap(session => session.sets).find(set => set.id === setId) || null;
+      if (!updated) {
+        throw new Error(`No history set ${setId}`);
+      }
+      updated.load = load;
+    });
+    return updated!;
+  }
+
+  async loadTrace(setId: string): Promise<PoseTrace | null> {
+    const set = await this.getSet(setId);
+    if (!set?.tracePath || !(await this.requireFs().exists(set.tracePath))) {
+      return null;
+    }
+    return parsePoseTrace(await this.requireFs().readFile(set.tracePath, 'utf8'));
+  }
+
+  /**
+   * Adds sessions from elsewhere, such as an imported backup. Sets the
+   * history already has are skipped, and a session it already has only
+   * gains the sets it was missing. Video paths are kept only when the file
+   * is on this device.
+   */
+  async mergeSessions(
+    sessions: HistorySession[],
+    traces: { [setId: string]: PoseTrace } = {},
+  ): Promise<HistoryMergeResult> {
+    const known = new Set<string>();
+    (await this.getSets()).forEach(set => {
+      known.add(set.id);
+      known.add(getSetKey(set));
+    });
+
+    const added = new Map<string, HistorySet>();
+    let setsSkipped = 0;
+    for (const session of sessions) {
+      for (const set of session.sets) {
+        if (known.has(set.id) || known.has(getSetKey(set))) {
+          setsSkipped += 1;
+          continue;
+        }
+        known.add(set.id);
+        known.add(getSetKey(set));
+        const videoPath = set.videoPath && (await this.requireFs().exists(set.videoPath)) ? set.videoPath : null;
+        const tracePath = traces[set.id] ? await this.writeTrace(set.id, traces[set.id]) : null;
+        added.set(set.id, { ...set, sessionId: session.id, videoPath, tracePath });
+      }
+    }
+
+    let sessionsAdded = 0;
+    await this.update(data => {
+      sessions.forEach(session => {
+        const sets = session.sets.filter(set => added.has(set.id)).map(set => added.get(set.id)!);
+        if (sets.length === 0) {
+          return;
+        }
+        const existing = data.sessions.find(candidate => candidate.id === session.id);
+        if (existing) {
+          existing.sets.push(...sets);
+        } else {
+          data.sessions.push({ ...session, sets });
+          sessionsAdded += 1;
+        }
+      });
+    });
+    return { sessionsAdded, setsAdded: added.size, setsSkipped };
+  }
+
+  // Removes a set and its trace; the video is left to the video store
+  async deleteSet(setId: string): Promise<void> {
+    let tracePath: string | null = null;
+    await this.update(data => {
+      data.sessions.forEach(session => {
+        tracePath = session.sets.find(set => set.id === setId)?.tracePath ?? tracePath;
+        session.sets = session.sets.filter(set => set.id !== setId);
+      });
+    });
+    await this.removeFile(tracePath);
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    let removed: HistorySession | undefined;
+    await this.update(data => {
+      removed = data.sessions.find(session => session.id === sessionId);
+      data.sessions = data.sessions.filter(session => session.id !== sessionId);
+    });
+    for (const set of removed?.sets || []) {
+      await this.removeFile(set.tracePath);
+    }
+  }
+
+  /**
+   * Reads and migrates the history file once. A file that can't be read is
+   * set aside rather than overwritten, and the history starts over empty.
+   * A read that fails outright is tried again on the next call.
+   */
+  load(): Promise<HistoryData> {
+    if (this.data) {
+      return Promise.resolve(this.data);
+    }
+    if (!this.loading) {
+      this.loading = this.readHistory().then(
+        data => {
+          this.data = data;
+          return data;
+        },
+        error => {
+          this.loading = null;
+          throw error;
+        },
+      );
+    }
+    return this.loading;
+  }
+
+  private async readHistory(): Promise<HistoryData> {
+    const fs = this.requireFs();
+    const path = this.getHistoryPath();
+    if (!(await fs.exists(path))) {
+      // A crash between removing the old file and moving the new one into
+      // place leaves the only copy in the temporary file
+      if (!(await fs.exists(this.getTemporaryPath()))) {
+        return emptyHistory();
+      }
+      await fs.moveFile(this.getTemporaryPath(), path);
+    }
+    const text = await fs.readFile(path, 'utf8');
+    try {
+      const stored = JSON.parse(text);
+      const data = migrateHistory(stored);
+      if (data.version !== stored.version) {
+        await this.writeHistory(data);
+      }
+      return data;
+    } catch (error) {
+      console.error('History could not be loaded:', error);
+      await fs.moveFile(path, `${this.getDirectory()}/history.unreadable-${Date.now()}.json`);
+      return emptyHistory();
+    }
+  }
+
+  private update(change: (data: HistoryData) => void): Promise<void> {
+    const write = this.writes.then(async () => {
+      // Changed on a copy, so a failed write leaves the loaded history as stored
+      const data: HistoryData = JSON.parse(JSON.stringify(await this.load()));
+      change(data);
+      await this.writeHistory(data);
+      this.data = data;
+    });
+    // A failed write mustn't block the ones after it
+    this.writes = write.catch(() => {});
+    return write;
+  }
+
+  private async writeHistory(data: HistoryData): Promise<void> {
+    const fs = this.requireFs();
+    await this.ensureDirectory(this.getDirectory());
+    const path = this.getHistoryPath();
+    await fs.writeFile(this.getTemporaryPath(), JSON.stringify(data), 'utf8');
+    if (await fs.exists(path)) {
+      await fs.unlink(path);
+    }
+    await fs.moveFile(this.getTemporaryPath(), path);
+  }
+
+  private async writeTrace(setId: string, trace: PoseTrace): Promise<string> {
+    const path = `${this.getDirectory()}/traces/${setId}.jsonl`;
+    await this.ensureDirectory(`${this.getDirectory()}/traces`);
+    await this.requireFs().writeFile(path, serializePoseTrace(trace), 'utf8');
+    return path;
+  }
+
+  private findSession(data: HistoryData, sessionId: string): HistorySession {
+    const session = data.sessions.find(candidate => candidate.id === sessionId);
+    if (!session) {
+      throw new Error(`No history session ${sessionId}`);
+    }
+    return session;
+  }
+
+  private async ensureDirectory(path: string): Promise<void> {
+    if (!(await this.requireFs().exists(path))) {
+      await this.requireFs().mkdir(path);
+    }
+  }
+
+  private async removeFile(path: string | null): Promise<void> {
+    if (path && (await this.requireFs().exists(path))) {
+      await this.requireFs().unlink(path);
+    }
+  }
+
+  private getDirectory(): string {
+    return `${this.requireFs().DocumentDirectoryPath}/${this.options.directory}`;
+  }
+
+  private getHistoryPath(): string {
+    return `${this.getDirectory()}/history.json`;
+  }
+
+  // Where a new version of the history is written before it replaces the old
+  private getTemporaryPath(): string {
+    return `${this.getHistoryPath()}.tmp`;
+  }
+
+  private requireFs(): FileSystem {
+    if (!this.fs) {
+      throw new Error('History storage is not available');
+    }
+    return this.fs;
+  }
+}
+
+export default HistoryRepository;
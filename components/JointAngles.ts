@@ -0,0 +1,139 @@
+// components/JointAngles.ts
+import { KeyPoint } from './FormAnalyzer';
+import { AngleMode, Keypoints, hasDepth, jointAngle, midpoint } from './PoseGeometry';
+import { CameraView } from './ViewClassifier';
+
+// Joint angles in degrees; null when the joints involved weren't visible
+export interface JointAngles {
+  // 3d when the keypoints carried depth, otherwise angles in the image plane
+  mode: AngleMode;
+  leftKnee: number | null;
+  rightKnee: number | null;
+  leftHip: number | null;
+  rightHip: number | null;
+  leftElbow: number | null;
+  rightElbow: number | null;
+  // Torso lean away from vertical
+  trunk: number | null;
+  // Inward drift of the knee (see measureKneeValgus); positive for valgus,
+  // negative when the knee bows out
+  leftKneeValgus: number | null;
+  rightKneeValgus: number | null;
+}
+
+type Vector = [number, number, number];
+
+// Image y grows downwards
+const UP: Vector = [0, -1, 0];
+
+// Knee offset from the hip-ankle line, in leg lengths, below which the
+// direction it has moved in is just noise
+const MIN_KNEE_BEND = 0.05;
+
+const toVector = (point: KeyPoint, mode: AngleMode): Vector => [point.x, point.y, mode === '3d' ? point.z ?? 0 : 0];
+const subtract = (a: Vector, b: Vector): Vector => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const dot = (a: Vector, b: Vector): number => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const cross = (a: Vector, b: Vector): Vector => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0],
+];
+const length = (a: Vector): number => Math.sqrt(dot(a, a));
+const scale = (a: Vector, factor: number): Vector => [a[0] * factor, a[1] * factor, a[2] * factor];
+const degreesBetween = (a: Vector, b: Vector): number =>
+  Math.acos(Math.max(-1, Math.min(1, dot(a, b) / (length(a) * length(b))))) * 180 / Math.PI;
+
+/**
+ * Angles for the keypoints of one frame. In 3D mode every angle is the true
+ * one in space and reads the same from any camera angle. In 2D mode they're
+ * measured in the image and only match the real angle for joints moving
+ * parallel to the image plane.
+ */
+export const measureJointAngles = (keypoints: Keypoints, mode: AngleMode, view: CameraView): JointAngles => {
+  const angle = (a: string, b: string, c: string) =>
+    keypoints[a] && keypoints[b] && keypoints[c] ? jointAngle(keypoints[a], keypoints[b], keypoints[c], mode) : null;
+
+  return {
+    mode,
+    leftKnee: angle('leftHip', 'leftKnee', 'leftAnkle'),
+    rightKnee: angle('rightHip', 'rightKnee', 'rightAnkle'),
+    leftHip: angle('leftShoulder', 'leftHip', 'leftKnee'),
+    rightHip: angle('rightShoulder', 'rightHip', 'rightKnee'),
+    leftElbow: angle('leftShoulder', 'leftElbow', 'leftWrist'),
+    rightElbow: angle('rightShoulder', 'rightElbow', 'rightWrist'),
+    trunk: measureTrunk(keypoints, mode),
+    // Without depth the legs' frontal plane is only the image plane from the front
+    leftKneeValgus: mode === '3d' || view === 'front' ? measureKneeValgus(keypoints, 'left', mode) : null,
+    rightKneeValgus: mode === '3d' || view === 'front' ? measureKneeValgus(keypoints, 'right', mode) : null,
+  };
+};
+
+// The mode a frame's angles can be measured in: 3d only if every keypoint it needs has depth
+export const getAngleMode = (keypoints: Keypoints, required: string[]): AngleMode =>
+  required.length > 0 && hasDepth(...required.map(name => keypoints[name])) ? '3d' : '2d';
+
+const measureTrunk = (keypoints: Keypoints, mode: AngleMode): number | null => {
+  const shoulders = midpoint(keypoints.leftShoulder, keypoints.rightShoulder);
+  const hips = midpoint(keypoints.leftHip, keypoints.rightHip);
+  if (!shoulders || !hips) {
+    return null;
+  }
+  const torso = subtract(toVector(shoulders, mode), toVector(hips, mode));
+  return length(torso) > 0 ? degreesBetween(torso, UP) : null;
+};
+
+/**
+ * How far the knee drifts inwards, in degrees. In 3D this is the direction
+ * the knee has moved away from the hip-ankle line: 0 straight ahead over the
+ * toes, positive towards the other leg. It needs a bent knee and is null for
+ * a nearly straight leg. In 2D (front view only) it's the frontal-plane
+ * projection angle: how far the knee bends out of the hip-ankle line in the
+ * image, while the hips are still above the knees.
+ */
+const measureKneeValgus = (keypoints: Keypoints, side: 'left' | 'right', mode: AngleMode): number | null => {
+  const { leftHip, rightHip } = keypoints;
+  const hip = keypoints[`${side}Hip`];
+  const knee = keypoints[`${side}Knee`];
+  const ankle = keypoints[`${side}Ankle`];
+  if (!leftHip || !rightHip || !hip || !knee || !ankle) {
+    return null;
+  }
+
+  // Points from the left hip to the right, so medial is + for the left leg
+  const hipLine = subtract(toVector(rightHip, mode), toVector(leftHip, mode));
+  if (length(hipLine) < 1e-6) {
+    return null;
+  }
+  const medial = scale(hipLine, (side === 'left' ? 1 : -1) / length(hipLine));
+
+  const hipToKnee = subtract(toVector(knee, mode), toVector(hip, mode));
+  const hipToAnkle = subtract(toVector(ankle, mode), toVector(hip, mode));
+  const legLength = length(hipToAnkle);
+  if (legLength === 0) {
+    return null;
+  }
+  // Where the knee sits off the straight line from hip to ankle
+  const offset = subtract(hipToKnee, scale(hipToAnkle, dot(hipToKnee, hipToAnkle) / (legLength * legLength)));
+
+  if (mode === '2d') {
+    // Once the hips sink below the knees the projection stops meaning anything
+    if (hipToKnee[1] <= 0) {
+      return null;
+    }
+    const thigh = scale(hipToKnee, -1);
+    const shin = subtract(hipToAnkle, hipToKnee);
+    if (length(thigh) === 0 || length(shin) === 0) {
+      return null;
+    }
+    const bend = 180 - degreesBetween(thigh, shin);
+    return dot(offset, medial) >= 0 ? bend : -bend;
+  }
+
+  if (length(offset) < MIN_KNEE_BEND * legLength) {
+    return null;
+  }
+  // Horizontal and square to the hips; knees travel forwards in every lift
+  const forward = cross(UP, hipLine);
+  const ahead = Math.abs(dot(offset, forward)) / length(forward);
+  return Math.atan2(dot(offset, medial), ahead) * 180 / Math.PI;
+};
@@ -0,0 +1,135 @@
+// components/KeypointSchema.ts
+import { KeyPoint } from './FormAnalyzer';
+import { Keypoints } from './PoseGeometry';
+
+export type KeypointSchemaName = 'coco17' | 'blazepose33';
+
+// One landmark as pose models report it, in the order of their schema
+export interface Landmark {
+  x: number;
+  y: number;
+  z?: number;
+  // BlazePose reports visibility, COCO models a per-keypoint score
+  visibility?: number;
+  score?: number;
+}
+
+export interface LandmarkFrame {
+  landmarks: Landmark[];
+  timestamp: number;
+  // Image size; needed when the landmarks are in pixels
+  frameSize?: { width: number; height: number };
+  // Whether x and y are already fractions of the image size
+  normalized: boolean;
+}
+
+// Landmark index -> analyzer keypoint name
+export const KEYPOINT_SCHEMAS: { [schema in KeypointSchemaName]: string[] } = {
+  coco17: [
+    'nose',
+    'leftEye',
+    'rightEye',
+    'leftEar',
+    'rightEar',
+    'leftShoulder',
+    'rightShoulder',
+    'leftElbow',
+    'rightElbow',
+    'leftWrist',
+    'rightWrist',
+    'leftHip',
+    'rightHip',
+    'leftKnee',
+    'rightKnee',
+    'leftAnkle',
+    'rightAnkle',
+  ],
+  blazepose33: [
+    'nose',
+    'leftEyeInner',
+    'leftEye',
+    'leftEyeOuter',
+    'rightEyeInner',
+    'rightEye',
+    'rightEyeOuter',
+    'leftEar',
+    'rightEar',
+    'mouthLeft',
+    'mouthRight',
+    'leftShoulder',
+    'rightShoulder',
+    'leftElbow',
+    'rightElbow',
+    'leftWrist',
+    'rightWrist',
+    'leftPinky',
+    'rightPinky',
+    'leftIndex',
+    'rightIndex',
+    'leftThumb',
+    'rightThumb',
+    'leftHip',
+    'rightHip',
+    'leftKnee',
+    'rightKnee',
+    'leftAnkle',
+    'rightAnkle',
+    'leftHeel',
+    'rightHeel',
+    'leftFootIndex',
+    'rightFootIndex',
+  ],
+};
+
+/**
+ * Names the landmarks of one frame with the analyzer's keypoint names and
+ * normalizes them to the image size. Depth is scaled by the image width, the
+ * same convention BlazePose uses for its normalized z.
+ */
+export const mapLandmarks = (schema: KeypointSchemaName, frame: LandmarkFrame): Keypoints => {
+  const names = KEYPOINT_SCHEMAS[schema];
+  if (frame.landmarks.length !== names.length) {
+    throw new Error(`Expected ${names.length} ${schema} landmarks, got ${frame.landmarks.length}`);
+  }
+  if (!frame.normalized && !frame.frameSize) {
+    throw new Error('Pixel landmarks need the frame size to be normalized');
+  }
+
+  const width = frame.normalized ? 1 : frame.frameSize!.width;
+  const height = frame.normalized ? 1 : frame.frameSize!.height;
+  const keypoints: Keypoints = {};
+  frame.landmarks.forEach((landmark, index) => {
+    const visibility = landmark.visibility ?? landmark.score;
+    // Zero means the model didn't locate the point at all
+    if (visibility === 0) {
+      return;
+    }
+    const point: KeyPoint = { x: landmark.x / width, y: landmark.y / height };
+    if (landmark.z !== undefined) {
+      point.z = landmark.z / width;
+    }
+    if (visibility !== undefined) {
+      point.visibility = visibility;
+    }
+    keypoints[names[index]] = point;
+  });
+  return keypoints;
+};
+
+/**
+ * The reverse of mapLandmarks for normalized landmarks: lays named keypoints
+ * out in schema order. Keypoints the pose doesn't have come out with zero
+ * visibility, which mapLandmarks leaves out again.
+ */
+export const toLandmarks = (schema: KeypointSchemaName, keypoints: Keypoints): Landmark[] =>
+  KEYPOINT_SCHEMAS[schema].map(name => {
+    const point = keypoints[name];
+    if (!point) {
+      return { x: 0, y: 0, visibility: 0 };
+    }
+    const landmark: Landmark = { x: point.x, y: point.y, visibility: point.visibility ?? 1 };
+    if (point.z !== undefined) {
+      landmark.z = point.z;
+    }
+    return landmark;
+  });
@@ -0,0 +1,196 @@
+// components/LoadLogger.tsx
+import React, { useState } from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { t } from '../i18n';
+import {
+  LoadUnit,
+  ONE_REP_MAX_FORMULAS,
+  OneRepMaxFormulaId,
+  RPE_VALUES,
+  SetLoad,
+  estimateOneRepMax,
+} from './StrengthMetrics';
+
+interface LoadLoggerProps {
+  value: SetLoad | null;
+  // Reps the analysis counted, logged until the lifter corrects them
+  analyzedReps: number;
+  // Unit for a load logged from scratch
+  unit: LoadUnit;
+  formula: OneRepMaxFormulaId;
+  onChange: (load: SetLoad | null) => void;
+  onFormulaChange: (formula: OneRepMaxFormulaId) => void;
+}
+
+const formatLoad = (load: number): string => `${Math.round(load * 10) / 10}`;
+
+/**
+ * Logs the load, reps and RPE of an analyzed set and shows the one-rep max
+ * they estimate. Typed values are logged when editing ends, so the history
+ * isn't rewritten on every keystroke.
+ */
+const LoadLogger: React.FC<LoadLoggerProps> = ({ value, analyzedReps, unit, formula, onChange, onFormulaChange }) => {
+  const [loadText, setLoadText] = useState(value ? formatLoad(value.load) : '');
+  const [repsText, setRepsText] = useState(String(value ? value.reps : analyzedReps));
+  const [rpe, setRpe] = useState<number | null>(value ? value.rpe : null);
+
+  const log = (changes: { loadText?: string; repsText?: string; rpe?: number | null }) => {
+    const load = parseFloat(changes.loadText ?? loadText);
+    const reps = parseInt(changes.repsText ?? repsText, 10);
+    if (!(load > 0)) {
+      onChange(null);
+      return;
+    }
+    onChange({
+      load,
+      unit: value ? value.unit : unit,
+      reps: reps >= 0 ? reps : analyzedReps,
+      rpe: changes.rpe !== undefined ? changes.rpe : rpe,
+    });
+  };
+
+  const selectRpe = (selected: number) => {
+    // Tapping the logged RPE again clears it
+    const next = selected === rpe ? null : selected;
+    setRpe(next);
+    log({ rpe: next });
+  };
+
+  const oneRepMax = value ? estimateOneRepMax(value, formula) : null;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>{t('load.title')}</Text>
+      <View style={styles.fields}>
+        <View style={styles.field}>
+          <Text style={styles.label}>{t('load.load', { unit: value ? value.unit : unit })}</Text>
+          <TextInput
+            style={styles.input}
+            value={loadText}
+            onChangeText={setLoadText}
+            onEndEditing={() => log({})}
+            keyboardType="numeric"
+            placeholder={t('app.optional')}
+            placeholderTextColor="#71717a"
+            maxLength={6}
+          />
+        </View>
+        <View style={styles.field}>
+          <Text style={styles.label}>{t('load.reps')}</Text>
+          <TextInput
+            style={styles.input}
+            value={repsText}
+            onChangeText={setRepsText}
+            onEndEditing={() => log({})}
+            keyboardType="numeric"
+            maxLength={3}
+          />
+        </View>
+      </View>
+
+      <Text style={styles.label}>{t('load.rpe')}</Text>
+      <View style={styles.chips}>
+        {RPE_VALUES.map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.chip, rpe === option && styles.chipSelected]}
+            onPress={() => selectRpe(option)}
+          >
+            <Text style={styles.chipText}>{option}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {value && (
+        <>
+          <Text style={styles.estimate}>
+            {oneRepMax !== null
+              ? t('load.oneRepMax', {
+                value: formatLoad(oneRepMax),
+                unit: value.unit,
+                percent: Math.round(value.load / oneRepMax * 100),
+              })
+              : t('load.noEstimate')}
+          </Text>
+          <View style={styles.chips}>
+            {ONE_REP_MAX_FORMULAS.map(option => (
+              <TouchableOpacity
+                key={option.id}
+                style={[styles.chip, formula === option.id && styles.chipSelected]}
+                onPress={() => onFormulaChange(option.id)}
+              >
+                <Text style={styles.chipText}>{option.name}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 20,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fafafa',
+    marginBottom: 12,
+  },
+  fields: {
+    flexDirection: 'row',
+    marginBottom: 12,
+  },
+  field: {
+    flex: 1,
+    marginRight: 8,
+  },
+  label: {
+    color: '#a1a1aa',
+    fontSize: 12,
+    marginBottom: 4,
+  },
+  input: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#18181b',
+    borderWidth: 1,
+    borderColor: '#3f3f46',
+    color: '#fafafa',
+    textAlign: 'right',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 4,
+  },
+  chip: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    marginRight: 6,
+    marginBottom: 6,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#3f3f46',
+  },
+  chipSelected: {
+    backgroundColor: '#3b82f6',
+    borderColor: '#3b82f6',
+  },
+  chipText: {
+    color: '#fafafa',
+    fontSize: 12,
+  },
+  estimate: {
+    color: '#fafafa',
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+});
+
+export default LoadLogger;
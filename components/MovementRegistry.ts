@@ -0,0 +1,326 @@
+// components/MovementRegistry.ts
+import { BarPathDefinition } from './BarPath';
+import { Segment } from './Calibration';
+import { AngleMode, Keypoints, distance, distanceIn, jointAngle, midpoint } from './PoseGeometry';
+import { RepPhaseDefinition } from './RepTracker';
+import { CameraView } from './ViewClassifier';
+
+export interface RuleThreshold {
+  // Stable identifier for this fault, e.g. SQUAT_KNEE_VALGUS
+  code: string;
+  // Reading past which this level applies
+  limit: number;
+  penalty: number;
+  // English cue; i18n/en.ts builds feedback.<code> from it, so edit it here
+  message: string;
+  // Errors are faults to fix; feedback is a softer coaching note
+  kind: 'error' | 'feedback';
+}
+
+export interface MovementRule {
+  // Also the key the reading is reported under in FormFeedback.details
+  id: string;
+  // Prefix for the codes of this rule's feedback; passing it reports <code>_OK
+  code: string;
+  // English name; the catalog's rule.<id>
+  label: string;
+  // Keypoints the rule looks at, so a fault can be pointed out on the body
+  bodyParts: string[];
+  // Camera views the metric can be measured from; all views when omitted
+  views?: CameraView[];
+  // With depth the metric reads the same from any camera angle, so `views`
+  // only applies to frames measured in 2D
+  anyViewWithDepth?: boolean;
+  // Returns null when the keypoints needed for this check aren't available.
+  // Angles and distances should be measured in the given mode, which is 3d
+  // when every required keypoint carries depth.
+  metric: (keypoints: Keypoints, mode: AngleMode) => number | null;
+  // Body segment the raw reading is divided by, making the thresholds
+  // independent of how close the athlete stands to the camera
+  normalizeBy?: Segment;
+  // Whether readings above or below the thresholds count as faults
+  faultWhen: 'above' | 'below';
+  // Most severe first; the first one crossed is applied
+  thresholds: RuleThreshold[];
+  // English cue for passing the check, the catalog's feedback.<code>_OK;
+  // rules without one report nothing when they pass
+  passMessage?: string;
+}
+
+/**
+ * The text fields are the English copy. Screens never show them directly:
+ * i18n/en.ts collects them into the English catalog under movement.<id>.*,
+ * and every locale is read through t().
+ */
+export interface MovementDefinition {
+  id: string;
+  name: string;
+  icon: string;
+  description: string;
+  requiredKeypoints: string[];
+  cameraGuidance: string;
+  // Shown instead of a score when a required keypoint is missing
+  incompletePoseMessage: string;
+  rules: MovementRule[];
+  repPhases: RepPhaseDefinition;
+  barPath?: BarPathDefinition;
+}
+
+const squat: MovementDefinition = {
+  id: 'squat',
+  name: 'Squat',
+  icon: '🏋️',
+  description: 'Analyze squat depth, knee tracking, and posture',
+  requiredKeypoints: ['leftHip', 'rightHip', 'leftKnee', 'rightKnee', 'leftAnkle', 'rightAnkle'],
+  cameraGuidance: 'Film from the side to check depth and posture, or from the front to check knee tracking. Ensure you can see from head to feet.',
+  incompletePoseMessage: 'Position yourself so your full body is visible',
+  rules: [
+    {
+      id: 'depth',
+      code: 'SQUAT_DEPTH',
+      label: 'Depth',
+      bodyParts: ['leftHip', 'rightHip', 'leftKnee', 'rightKnee'],
+      // How far the hips sit below the knees, in shin heights; 0 is parallel
+      // and standing tall reads about -1. The rep is scored at the bottom, so
+      // a deeper squat reads higher; the shin keeps it independent of distance
+      metric: kp => {
+        const hipHeight = (kp.leftHip.y + kp.rightHip.y) / 2;
+        const kneeHeight = (kp.leftKnee.y + kp.rightKnee.y) / 2;
+        const shinHeight = Math.abs((kp.leftAnkle.y + kp.rightAnkle.y) / 2 - kneeHeight);
+        return shinHeight > 0 ? (hipHeight - kneeHeight) / shinHeight : null;
+      },
+      faultWhen: 'below',
+      thresholds: [
+        { code: 'SQUAT_DEPTH_SHALLOW', limit: 0.1, penalty: 25, kind: 'error', message: 'Squat deeper - hips need to go below knee level' },
+        { code: 'SQUAT_DEPTH_NEAR_PARALLEL', limit: 0.3, penalty: 5, kind: 'feedback', message: 'Good depth! Try to go slightly deeper' },
+      ],
+      passMessage: 'Excellent depth!',
+    },
+    {
+      // Knee valgus (knee cave): knees narrower than hips
+      id: 'kneeTracking',
+      code: 'SQUAT_KNEE_TRACKING',
+      label: 'Knee tracking',
+      bodyParts: ['leftKnee', 'rightKnee'],
+      views: ['front'],
+      anyViewWithDepth: true,
+      // Seen from the front this is the knees' width over the hips'; in 3D
+      // the real distances give the same ratio from any side
+      metric: (kp, mode) => (mode === '3d'
+        ? distanceIn(kp.leftKnee, kp.rightKnee, mode)! / distanceIn(kp.leftHip, kp.rightHip, mode)!
+        : Math.abs(kp.rightKnee.x - kp.leftKnee.x) / Math.abs(kp.rightHip.x - kp.leftHip.x)),
+      faultWhen: 'below',
+      thresholds: [
+        { code: 'SQUAT_KNEE_VALGUS', limit: 0.7, penalty: 30, kind: 'error', message: 'Knees caving in - push knees out over toes' },
+        { code: 'SQUAT_KNEE_VALGUS_MILD', limit: 0.85, penalty: 10, kind: 'feedback', message: 'Watch knee alignment - keep them tracking over toes' },
+      ],
+      passMessage: 'Great knee tracking!',
+    },
+    {
+      id: 'forwardLean',
+      code: 'SQUAT_FORWARD_LEAN',
+      label: 'Forward lean',
+      bodyParts: ['leftShoulder', 'rightShoulder', 'leftHip', 'rightHip'],
+      views: ['side', 'oblique'],
+      metric: kp => {
+        const shoulderCenter = midpoint(kp.leftShoulder, kp.rightShoulder);
+        const hipCenter = midpoint(kp.leftHip, kp.rightHip);
+        return shoulderCenter && hipCenter ? Math.abs(shoulderCenter.x - hipCenter.x) : null;
+      },
+      normalizeBy: 'torso',
+      faultWhen: 'above',
+      thresholds: [
+        { code: 'SQUAT_FORWARD_LEAN_EXCESSIVE', limit: 0.4, penalty: 20, kind: 'error', message: 'Too much forward lean - keep chest up' },
+        { code: 'SQUAT_FORWARD_LEAN_MILD', limit: 0.2, penalty: 5, kind: 'feedback', message: 'Slight forward lean - focus on keeping chest up' },
+      ],
+      passMessage: 'Good upright posture!',
+    },
+    {
+      id: 'symmetry',
+      code: 'SQUAT_SYMMETRY',
+      label: 'Symmetry',
+      bodyParts: ['leftHip', 'rightHip', 'leftKnee', 'rightKnee'],
+      views: ['front'],
+      metric: (kp, mode) => {
+        const left = distanceIn(kp.leftHip, kp.leftKnee, mode)!;
+        const right = distanceIn(kp.rightHip, kp.rightKnee, mode)!;
+        return Math.abs(left - right) / Math.max(left, right);
+      },
+      faultWhen: 'above',
+      thresholds: [
+        { code: 'SQUAT_ASYMMETRY', limit: 0.15, penalty: 15, kind: 'error', message: 'Uneven squat - check your stance and balance' },
+      ],
+    },
+  ],
+  repPhases: {
+    signal: kp => midpoint(kp.leftHip, kp.rightHip)?.y ?? null,
+    reference: kp => distance(midpoint(kp.leftHip, kp.rightHip), midpoint(kp.leftAnkle, kp.rightAnkle)),
+    startPosition: 'top',
+    turnaroundPhase: 'bottom',
+    minRangeOfMotion: 0.25,
+  },
+  barPath: {
+    normalizeBy: 'torso',
+  },
+};
+
+const bench: MovementDefinition = {
+  id: 'bench',
+  name: 'Bench Press',
+  icon: '💪',
+  description: 'Check bar path, elbow position, and symmetry',
+  requiredKeypoints: ['leftShoulder', 'rightShoulder', 'leftElbow', 'rightElbow', 'leftWrist', 'rightWrist'],
+  cameraGuidance: 'Position camera to show upper body and bar path. Side angle preferred.',
+  incompletePoseMessage: 'Position camera to show your upper body clearly',
+  rules: [
+    {
+      id: 'elbowAngle',
+      code: 'BENCH_ELBOW',
+      label: 'Elbow flare',
+      bodyParts: ['leftElbow', 'rightElbow'],
+      metric: (kp, mode) => (
+        jointAngle(kp.leftShoulder, kp.leftElbow, kp.leftWrist, mode) +
+        jointAngle(kp.rightShoulder, kp.rightElbow, kp.rightWrist, mode)
+      ) / 2,
+      faultWhen: 'above',
+      thresholds: [
+        { code: 'BENCH_ELBOW_FLARE', limit: 100, penalty: 25, kind: 'error', message: 'Elbows too flared - bring them closer to your body' },
+        { code: 'BENCH_ELBOW_FLARE_MILD', limit: 85, penalty: 10, kind: 'feedback', message: 'Slight elbow flare - try to keep elbows at 45-degree angle' },
+      ],
+      passMessage: 'Good elbow position!',
+    },
+    {
+      // Bar position approximated by the wrist midpoint
+      id: 'barPath',
+      code: 'BENCH_BAR_PATH',
+      label: 'Bar path',
+      bodyParts: ['leftWrist', 'rightWrist'],
+      views: ['side'],
+      metric: kp => Math.abs(
+        midpoint(kp.leftWrist, kp.rightWrist)!.x - midpoint(kp.leftShoulder, kp.rightShoulder)!.x,
+      ),
+      normalizeBy: 'upperArm',
+      faultWhen: 'above',
+      thresholds: [
+        { code: 'BENCH_BAR_DRIFT', limit: 0.5, penalty: 20, kind: 'error', message: 'Bar drifting - keep it over your shoulders' },
+        { code: 'BENCH_BAR_DRIFT_MILD', limit: 0.25, penalty: 5, kind: 'feedback', message: 'Minor bar drift - focus on straight up and down' },
+      ],
+      passMessage: 'Great bar path!',
+    },
+    {
+      id: 'symmetry',
+      code: 'BENCH_SYMMETRY',
+      label: 'Symmetry',
+      bodyParts: ['leftWrist', 'rightWrist', 'leftShoulder', 'rightShoulder'],
+      views: ['front'],
+      metric: (kp, mode) => {
+        const left = distanceIn(kp.leftWrist, kp.leftShoulder, mode)!;
+        const right = distanceIn(kp.rightWrist, kp.rightShoulder, mode)!;
+        return Math.abs(left - right) / Math.max(left, right);
+      },
+      faultWhen: 'above',
+      thresholds: [
+        { code: 'BENCH_ASYMMETRY', limit: 0.1, penalty: 15, kind: 'error', message: 'Uneven press - check your grip and shoulder position' },
+      ],
+    },
+  ],
+  repPhases: {
+    signal: kp => midpoint(kp.leftWrist, kp.rightWrist)?.y ?? null,
+    reference: kp => distance(midpoint(kp.leftShoulder, kp.rightShoulder), midpoint(kp.leftWrist, kp.rightWrist)),
+    startPosition: 'top',
+    turnaroundPhase: 'chest',
+    minRangeOfMotion: 0.3,
+  },
+  barPath: {
+    normalizeBy: 'upperArm',
+    measureJCurve: true,
+  },
+};
+
+const deadlift: MovementDefinition = {
+  id: 'deadlift',
+  name: 'Deadlift',
+  icon: '⚡',
+  description: 'Evaluate hip hinge, back position, and bar path',
+  // The back check also reads the nose, but the face is often lost at the
+  // bottom of the pull; only that check is skipped then
+  requiredKeypoints: ['leftShoulder', 'rightShoulder', 'leftHip', 'rightHip', 'leftKnee', 'rightKnee'],
+  cameraGuidance: 'Position camera to show full body from the side. Capture entire lift movement.',
+  incompletePoseMessage: 'Position yourself so your full body is visible from the side',
+  rules: [
+    {
+      id: 'backAngle',
+      code: 'DEADLIFT_BACK',
+      label: 'Back angle',
+      bodyParts: ['leftShoulder', 'rightShoulder', 'nose'],
+      views: ['side'],
+      anyViewWithDepth: true,
+      // A rounded upper back drops the head below the line of the torso, so
+      // rounding shows as a bend between hip-shoulder and shoulder-nose.
+      // Reading the torso's own angle instead would flag every setup position.
+      metric: (kp, mode) => {
+        const shoulderCenter = midpoint(kp.leftShoulder, kp.rightShoulder)!;
+        const hipCenter = midpoint(kp.leftHip, kp.rightHip)!;
+        if (!kp.nose) {
+          return null;
+        }
+        return 180 - jointAngle(hipCenter, shoulderCenter, kp.nose, mode);
+      },
+      faultWhen: 'above',
+      thresholds: [
+        { code: 'DEADLIFT_BACK_ROUNDING', limit: 30, penalty: 30, kind: 'error', message: 'Back rounding detected - keep your back straight' },
+        { code: 'DEADLIFT_BACK_ROUNDING_MILD', limit: 15, penalty: 10, kind: 'feedback', message: 'Slight back rounding - focus on neutral spine' },
+      ],
+      passMessage: 'Good back position!',
+    },
+    {
+      id: 'hipHinge',
+      code: 'DEADLIFT_HIP_HINGE',
+      label: 'Hip hinge',
+      bodyParts: ['leftHip', 'rightHip'],
+      views: ['side', 'oblique'],
+      metric: kp => distance(midpoint(kp.leftHip, kp.rightHip), midpoint(kp.leftKnee, kp.rightKnee)),
+      normalizeBy: 'femur',
+      faultWhen: 'below',
+      thresholds: [
+        { code: 'DEADLIFT_HIP_HINGE_SHALLOW', limit: 0.5, penalty: 25, kind: 'error', message: 'Not enough hip hinge - push your hips back' },
+        { code: 'DEADLIFT_HIP_HINGE_LIMITED', limit: 0.75, penalty: 5, kind: 'feedback', message: 'Good hip hinge, try to push hips back slightly more' },
+      ],
+      passMessage: 'Excellent hip hinge pattern!',
+    },
+    {
+      id: 'kneePosition',
+      code: 'DEADLIFT_KNEE_POSITION',
+      label: 'Knee position',
+      bodyParts: ['leftKnee', 'rightKnee'],
+      views: ['side'],
+      metric: kp => {
+        const kneeCenter = midpoint(kp.leftKnee, kp.rightKnee)!;
+        const ankleCenter = midpoint(kp.leftAnkle, kp.rightAnkle);
+        return ankleCenter ? Math.abs(kneeCenter.x - ankleCenter.x) : null;
+      },
+      normalizeBy: 'shin',
+      faultWhen: 'above',
+      thresholds: [
+        { code: 'DEADLIFT_KNEES_FORWARD', limit: 0.4, penalty: 15, kind: 'error', message: 'Knees too far forward - keep shins more vertical' },
+      ],
+    },
+  ],
+  repPhases: {
+    signal: kp => midpoint(kp.leftHip, kp.rightHip)?.y ?? null,
+    reference: kp => distance(midpoint(kp.leftHip, kp.rightHip), midpoint(kp.leftKnee, kp.rightKnee)),
+    startPosition: 'bottom',
+    turnaroundPhase: 'lockout',
+    minRangeOfMotion: 0.35,
+  },
+  barPath: {
+    normalizeBy: 'femur',
+    measureBarToBody: true,
+  },
+};
+
+// Order here is the order shown in the movement picker
+export const MOVEMENTS: MovementDefinition[] = [squat, bench, deadlift];
+
+export const getMovement = (id: string): MovementDefinition | undefined =>
+  MOVEMENTS.find(movement => movement.id === id);
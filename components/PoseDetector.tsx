@@ -1,14 +1,213 @@
+// components/PoseDetector.tsx
+import React, { useState } from 'react';
+import { LayoutChangeEvent, StyleSheet, View } from 'react-native';
+import { FeedbackItem, KeyPoint, PoseData } from './FormAnalyzer';
 
-// components/PoseDetector.tsx - Placeholder
-import React from 'react';
-import { View } from 'react-native';
+export interface PreviewLayout {
+  width: number;
+  height: number;
+  // Pixel size of the camera image; the preview's own size when unknown
+  frameWidth: number;
+  frameHeight: number;
+  // 'cover' crops the image to fill the preview (the camera default),
+  // 'contain' letterboxes it
+  resizeMode: 'cover' | 'contain';
+  // Front cameras show a mirrored preview
+  mirrored?: boolean;
+}
+
+export interface PreviewPoint {
+  x: number;
+  y: number;
+}
+
+// Vision Camera's frame orientation: how the buffer is turned from upright
+export type FrameOrientation = 'portrait' | 'portrait-upside-down' | 'landscape-left' | 'landscape-right';
+
+/**
+ * Size of a camera frame once turned upright. Buffers arrive in the
+ * sensor's orientation, usually landscape, while the landmarks and the
+ * preview are upright, so a quarter-turned frame swaps width and height.
+ */
+export const getUprightFrameSize = (
+  size: { width: number; height: number },
+  orientation?: FrameOrientation,
+): { width: number; height: number } =>
+  (orientation === 'landscape-left' || orientation === 'landscape-right'
+    ? { width: size.height, height: size.width }
+    : size);
+
+/**
+ * Maps a keypoint normalized to the camera image onto the preview showing
+ * that image, allowing for the crop or letterbox the preview applies.
+ */
+export const mapToPreview = (point: KeyPoint, layout: PreviewLayout): PreviewPoint => {
+  const { width, height, frameWidth, frameHeight } = layout;
+  const pick = layout.resizeMode === 'cover' ? Math.max : Math.min;
+  const scale = pick(width / frameWidth, height / frameHeight);
+  const offsetX = (width - frameWidth * scale) / 2;
+  const offsetY = (height - frameHeight * scale) / 2;
+  const x = offsetX + point.x * frameWidth * scale;
+  return {
+    x: layout.mirrored ? width - x : x,
+    y: offsetY + point.y * frameHeight * scale,
+  };
+};
+
+export const SKELETON_BONES: [string, string][] = [
+  ['leftShoulder', 'rightShoulder'],
+  ['leftShoulder', 'leftElbow'],
+  ['leftElbow', 'leftWrist'],
+  ['rightShoulder', 'rightElbow'],
+  ['rightElbow', 'rightWrist'],
+  ['leftShoulder', 'leftHip'],
+  ['rightShoulder', 'rightHip'],
+  ['leftHip', 'rightHip'],
+  ['leftHip', 'leftKnee'],
+  ['leftKnee', 'leftAnkle'],
+  ['rightHip', 'rightKnee'],
+  ['rightKnee', 'rightAnkle'],
+];
+
+// Keypoints below this visibility are drawn faded, matching PosePreprocessor
+const MIN_VISIBILITY = 0.5;
+const JOINT_SIZE = 12;
+const BONE_WIDTH = 3;
+
+const COLORS = {
+  joint: '#ffffff',
+  bone: 'rgba(255, 255, 255, 0.7)',
+  error: '#ef4444',
+  warning: '#f59e0b',
+};
+
+type FaultSeverity = 'error' | 'warning';
+
+// Worst fault severity per body part; errors outrank warnings
+const getFaultedJoints = (faults: FeedbackItem[]): { [joint: string]: FaultSeverity } => {
+  const joints: { [joint: string]: FaultSeverity } = {};
+  faults.forEach(item => {
+    if (item.severity !== 'error' && item.severity !== 'warning') {
+      return;
+    }
+    item.bodyParts.forEach(part => {
+      if (joints[part] !== 'error') {
+        joints[part] = item.severity as FaultSeverity;
+      }
+    });
+  });
+  return joints;
+};
+
+const isFaded = (point: KeyPoint) => (point.visibility ?? 1) < MIN_VISIBILITY || !!point.interpolated;
 
 interface PoseDetectorProps {
-  // Props will be added when we implement camera integration
+  pose: PoseData | null;
+  // Feedback for the same frame; joints named by its faults are colour-coded
+  faults?: FeedbackItem[];
+  resizeMode?: PreviewLayout['resizeMode'];
+  mirrored?: boolean;
 }
 
-const PoseDetector: React.FC<PoseDetectorProps> = () => {
-  return <View />;
+/**
+ * Skeleton overlay for the camera preview. Lay it over the preview with the
+ * same bounds; it measures itself and never takes touches.
+ */
+const PoseDetector: React.FC<PoseDetectorProps> = ({
+  pose,
+  faults = [],
+  resizeMode = 'cover',
+  mirrored = false,
+}) => {
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setSize({ width, height });
+  };
+
+  const renderSkeleton = () => {
+    if (!pose || !size || size.width === 0 || size.height === 0) {
+      return null;
+    }
+    const layout: PreviewLayout = {
+      ...size,
+      frameWidth: pose.frameSize?.width || size.width,
+      frameHeight: pose.frameSize?.height || size.height,
+      resizeMode,
+      mirrored,
+    };
+    const keypoints = pose.keypoints || {};
+    const faulted = getFaultedJoints(faults);
+
+    const bones = SKELETON_BONES
+      .filter(([from, to]) => keypoints[from] && keypoints[to])
+      .map(([from, to]) => {
+        const a = mapToPreview(keypoints[from], layout);
+        const b = mapToPreview(keypoints[to], layout);
+        const length = Math.sqrt((b.x - a.x) ** 2 + (b.y - a.y) ** 2);
+        const angle = Math.atan2(b.y - a.y, b.x - a.x) * 180 / Math.PI;
+        const faded = isFaded(keypoints[from]) || isFaded(keypoints[to]);
+        // A view rotates about its centre, so centre it on the bone's midpoint
+        return (
+          <View
+            key={`${from}-${to}`}
+            style={[styles.bone, {
+              left: (a.x + b.x) / 2 - length / 2,
+              top: (a.y + b.y) / 2 - BONE_WIDTH / 2,
+              width: length,
+              transform: [{ rotate: `${angle}deg` }],
+            }, faded && styles.faded]}
+          />
+        );
+      });
+
+    const joints = Object.keys(keypoints).map(name => {
+      const point = mapToPreview(keypoints[name], layout);
+      const severity = faulted[name];
+      return (
+        <View
+          key={name}
+          style={[styles.joint, {
+            left: point.x - JOINT_SIZE / 2,
+            top: point.y - JOINT_SIZE / 2,
+            backgroundColor: severity ? COLORS[severity] : COLORS.joint,
+          }, severity && styles.jointFaulted, isFaded(keypoints[name]) && styles.faded]}
+        />
+      );
+    });
+
+    return [...bones, ...joints];
+  };
+
+  return (
+    <View style={StyleSheet.absoluteFill} pointerEvents="none" onLayout={handleLayout}>
+      {renderSkeleton()}
+    </View>
+  );
 };
 
+const styles = StyleSheet.create({
+  bone: {
+    position: 'absolute',
+    height: BONE_WIDTH,
+    borderRadius: BONE_WIDTH / 2,
+    backgroundColor: COLORS.bone,
+  },
+  joint: {
+    position: 'absolute',
+    width: JOINT_SIZE,
+    height: JOINT_SIZE,
+    borderRadius: JOINT_SIZE / 2,
+    borderWidth: 2,
+    borderColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  jointFaulted: {
+    transform: [{ scale: 1.5 }],
+  },
+  faded: {
+    opacity: 0.3,
+  },
+});
+
 export default PoseDetector;
@@ -0,0 +1,211 @@
+// components/PoseEstimator.ts
+import type { FrameProcessorPlugin } from 'react-native-vision-camera';
+import { PoseData } from './FormAnalyzer';
+import { KeypointSchemaName, Landmark, LandmarkFrame, mapLandmarks, toLandmarks } from './KeypointSchema';
+import { SyntheticMovement, SyntheticSetOptions, generateSyntheticSet } from './SyntheticPose';
+
+export type PoseListener = (poseData: PoseData) => void;
+
+/**
+ * A source of PoseData. Every backend reports keypoints under the analyzer's
+ * names, so swapping models never touches FormAnalyzer.
+ */
+export interface PoseEstimator {
+  readonly name: string;
+  readonly schema: KeypointSchemaName;
+  start(onPose: PoseListener): void;
+  stop(): void;
+  isRunning(): boolean;
+}
+
+/**
+ * Base for estimators whose model reports landmarks by index: maps each
+ * frame through the model's keypoint schema before passing it on.
+ */
+export abstract class LandmarkPoseEstimator implements PoseEstimator {
+  abstract readonly name: string;
+  readonly schema: KeypointSchemaName;
+  private listener: PoseListener | null = null;
+
+  constructor(schema: KeypointSchemaName) {
+    this.schema = schema;
+  }
+
+  start(onPose: PoseListener): void {
+    this.listener = onPose;
+  }
+
+  stop(): void {
+    this.listener = null;
+  }
+
+  isRunning(): boolean {
+    return this.listener !== null;
+  }
+
+  protected emit(frame: LandmarkFrame): void {
+    if (!this.listener) {
+      return;
+    }
+    const poseData: PoseData = {
+      keypoints: mapLandmarks(this.schema, frame),
+      timestamp: frame.timestamp,
+    };
+    if (frame.frameSize) {
+      poseData.frameSize = frame.frameSize;
+    }
+    this.listener(poseData);
+  }
+}
+
+export interface VisionCameraPoseEstimatorOptions {
+  // Name the native plugin registered itself under
+  pluginName: string;
+  schema: KeypointSchemaName;
+  // Whether the plugin reports fractions of the frame size rather than pixels
+  normalized: boolean;
+  pluginOptions?: { [key: string]: string | number | boolean };
+}
+
+const DEFAULT_VISION_CAMERA_OPTIONS: VisionCameraPoseEstimatorOptions = {
+  pluginName: 'detectPose',
+  schema: 'blazepose33',
+  normalized: false,
+};
+
+/**
+ * Runs a native pose model as a Vision Camera frame-processor plugin. The
+ * plugin is called from the frame-processor worklet, which hands its
+ * landmarks back to handleResult on the JS thread.
+ */
+export class VisionCameraPoseEstimator extends LandmarkPoseEstimator {
+  readonly name = 'vision-camera';
+  private options: VisionCameraPoseEstimatorOptions;
+  private plugin: FrameProcessorPlugin | null | undefined;
+
+  constructor(options: Partial<VisionCameraPoseEstimatorOptions> = {}) {
+    const settings = { ...DEFAULT_VISION_CAMERA_OPTIONS, ...options };
+    super(settings.schema);
+    this.options = settings;
+  }
+
+  // The native plugin, or null when it isn't installed in this build
+  getPlugin(): FrameProcessorPlugin | null {
+    if (this.plugin === undefined) {
+      try {
+        const { VisionCameraProxy } = require('react-native-vision-camera');
+        this.plugin = VisionCameraProxy.initFrameProcessorPlugin(
+          this.options.pluginName,
+          this.options.pluginOptions,
+        ) || null;
+      } catch (error) {
+        console.log('Pose plugin not available:', error);
+        this.plugin = null;
+      }
+    }
+    return this.plugin || null;
+  }
+
+  // Landmarks the plugin found in one frame; null when nobody was in it
+  handleResult(
+    landmarks: Landmark[] | null,
+    frameSize: { width: number; height: number },
+    timestamp: number,
+  ): void {
+    if (!landmarks || landmarks.length === 0) {
+      return;
+    }
+    this.emit({ landmarks, frameSize, timestamp, normalized: this.options.normalized });
+  }
+}
+
+export interface MockPoseEstimatorOptions extends Partial<SyntheticSetOptions> {
+  // Schema the generated landmarks are laid out in, to exercise the mapping
+  schema: KeypointSchemaName;
+  // Start the set over when it ends instead of stopping
+  loop: boolean;
+}
+
+/**
+ * Plays a generated set as if a model were detecting it: the same frames,
+ * at the same times, on every run.
+ */
+export class MockPoseEstimator extends LandmarkPoseEstimator {
+  readonly name = 'mock';
+  private frames: LandmarkFrame[];
+  private loop: boolean;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private index = 0;
+  // Added to timestamps on each pass through a looping set
+  private offset = 0;
+
+  constructor(movement: SyntheticMovement, options: Partial<MockPoseEstimatorOptions> = {}) {
+    const { schema = 'blazepose33', loop = false, ...setOptions } = options;
+    super(schema);
+    this.loop = loop;
+    this.frames = generateSyntheticSet(movement, setOptions).map(poseData => ({
+      landmarks: toLandmarks(schema, poseData.keypoints),
+      timestamp: poseData.timestamp,
+      normalized: true,
+    }));
+  }
+
+  start(onPose: PoseListener, onEnd?: () => void): void {
+    this.stop();
+    super.start(onPose);
+    this.index = 0;
+    this.offset = 0;
+
+    const next = () => {
+      const emitted = this.step();
+      if (emitted === null) {
+        this.stop();
+        onEnd?.();
+        return;
+      }
+      const following = this.getNextTimestamp();
+      this.timer = setTimeout(next, following === null ? 0 : Math.max(0, following - emitted));
+    };
+    next();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    super.stop();
+  }
+
+  /**
+   * Emits the next frame straight away and returns its timestamp; null once
+   * a non-looping set is over.
+   */
+  step(): number | null {
+    if (this.index >= this.frames.length) {
+      if (!this.loop) {
+        return null;
+      }
+      this.offset = this.getNextTimestamp()! - this.frames[0].timestamp;
+      this.index = 0;
+    }
+    const frame = this.frames[this.index];
+    const timestamp = frame.timestamp + this.offset;
+    this.emit({ ...frame, timestamp });
+    this.index += 1;
+    return timestamp;
+  }
+
+  private getNextTimestamp(): number | null {
+    if (this.index < this.frames.length) {
+      return this.frames[this.index].timestamp + this.offset;
+    }
+    if (!this.loop) {
+      return null;
+    }
+    // The set starts over one frame interval after it ended
+    const last = this.frames[this.frames.length - 1];
+    const interval = this.frames.length > 1 ? this.frames[1].timestamp - this.frames[0].timestamp : 0;
+    return last.timestamp + this.offset + interval;
+  }
+}
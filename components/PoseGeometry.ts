@@ -0,0 +1,75 @@
+// components/PoseGeometry.ts
+import { KeyPoint } from './FormAnalyzer';
+
+export type Keypoints = { [key: string]: KeyPoint };
+
+export type AngleMode = '3d' | '2d';
+
+// Whether every point is there and carries a depth coordinate
+export const hasDepth = (...points: (KeyPoint | null | undefined)[]): boolean =>
+  points.every(point => !!point && typeof point.z === 'number' && isFinite(point.z));
+
+export const midpoint = (a?: KeyPoint | null, b?: KeyPoint | null): KeyPoint | null => {
+  if (!a || !b) {
+    return null;
+  }
+  const middle: KeyPoint = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+  if (hasDepth(a, b)) {
+    middle.z = (a.z! + b.z!) / 2;
+  }
+  return middle;
+};
+
+export const distance = (a?: KeyPoint | null, b?: KeyPoint | null): number | null => {
+  if (!a || !b) {
+    return null;
+  }
+  return Math.sqrt(Math.pow(a.x - b.x, 2) + Math.pow(a.y - b.y, 2));
+};
+
+// Angle at point2, in degrees, formed by point1 - point2 - point3
+export const calculateAngle = (point1: KeyPoint, point2: KeyPoint, point3: KeyPoint): number => {
+  const vector1 = {
+    x: point1.x - point2.x,
+    y: point1.y - point2.y,
+  };
+  const vector2 = {
+    x: point3.x - point2.x,
+    y: point3.y - point2.y,
+  };
+
+  const dot = vector1.x * vector2.x + vector1.y * vector2.y;
+  const mag1 = Math.sqrt(vector1.x ** 2 + vector1.y ** 2);
+  const mag2 = Math.sqrt(vector2.x ** 2 + vector2.y ** 2);
+
+  const cos = dot / (mag1 * mag2);
+  return Math.acos(Math.max(-1, Math.min(1, cos))) * 180 / Math.PI;
+};
+
+// Angle at point2 in space, using depth; needs z on all three points
+export const calculateAngle3D = (point1: KeyPoint, point2: KeyPoint, point3: KeyPoint): number => {
+  const vector1 = [point1.x - point2.x, point1.y - point2.y, point1.z! - point2.z!];
+  const vector2 = [point3.x - point2.x, point3.y - point2.y, point3.z! - point2.z!];
+
+  const dot = vector1[0] * vector2[0] + vector1[1] * vector2[1] + vector1[2] * vector2[2];
+  const mag1 = Math.sqrt(vector1[0] ** 2 + vector1[1] ** 2 + vector1[2] ** 2);
+  const mag2 = Math.sqrt(vector2[0] ** 2 + vector2[1] ** 2 + vector2[2] ** 2);
+
+  const cos = dot / (mag1 * mag2);
+  return Math.acos(Math.max(-1, Math.min(1, cos))) * 180 / Math.PI;
+};
+
+// Angle at point2 in 3D when asked for and all three points have depth, else in the image plane
+export const jointAngle = (point1: KeyPoint, point2: KeyPoint, point3: KeyPoint, mode: AngleMode): number =>
+  mode === '3d' && hasDepth(point1, point2, point3)
+    ? calculateAngle3D(point1, point2, point3)
+    : calculateAngle(point1, point2, point3);
+
+// Distance in 3D when asked for and both points have depth, else in the image plane
+export const distanceIn = (a: KeyPoint | null | undefined, b: KeyPoint | null | undefined, mode: AngleMode): number | null => {
+  if (!a || !b) {
+    return null;
+  }
+  const depth = mode === '3d' && hasDepth(a, b) ? a.z! - b.z! : 0;
+  return Math.sqrt(Math.pow(a.x - b.x, 2) + Math.pow(a.y - b.y, 2) + Math.pow(depth, 2));
+};
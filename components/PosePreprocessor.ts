@@ -0,0 +1,201 @@
+// components/PosePreprocessor.ts
+import FormAnalyzer, { KeyPoint, PoseData } from './FormAnalyzer';
+
+export interface PosePreprocessorOptions {
+  // Keypoints below this visibility are treated as not detected
+  minVisibility: number;
+  // Keypoints that must be reliable for the frame to be scored
+  requiredKeypoints: string[];
+  // One-Euro filter: cutoff (Hz) when the joint is still - lower is smoother
+  minCutoff: number;
+  // One-Euro filter: how quickly the cutoff opens up as the joint speeds up
+  beta: number;
+  // One-Euro filter: cutoff (Hz) for the speed estimate itself
+  derivativeCutoff: number;
+  // Longest dropout (ms) that is bridged instead of reported as missing
+  maxGapMs: number;
+}
+
+const DEFAULT_OPTIONS: PosePreprocessorOptions = {
+  minVisibility: 0.5,
+  requiredKeypoints: [],
+  minCutoff: 1.5,
+  beta: 0.5,
+  derivativeCutoff: 1.0,
+  maxGapMs: 200,
+};
+
+const smoothingFactor = (cutoff: number, elapsed: number): number => {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / elapsed);
+};
+
+/**
+ * One-Euro filter (Casiez et al. 2012): a low-pass filter whose cutoff rises
+ * with speed, so still joints stop jittering without fast reps lagging.
+ */
+export class OneEuroFilter {
+  private value: number | null = null;
+  private derivative = 0;
+  private lastTimestamp = 0;
+
+  constructor(
+    private minCutoff: number,
+    private beta: number,
+    private derivativeCutoff: number,
+  ) {}
+
+  filter(value: number, timestamp: number): number {
+    if (this.value === null) {
+      this.value = value;
+      this.lastTimestamp = timestamp;
+      return value;
+    }
+
+    const elapsed = (timestamp - this.lastTimestamp) / 1000;
+    if (elapsed <= 0) {
+      return this.value;
+    }
+    this.lastTimestamp = timestamp;
+
+    const rawDerivative = (value - this.value) / elapsed;
+    const derivativeAlpha = smoothingFactor(this.derivativeCutoff, elapsed);
+    this.derivative = derivativeAlpha * rawDerivative + (1 - derivativeAlpha) * this.derivative;
+
+    const cutoff = this.minCutoff + this.beta * Math.abs(this.derivative);
+    const alpha = smoothingFactor(cutoff, elapsed);
+    this.value = alpha * value + (1 - alpha) * this.value;
+    return this.value;
+  }
+
+  // Units per second, as estimated by the filter
+  getDerivative(): number {
+    return this.derivative;
+  }
+
+  reset(): void {
+    this.value = null;
+    this.derivative = 0;
+  }
+}
+
+interface JointTrack {
+  x: OneEuroFilter;
+  y: OneEuroFilter;
+  z: OneEuroFilter;
+  last: KeyPoint;
+  lastSeen: number;
+}
+
+/**
+ * Cleans up raw PoseData before it reaches FormAnalyzer.
+ *
+ * Low-visibility keypoints are dropped, reliable ones are smoothed per joint
+ * and short dropouts are bridged by extrapolating the joint's last motion.
+ * Frames where a required keypoint is still missing come out with
+ * `reliable: false` so they are flagged rather than scored.
+ */
+class PosePreprocessor {
+  private options: PosePreprocessorOptions;
+  private tracks: { [name: string]: JointTrack } = {};
+
+  constructor(options: Partial<PosePreprocessorOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  static forMovement(movement: string, options: Partial<PosePreprocessorOptions> = {}): PosePreprocessor {
+    return new PosePreprocessor({
+      requiredKeypoints: FormAnalyzer.getRequiredKeypoints(movement),
+      ...options,
+    });
+  }
+
+  process(poseData: PoseData): PoseData {
+    const { timestamp } = poseData;
+    const keypoints: { [name: string]: KeyPoint } = {};
+    const unreliableKeypoints: string[] = [];
+    const names = new Set([
+      ...Object.keys(poseData.keypoints || {}),
+      ...Object.keys(this.tracks),
+    ]);
+
+    names.forEach(name => {
+      const observed = poseData.keypoints?.[name];
+      const track = this.tracks[name];
+
+      if (observed && (observed.visibility ?? 1) >= this.options.minVisibility) {
+        keypoints[name] = this.smooth(name, observed, timestamp);
+        return;
+      }
+
+      if (track && timestamp - track.lastSeen <= this.options.maxGapMs) {
+        keypoints[name] = this.bridge(track, timestamp);
+        return;
+      }
+
+      if (track) {
+        // Gap too long to bridge - start the filter fresh when it comes back
+        delete this.tracks[name];
+      }
+      if (observed) {
+        // Keep the raw point so overlays can still draw it, faded
+        keypoints[name] = observed;
+        unreliableKeypoints.push(name);
+      }
+    });
+
+    const reliable = this.options.requiredKeypoints.every(
+      name => keypoints[name] && !unreliableKeypoints.includes(name),
+    );
+
+    return { ...poseData, keypoints, reliable, unreliableKeypoints };
+  }
+
+  reset(): void {
+    this.tracks = {};
+  }
+
+  private smooth(name: string, observed: KeyPoint, timestamp: number): KeyPoint {
+    const { minCutoff, beta, derivativeCutoff } = this.options;
+    let track = this.tracks[name];
+    if (!track) {
+      track = {
+        x: new OneEuroFilter(minCutoff, beta, derivativeCutoff),
+        y: new OneEuroFilter(minCutoff, beta, derivativeCutoff),
+        z: new OneEuroFilter(minCutoff, beta, derivativeCutoff),
+        last: observed,
+        lastSeen: timestamp,
+      };
+      this.tracks[name] = track;
+    }
+
+    const smoothed: KeyPoint = {
+      ...observed,
+      x: track.x.filter(observed.x, timestamp),
+      y: track.y.filter(observed.y, timestamp),
+    };
+    if (observed.z !== undefined) {
+      smoothed.z = track.z.filter(observed.z, timestamp);
+    }
+
+    track.last = smoothed;
+    track.lastSeen = timestamp;
+    return smoothed;
+  }
+
+  private bridge(track: JointTrack, timestamp: number): KeyPoint {
+    const elapsed = (timestamp - track.lastSeen) / 1000;
+    const bridged: KeyPoint = {
+      ...track.last,
+      x: track.last.x + track.x.getDerivative() * elapsed,
+      y: track.last.y + track.y.getDerivative() * elapsed,
+      interpolated: true,
+    };
+    if (track.last.z !== undefined) {
+      bridged.z = track.last.z + track.z.getDerivative() * elapsed;
+    }
+    return bridged;
+  }
+}
+
+export default PosePreprocessor;
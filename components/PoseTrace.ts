@@ -0,0 +1,245 @@
+// components/PoseTrace.ts
+import { BodyCalibration } from './Calibration';
+import { KeyPoint, PoseData } from './FormAnalyzer';
+
+export const POSE_TRACE_FORMAT = 'tma-pose-trace';
+export const POSE_TRACE_VERSION = 1;
+
+export interface PoseTraceDevice {
+  platform: string;
+  osVersion?: string;
+  model?: string;
+}
+
+/**
+ * First line of a trace file. Frames follow one per line, each keypoint
+ * stored as [x, y, z, visibility] in keypointSchema order (null when the
+ * keypoint wasn't detected, z/visibility null when the estimator gave none).
+ */
+export interface PoseTraceHeader {
+  format: typeof POSE_TRACE_FORMAT;
+  version: number;
+  movement: string;
+  device: PoseTraceDevice;
+  // Measured from the frame timestamps
+  fps: number;
+  keypointSchema: string[];
+  recordedAt: string;
+  // Carried-over calibration and athlete height the set was analyzed with,
+  // so a replay reproduces the original analysis exactly
+  calibration?: BodyCalibration | null;
+  athleteHeightCm?: number | null;
+}
+
+export interface PoseTrace {
+  header: PoseTraceHeader;
+  frames: PoseData[];
+}
+
+type EncodedKeypoint = [number, number, number | null, number | null] | null;
+
+interface EncodedFrame {
+  t: number;
+  k: EncodedKeypoint[];
+}
+
+const encodeFrame = (frame: PoseData, schema: string[]): EncodedFrame => ({
+  t: frame.timestamp,
+  k: schema.map(name => {
+    const point = frame.keypoints[name];
+    return point
+      ? [point.x, point.y, point.z ?? null, point.visibility ?? null]
+      : null;
+  }),
+});
+
+const decodeFrame = (frame: EncodedFrame, schema: string[]): PoseData => {
+  const keypoints: { [name: string]: KeyPoint } = {};
+  frame.k.forEach((encoded, index) => {
+    if (!encoded) {
+      return;
+    }
+    const [x, y, z, visibility] = encoded;
+    const point: KeyPoint = { x, y };
+    if (z !== null) {
+      point.z = z;
+    }
+    if (visibility !== null) {
+      point.visibility = visibility;
+    }
+    keypoints[schema[index]] = point;
+  });
+  return { timestamp: frame.t, keypoints };
+};
+
+const measureFps = (frames: PoseData[]): number => {
+  if (frames.length < 2) {
+    return 0;
+  }
+  const span = frames[frames.length - 1].timestamp - frames[0].timestamp;
+  return span > 0 ? Math.round((frames.length - 1) / (span / 1000)) : 0;
+};
+
+export const serializePoseTrace = (trace: PoseTrace): string => {
+  const schema = trace.header.keypointSchema;
+  return [
+    JSON.stringify(trace.header),
+    ...trace.frames.map(frame => JSON.stringify(encodeFrame(frame, schema))),
+  ].join('\n') + '\n';
+};
+
+export const parsePoseTrace = (text: string): PoseTrace => {
+  const lines = text.split('\n').filter(line => line.trim().length > 0);
+  if (lines.length === 0) {
+    throw new Error('Pose trace is empty');
+  }
+
+  let header: PoseTraceHeader;
+  try {
+    header = JSON.parse(lines[0]) as PoseTraceHeader;
+  } catch (error) {
+    throw new Error(`Pose trace header is malformed: ${error}`);
+  }
+  if (header?.format !== POSE_TRACE_FORMAT) {
+    throw new Error(`Not a pose trace: unexpected format "${header?.format}"`);
+  }
+  if (typeof header.version !== 'number') {
+    throw new Error('Pose trace header is missing its version');
+  }
+  if (header.version > POSE_TRACE_VERSION) {
+    throw new Error(
+      `Pose trace version ${header.version} is newer than supported version ${POSE_TRACE_VERSION}`,
+    );
+  }
+  if (!Array.isArray(header.keypointSchema)) {
+    throw new Error('Pose trace header is missing its keypoint schema');
+  }
+
+  const frames = lines.slice(1).map((line, index) => {
+    try {
+      return decodeFrame(JSON.parse(line) as EncodedFrame, header.keypointSchema);
+    } catch (error) {
+      throw new Error(`Pose trace frame ${index + 1} is malformed: ${error}`);
+    }
+  });
+
+  return { header, frames };
+};
+
+/**
+ * Records the frames of a set so it can be replayed through the analyzer
+ * later. The keypoint schema grows as new keypoint names are seen.
+ */
+export class PoseTraceWriter {
+  private movement: string;
+  private device: PoseTraceDevice;
+  private recordedAt: string;
+  private frames: PoseData[] = [];
+  private schema: string[] = [];
+  private calibration: BodyCalibration | null;
+  private athleteHeightCm: number | null;
+
+  constructor(
+    movement: string,
+    device: PoseTraceDevice,
+    analysisOptions: { calibration?: BodyCalibration | null; athleteHeightCm?: number | null } = {},
+  ) {
+    this.movement = movement;
+    this.device = device;
+    this.recordedAt = new Date().toISOString();
+    this.calibration = analysisOptions.calibration || null;
+    this.athleteHeightCm = analysisOptions.athleteHeightCm || null;
+  }
+
+  addFrame(poseData: PoseData): void {
+    Object.keys(poseData.keypoints || {}).forEach(name => {
+      if (!this.schema.includes(name)) {
+        this.schema.push(name);
+      }
+    });
+    // Only the raw estimator output is recorded; preprocessing is re-run on replay
+    this.frames.push({ timestamp: poseData.timestamp, keypoints: { ...poseData.keypoints } });
+  }
+
+  getFrameCount(): number {
+    return this.frames.length;
+  }
+
+  getTrace(): PoseTrace {
+    return {
+      header: {
+        format: POSE_TRACE_FORMAT,
+        version: POSE_TRACE_VERSION,
+        movement: this.movement,
+        device: this.device,
+        fps: measureFps(this.frames),
+        keypointSchema: [...this.schema],
+        recordedAt: this.recordedAt,
+        calibration: this.calibration,
+        athleteHeightCm: this.athleteHeightCm,
+      },
+      frames: [...this.frames],
+    };
+  }
+
+  toNDJSON(): string {
+    return serializePoseTrace(this.getTrace());
+  }
+}
+
+export interface PoseTraceReplayOptions {
+  // 1 plays back at the recorded pace, 2 at double speed
+  speed: number;
+}
+
+/**
+ * Plays a recorded trace back in real time, standing in for the live pose
+ * estimator. Frames keep their recorded timestamps so the analysis comes out
+ * exactly as it did when the set was recorded.
+ */
+export class PoseTraceReplay {
+  private trace: PoseTrace;
+  private options: PoseTraceReplayOptions;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private index = 0;
+
+  constructor(trace: PoseTrace, options: Partial<PoseTraceReplayOptions> = {}) {
+    this.trace = trace;
+    this.options = { speed: 1, ...options };
+  }
+
+  start(onFrame: (poseData: PoseData) => void, onEnd?: () => void): void {
+    this.stop();
+    this.index = 0;
+    const { frames } = this.trace;
+
+    const next = () => {
+      if (this.index >= frames.length) {
+        this.timer = null;
+        onEnd?.();
+        return;
+      }
+
+      const frame = frames[this.index];
+      onFrame(frame);
+      this.index += 1;
+
+      const following = frames[this.index];
+      const delay = following ? (following.timestamp - frame.timestamp) / this.options.speed : 0;
+      this.timer = setTimeout(next, Math.max(0, delay));
+    };
+
+    next();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isPlaying(): boolean {
+    return this.timer !== null;
+  }
+}
@@ -0,0 +1,376 @@
+// components/ProgressScreen.tsx
+import React, { useCallback, useEffect, useState } from 'react';
+import { Alert, ScrollView, Share, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { getLocale, t } from '../i18n';
+import { getFileSystem } from './FileSystem';
+import { IMPORT_DIRECTORY, exportHistory, importBundles, saveExportFile, toCsv } from './HistoryExport';
+import { HistoryRepository, HistorySet } from './HistoryStore';
+import { MOVEMENTS } from './MovementRegistry';
+import { MetricProgress, SCORE_METRIC, computeMovementProgress } from './ProgressStats';
+import { IntensityProfile, LoadUnit, OneRepMaxFormulaId, computeIntensityProfile, getOneRepMaxFormula } from './StrengthMetrics';
+import TrendChart from './TrendChart';
+
+interface ProgressScreenProps {
+  history: HistoryRepository;
+  initialMovement: string;
+  // Loads and one-rep maxes are shown in this unit
+  loadUnit: LoadUnit;
+  formula: OneRepMaxFormulaId;
+}
+
+const getMetricLabel = (metric: string): string =>
+  metric === SCORE_METRIC ? t('progress.score') : t(`rule.${metric}`);
+
+// Scores and angles read as whole numbers; ratios need two decimals
+const formatValue = (value: number): string =>
+  Math.abs(value) >= 10 ? `${Math.round(value)}` : value.toFixed(2);
+
+const formatDate = (timestamp: number): string => new Date(timestamp).toLocaleDateString(getLocale());
+
+/**
+ * Each movement's score and rule readings over time, one bar per session,
+ * with personal bests and regressions called out.
+ */
+const ProgressScreen: React.FC<ProgressScreenProps> = ({ history, initialMovement, loadUnit, formula }) => {
+  const [movement, setMovement] = useState(initialMovement);
+  const [sets, setSets] = useState<HistorySet[] | null>(null);
+  const [transferring, setTransferring] = useState(false);
+
+  const loadSets = useCallback(() => {
+    if (!history.isAvailable()) {
+      setSets([]);
+      return;
+    }
+    history.getSets()
+      .then(setSets)
+      .catch(error => {
+        console.error('History load error:', error);
+        setSets([]);
+      });
+  }, [history]);
+
+  useEffect(loadSets, [loadSets]);
+
+  const progress = sets ? computeMovementProgress(movement, sets) : null;
+  const intensity = sets ? computeIntensityProfile(movement, sets, loadUnit, formula) : null;
+
+  // Writes the export to the documents folder and offers it to other apps
+  const shareExport = async (fileName: string, contents: string) => {
+    const path = await saveExportFile(getFileSystem()!, fileName, contents);
+    await Share.share({ title: fileName, url: `file://${path}`, message: path });
+  };
+
+  const runTransfer = async (transfer: () => Promise<void>) => {
+    if (!history.isAvailable() || !getFileSystem()) {
+      Alert.alert(t('progress.dataTitle'), t('progress.storageUnavailable'));
+      return;
+    }
+    setTransferring(true);
+    try {
+      await transfer();
+    } catch (error) {
+      console.error('History transfer error:', error);
+      Alert.alert(t('progress.dataTitle'), t('progress.transferError', { message: String(error) }));
+    } finally {
+      setTransferring(false);
+    }
+  };
+
+  // Every rep of the movement on screen, for spreadsheets
+  const exportCsv = () => runTransfer(async () => {
+    const sessions = await history.getSessions({ movement });
+    await shareExport(`${movement}-${new Date().toISOString().slice(0, 10)}.csv`, toCsv(sessions));
+  });
+
+  // The whole history with its pose traces, to restore on another device
+  const exportBackup = () => runTransfer(async () => {
+    const bundle = await exportHistory(history, {}, { includeTraces: true });
+    await shareExport(`history-${bundle.exportedAt.slice(0, 10)}.json`, JSON.stringify(bundle));
+  });
+
+  const importBackups = () => runTransfer(async () => {
+    const fs = getFileSystem()!;
+    const report = await importBundles(history, fs);
+    if (report.files === 0) {
+      Alert.alert(t('progress.dataTitle'), t('progress.importEmpty', {
+        path: `${fs.DocumentDirectoryPath}/${IMPORT_DIRECTORY}`,
+      }));
+      return;
+    }
+    const failures = report.failures.map(failure => t('progress.importFailed', failure));
+    Alert.alert(t('progress.dataTitle'), [
+      t('progress.importDone', { count: report.setsAdded, skipped: report.setsSkipped }),
+      ...failures,
+    ].join('\n'));
+    loadSets();
+  });
+
+  const renderMetric = (metric: MetricProgress) => (
+    <View key={metric.metric} style={styles.metric}>
+      <View style={styles.metricHeader}>
+        <Text style={styles.metricLabel}>{getMetricLabel(metric.metric)}</Text>
+        {metric.trend && (
+          <Text style={[styles.trend, styles[metric.trend.direction]]}>
+            {t(`progress.trend.${metric.trend.direction}`)}
+          </Text>
+        )}
+      </View>
+      <TrendChart
+        sessions={metric.sessions}
+        highlightSessionId={metric.points.find(point => point.setId === metric.personalBest?.setId)?.sessionId}
+        flaggedCount={metric.regression ? metric.regression.sessionCount : 0}
+      />
+      {metric.personalBest && (
+        <Text style={styles.metricNote}>
+          {t('progress.best', {
+            value: formatValue(metric.personalBest.value),
+            date: formatDate(metric.personalBest.timestamp),
+          })}
+        </Text>
+      )}
+    </View>
+  );
+
+  const renderIntensity = (profile: IntensityProfile) => (
+    <View style={styles.metric}>
+      <Text style={styles.metricLabel}>{t('progress.intensityTitle')}</Text>
+      <Text style={styles.metricNote}>
+        {t('progress.bestOneRepMax', {
+          value: Math.round(profile.referenceOneRepMax!),
+          unit: profile.unit,
+          formula: getOneRepMaxFormula(profile.formula).name,
+        })}
+      </Text>
+      {profile.bands.map(band => (
+        <View key={band.from} style={styles.band}>
+          <Text style={styles.bandLabel}>
+            {Math.round(band.from * 100)}–{Math.round(band.to * 100)}%
+          </Text>
+          <View style={styles.bandTrack}>
+            <View
+              style={[
+                styles.bandBar,
+                { width: `${Math.max(0, Math.min(100, band.averageScore))}%` },
+                profile.breakdown && band.from >= profile.breakdown.intensity - 1e-9 && styles.bandBarFlagged,
+              ]}
+            />
+          </View>
+          <Text style={styles.bandScore}>
+            {t('progress.bandScore', { score: Math.round(band.averageScore), count: band.setCount })}
+          </Text>
+        </View>
+      ))}
+      <Text style={profile.breakdown ? styles.breakdownText : styles.metricNote}>
+        {profile.breakdown
+          ? t('progress.breakdown', {
+            percent: Math.round(profile.breakdown.intensity * 100),
+            load: Math.round(profile.breakdown.load),
+            unit: profile.unit,
+          })
+          : t('progress.formHoldsUp')}
+      </Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.tabs}>
+        {MOVEMENTS.map(option => (
+          <TouchableOpacity
+            key={option.id}
+            style={[styles.tab, movement === option.id && styles.tabSelected]}
+            onPress={() => setMovement(option.id)}
+          >
+            <Text style={styles.tabText}>{t(`movement.${option.id}.name`)}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.actions}>
+        {[
+          { label: t('progress.exportCsv'), onPress: exportCsv },
+          { label: t('progress.exportBackup'), onPress: exportBackup },
+          { label: t('progress.import'), onPress: importBackups },
+        ].map(action => (
+          <TouchableOpacity
+            key={action.label}
+            style={[styles.action, transferring && styles.actionDisabled]}
+            onPress={action.onPress}
+            disabled={transferring}
+          >
+            <Text style={styles.actionText}>{action.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {progress && progress.setCount === 0 && (
+        <Text style={styles.empty}>{t('progress.empty')}</Text>
+      )}
+
+      {progress && progress.setCount > 0 && (
+        <ScrollView>
+          <Text style={styles.summary}>
+            {t('progress.sets', { count: progress.setCount })} · {t('progress.sessions', { count: progress.sessionCount })}
+          </Text>
+          {progress.regressions.map(alert => (
+            <View key={alert.metric} style={styles.alert}>
+              <Text style={styles.alertText}>
+                {t('progress.regression', {
+                  metric: getMetricLabel(alert.metric),
+                  count: alert.sessionCount,
+                  before: formatValue(alert.baselineMean),
+                  after: formatValue(alert.recentMean),
+                })}
+              </Text>
+            </View>
+          ))}
+          {intensity && intensity.points.length > 0 && renderIntensity(intensity)}
+          {progress.metrics.map(renderMetric)}
+        </ScrollView>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  tabs: {
+    flexDirection: 'row',
+    marginBottom: 16,
+  },
+  tab: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#3f3f46',
+    marginRight: 8,
+  },
+  tabSelected: {
+    backgroundColor: '#3b82f6',
+    borderColor: '#3b82f6',
+  },
+  tabText: {
+    color: '#fafafa',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  actions: {
+    flexDirection: 'row',
+    marginBottom: 16,
+  },
+  action: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#27272a',
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  actionDisabled: {
+    opacity: 0.5,
+  },
+  actionText: {
+    color: '#fafafa',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  empty: {
+    color: '#a1a1aa',
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  summary: {
+    color: '#a1a1aa',
+    fontSize: 13,
+    marginBottom: 12,
+  },
+  alert: {
+    backgroundColor: 'rgba(239, 68, 68, 0.15)',
+    borderColor: '#ef4444',
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 12,
+  },
+  alertText: {
+    color: '#fafafa',
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  metric: {
+    backgroundColor: '#18181b',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  metricHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  metricLabel: {
+    color: '#fafafa',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  metricNote: {
+    color: '#a1a1aa',
+    fontSize: 12,
+    marginTop: 8,
+  },
+  band: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  bandLabel: {
+    width: 64,
+    color: '#a1a1aa',
+    fontSize: 12,
+  },
+  bandTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#27272a',
+    marginHorizontal: 8,
+  },
+  bandBar: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#3b82f6',
+  },
+  bandBarFlagged: {
+    backgroundColor: '#ef4444',
+  },
+  bandScore: {
+    width: 88,
+    color: '#fafafa',
+    fontSize: 12,
+    textAlign: 'right',
+  },
+  breakdownText: {
+    color: '#ef4444',
+    fontSize: 12,
+    marginTop: 8,
+  },
+  trend: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  improving: {
+    color: '#22c55e',
+  },
+  worsening: {
+    color: '#ef4444',
+  },
+  flat: {
+    color: '#a1a1aa',
+  },
+});
+
+export default ProgressScreen;
@@ -0,0 +1,295 @@
+// components/ProgressStats.ts
+import { HistorySet } from './HistoryStore';
+import { getMovement } from './MovementRegistry';
+
+// The set score; every other metric is the id of a movement rule, whose
+// reading each rep reports in FormFeedback.details
+export const SCORE_METRIC = 'score';
+
+export interface ProgressPoint {
+  setId: string;
+  sessionId: string;
+  // Epoch ms
+  timestamp: number;
+  value: number;
+}
+
+// A metric averaged over the sets of one session
+export interface SessionPoint {
+  sessionId: string;
+  // When the session's first set was recorded
+  timestamp: number;
+  value: number;
+  setCount: number;
+}
+
+export type TrendDirection = 'improving' | 'worsening' | 'flat';
+
+export interface MetricTrend {
+  // Slope of a least-squares line through the session values
+  perDay: number;
+  direction: TrendDirection;
+}
+
+export interface PersonalBest {
+  value: number;
+  setId: string;
+  timestamp: number;
+}
+
+export interface RegressionAlert {
+  metric: string;
+  // Mean over the sets of the sessions before the recent ones
+  baselineMean: number;
+  recentMean: number;
+  // Welch's t statistic, signed so that positive is worse
+  tStatistic: number;
+  degreesOfFreedom: number;
+  // Recent sessions compared against the baseline
+  sessionCount: number;
+}
+
+export interface MetricProgress {
+  metric: string;
+  higherIsBetter: boolean;
+  // Oldest first
+  points: ProgressPoint[];
+  sessions: SessionPoint[];
+  // Null until there are two sessions to compare
+  trend: MetricTrend | null;
+  personalBest: PersonalBest | null;
+  regression: RegressionAlert | null;
+}
+
+export interface MovementProgress {
+  movement: string;
+  setCount: number;
+  sessionCount: number;
+  // Score first, then the rules in registry order; metrics never measured are left out
+  metrics: MetricProgress[];
+  regressions: RegressionAlert[];
+}
+
+export interface ProgressOptions {
+  // Sessions checked for a regression against the ones before them
+  recentSessions: number;
+  minBaselineSessions: number;
+  // Trends that move less than this share of the values' range are flat
+  flatShare: number;
+}
+
+const DEFAULT_OPTIONS: ProgressOptions = {
+  recentSessions: 3,
+  minBaselineSessions: 3,
+  flatShare: 0.1,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// One-sided critical values of Student's t at the 5% level, by degrees of freedom
+const T_CRITICAL: [number, number][] = [
+  [1, 6.314], [2, 2.92], [3, 2.353], [4, 2.132], [5, 2.015], [6, 1.943], [7, 1.895],
+  [8, 1.86], [9, 1.833], [10, 1.812], [12, 1.782], [15, 1.753], [20, 1.725],
+  [30, 1.697], [60, 1.671], [120, 1.658],
+];
+
+// Rounds down to the nearest tabled df, which only makes the test stricter
+const criticalT = (degreesOfFreedom: number): number => {
+  let critical = T_CRITICAL[0][1];
+  T_CRITICAL.forEach(([df, value]) => {
+    if (degreesOfFreedom >= df) {
+      critical = value;
+    }
+  });
+  return degreesOfFreedom > 120 ? 1.645 : critical;
+};
+
+const mean = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const variance = (values: number[]): number => {
+  const average = mean(values);
+  return values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1);
+};
+
+// Whether larger readings of a metric are better, from the direction its rule faults in
+export const isHigherBetter = (movementId: string, metric: string): boolean => {
+  if (metric === SCORE_METRIC) {
+    return true;
+  }
+  const rule = getMovement(movementId)?.rules.find(candidate => candidate.id === metric);
+  return rule ? rule.faultWhen === 'below' : true;
+};
+
+// A set's reading of a metric: its score, or the rule's reading averaged over the reps
+export const getSetMetric = (set: HistorySet, metric: string): number | null => {
+  if (set.repCount === 0) {
+    return null;
+  }
+  if (metric === SCORE_METRIC) {
+    return set.score;
+  }
+  const values = set.reps
+    .map(rep => rep.feedback.details?.[metric])
+    .filter((value): value is number => typeof value === 'number' && Number.isFinite(value));
+  return values.length > 0 ? mean(values) : null;
+};
+
+export const groupBySession = (points: ProgressPoint[]): SessionPoint[] => {
+  const sessions = new Map<string, ProgressPoint[]>();
+  points.forEach(point => {
+    sessions.set(point.sessionId, [...(sessions.get(point.sessionId) || []), point]);
+  });
+  return Array.from(sessions.entries())
+    .map(([sessionId, sessionPoints]) => ({
+      sessionId,
+      timestamp: Math.min(...sessionPoints.map(point => point.timestamp)),
+      value: mean(sessionPoints.map(point => point.value)),
+      setCount: sessionPoints.length,
+    }))
+    .sort((a, b) => a.timestamp - b.timestamp);
+};
+
+export const computeTrend = (
+  sessions: SessionPoint[],
+  higherIsBetter: boolean,
+  flatShare: number = DEFAULT_OPTIONS.flatShare,
+): MetricTrend | null => {
+  if (sessions.length < 2) {
+    return null;
+  }
+  const days = sessions.map(session => (session.timestamp - sessions[0].timestamp) / DAY_MS);
+  const values = sessions.map(session => session.value);
+  const dayMean = mean(days);
+  const valueMean = mean(values);
+  const spread = days.reduce((sum, day) => sum + (day - dayMean) ** 2, 0);
+  const perDay = spread > 0
+    ? days.reduce((sum, day, index) => sum + (day - dayMean) * (values[index] - valueMean), 0) / spread
+    : 0;
+
+  const range = Math.max(...values) - Math.min(...values);
+  const change = perDay * (days[days.length - 1] - days[0]);
+  if (range === 0 || Math.abs(change) < flatShare * range) {
+    return { perDay, direction: 'flat' };
+  }
+  return { perDay, direction: (change > 0) === higherIsBetter ? 'improving' : 'worsening' };
+};
+
+export const findPersonalBest = (points: ProgressPoint[], higherIsBetter: boolean): PersonalBest | null =>
+  points.reduce<PersonalBest | null>((best, point) => {
+    const better = !best || (higherIsBetter ? point.value > best.value : point.value < best.value);
+    return better ? { value: point.value, setId: point.setId, timestamp: point.timestamp } : best;
+  }, null);
+
+/**
+ * Flags a metric that got worse over the most recent sessions. It takes
+ * every one of them to be worse than the earlier sessions' average, and
+ * their sets to be worse by a one-sided Welch's t-test at the 5% level, so
+ * one bad day or a noisy metric doesn't raise an alert.
+ */
+export const detectRegression = (
+  metric: string,
+  points: ProgressPoint[],
+  higherIsBetter: boolean,
+  options: Partial<ProgressOptions> = {},
+): RegressionAlert | null => {
+  const { recentSessions, minBaselineSessions } = { ...DEFAULT_OPTIONS, ...options };
+  const sessions = groupBySession(points);
+  if (sessions.length < recentSessions + minBaselineSessions) {
+    return null;
+  }
+
+  const recentIds = new Set(sessions.slice(-recentSessions).map(session => session.sessionId));
+  const recent = points.filter(point => recentIds.has(point.sessionId)).map(point => point.value);
+  const baseline = points.filter(point => !recentIds.has(point.sessionId)).map(point => point.value);
+  if (recent.length < 2 || baseline.length < 2) {
+    return null;
+  }
+
+  // Positive when a value is worse than the baseline's
+  const sign = higherIsBetter ? -1 : 1;
+  const baselineMean = mean(baseline);
+  const recentMean = mean(recent);
+  const allWorse = sessions.slice(-recentSessions).every(session => sign * (session.value - baselineMean) > 0);
+  if (!allWorse) {
+    return null;
+  }
+
+  const recentError = variance(recent) / recent.length;
+  const baselineError = variance(baseline) / baseline.length;
+  const standardError = Math.sqrt(recentError + baselineError);
+  // Readings that never vary (a score of 100 every set) leave no noise to
+  // test against; every recent session being worse is then the whole story
+  if (standardError === 0) {
+    return {
+      metric,
+      baselineMean,
+      recentMean,
+      tStatistic: Infinity,
+      degreesOfFreedom: recent.length + baseline.length - 2,
+      sessionCount: recentSessions,
+    };
+  }
+  const tStatistic = sign * (recentMean - baselineMean) / standardError;
+  // Welch-Satterthwaite
+  const degreesOfFreedom = (recentError + baselineError) ** 2 / (
+    recentError ** 2 / (recent.length - 1) + baselineError ** 2 / (baseline.length - 1)
+  );
+  if (tStatistic < criticalT(degreesOfFreedom)) {
+    return null;
+  }
+  return { metric, baselineMean, recentMean, tStatistic, degreesOfFreedom, sessionCount: recentSessions };
+};
+
+export const computeMetricProgress = (
+  movementId: string,
+  metric: string,
+  sets: HistorySet[],
+  options: Partial<ProgressOptions> = {},
+): MetricProgress => {
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+  const higherIsBetter = isHigherBetter(movementId, metric);
+  const points: ProgressPoint[] = [];
+  sets
+    .filter(set => set.movement === movementId)
+    .sort((a, b) => a.recordedAt - b.recordedAt)
+    .forEach(set => {
+      const value = getSetMetric(set, metric);
+      if (value !== null) {
+        points.push({ setId: set.id, sessionId: set.sessionId, timestamp: set.recordedAt, value });
+      }
+    });
+  const sessions = groupBySession(points);
+
+  return {
+    metric,
+    higherIsBetter,
+    points,
+    sessions,
+    trend: computeTrend(sessions, higherIsBetter, settings.flatShare),
+    personalBest: findPersonalBest(points, higherIsBetter),
+    regression: detectRegression(metric, points, higherIsBetter, settings),
+  };
+};
+
+// Score and every rule reading of a movement, from the sets in the history
+export const computeMovementProgress = (
+  movementId: string,
+  sets: HistorySet[],
+  options: Partial<ProgressOptions> = {},
+): MovementProgress => {
+  const movementSets = sets.filter(set => set.movement === movementId && set.repCount > 0);
+  const ruleIds = getMovement(movementId)?.rules.map(rule => rule.id) || [];
+  const metrics = [SCORE_METRIC, ...ruleIds]
+    .map(metric => computeMetricProgress(movementId, metric, movementSets, options))
+    .filter(progress => progress.points.length > 0);
+
+  return {
+    movement: movementId,
+    setCount: movementSets.length,
+    sessionCount: new Set(movementSets.map(set => set.sessionId)).size,
+    metrics,
+    regressions: metrics
+      .map(progress => progress.regression)
+      .filter((alert): alert is RegressionAlert => alert !== null),
+  };
+};
@@ -0,0 +1,300 @@
+// components/RepTracker.ts
+import { PoseData } from './FormAnalyzer';
+import { getMovement } from './MovementRegistry';
+import { Keypoints } from './PoseGeometry';
+
+export type RepPhase =
+  | 'setup'
+  | 'eccentric'
+  | 'bottom'
+  | 'chest'
+  | 'floor'
+  | 'concentric'
+  | 'lockout';
+
+export type RepEventType = 'repStart' | 'repEnd' | 'repAborted' | 'phaseChange';
+
+export interface RepEvent {
+  type: RepEventType;
+  repNumber: number;
+  phase: RepPhase;
+  timestamp: number;
+}
+
+export interface Rep {
+  repNumber: number;
+  startTime: number;
+  endTime: number;
+  // Time the lift reached its turnaround point (bottom of a squat, chest
+  // touch on bench, lockout of a deadlift)
+  turnaroundTime: number;
+  // Time spent holding the turnaround (a paused squat or bench, a deadlift
+  // lockout); equal when the lift bounced straight through it
+  pauseStart: number;
+  pauseEnd: number;
+  // Peak displacement from the start position, in reference lengths
+  rangeOfMotion: number;
+}
+
+export interface RepPhaseDefinition {
+  // Vertical position of the tracked body part in image units (y grows downwards)
+  signal: (keypoints: Keypoints) => number | null;
+  // Body segment used to make thresholds independent of camera distance
+  reference: (keypoints: Keypoints) => number | null;
+  // Squat and bench start at the top; a deadlift starts on the floor
+  startPosition: 'top' | 'bottom';
+  // Name of the phase the lift passes through at the far end of the rep
+  turnaroundPhase: RepPhase;
+  // Minimum travel, in reference lengths, for a movement to count as a rep
+  minRangeOfMotion: number;
+}
+
+export interface RepTrackerOptions {
+  // Travel (fraction of minRangeOfMotion) that marks leaving the start position
+  startFraction: number;
+  // Travel back (fraction of minRangeOfMotion) that marks a direction change
+  reversalFraction: number;
+  // Remaining travel (fraction of minRangeOfMotion) that counts as back at start
+  returnFraction: number;
+  // Speed below which the lifter is considered stationary, reference lengths/s
+  stillVelocity: number;
+  // Exponential smoothing applied to the position signal (0-1, 1 = none)
+  smoothing: number;
+}
+
+// Distance from the peak (fraction of minRangeOfMotion) still counted as paused
+const PAUSE_TOLERANCE = 0.05;
+
+const DEFAULT_OPTIONS: RepTrackerOptions = {
+  startFraction: 0.25,
+  reversalFraction: 0.2,
+  returnFraction: 0.2,
+  stillVelocity: 0.15,
+  smoothing: 0.5,
+};
+
+/**
+ * Counts reps from a stream of PoseData frames.
+ *
+ * Each movement is described by a RepPhaseDefinition: a vertical position
+ * signal and a body segment to scale it by. The tracker follows the signal
+ * away from the start position, through the turnaround and back again, and
+ * counts a rep only when the full cycle covers the minimum range of motion.
+ */
+class RepTracker {
+  private definition: RepPhaseDefinition;
+  private options: RepTrackerOptions;
+
+  private phase: RepPhase = 'setup';
+  private repCount = 0;
+  private reps: Rep[] = [];
+
+  private smoothedSignal: number | null = null;
+  private startLevel: number | null = null;
+  private referenceLength = 0;
+  private lastDisplacement = 0;
+  private lastTimestamp: number | null = null;
+  private restTimestamp = 0;
+
+  private repStartTime = 0;
+  private peakDisplacement = 0;
+  private turnaroundTime = 0;
+  private pauseStart = 0;
+  private pauseEnd = 0;
+  private outboundSamples: { timestamp: number; displacement: number }[] = [];
+
+  constructor(movement: string | RepPhaseDefinition, options: Partial<RepTrackerOptions> = {}) {
+    const definition = typeof movement === 'string'
+      ? getMovement(movement)?.repPhases
+      : movement;
+    if (!definition) {
+      throw new Error(`No rep phase definition for movement: ${movement}`);
+    }
+    this.definition = definition;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  getPhase(): RepPhase {
+    return this.phase;
+  }
+
+  getRepCount(): number {
+    return this.repCount;
+  }
+
+  getReps(): Rep[] {
+    return [...this.reps];
+  }
+
+  reset(): void {
+    this.phase = 'setup';
+    this.repCount = 0;
+    this.reps = [];
+    this.smoothedSignal = null;
+    this.startLevel = null;
+    this.referenceLength = 0;
+    this.lastDisplacement = 0;
+    this.lastTimestamp = null;
+    this.restTimestamp = 0;
+    this.peakDisplacement = 0;
+    this.outboundSamples = [];
+  }
+
+  /**
+   * Feeds one frame into the state machine and returns the events it caused.
+   * Frames missing the keypoints the movement needs are ignored.
+   */
+  update(poseData: PoseData): RepEvent[] {
+    if (!poseData || !poseData.keypoints) {
+      return [];
+    }
+
+    const rawSignal = this.definition.signal(poseData.keypoints);
+    if (rawSignal === null || !isFinite(rawSignal)) {
+      return [];
+    }
+
+    // Segments only ever appear shorter than they are, so keep the longest
+    const reference = this.definition.reference(poseData.keypoints);
+    if (reference !== null && reference > this.referenceLength) {
+      this.referenceLength = reference;
+    }
+    if (this.referenceLength <= 0) {
+      return [];
+    }
+
+    const alpha = this.options.smoothing;
+    this.smoothedSignal = this.smoothedSignal === null
+      ? rawSignal
+      : alpha * rawSignal + (1 - alpha) * this.smoothedSignal;
+
+    const { timestamp } = poseData;
+    if (this.startLevel === null) {
+      this.startLevel = this.smoothedSignal;
+      this.restTimestamp = timestamp;
+    }
+
+    // Distance travelled away from the start position, in reference lengths
+    const direction = this.definition.startPosition === 'top' ? 1 : -1;
+    const displacement = (this.smoothedSignal - this.startLevel) * direction / this.referenceLength;
+
+    const elapsed = this.lastTimestamp === null ? 0 : (timestamp - this.lastTimestamp) / 1000;
+    const velocity = elapsed > 0 ? (displacement - this.lastDisplacement) / elapsed : 0;
+    this.lastDisplacement = displacement;
+    this.lastTimestamp = timestamp;
+
+    return this.step(displacement, velocity, timestamp);
+  }
+
+  private step(displacement: number, velocity: number, timestamp: number): RepEvent[] {
+    const events: RepEvent[] = [];
+    const minRange = this.definition.minRangeOfMotion;
+    const { startFraction, reversalFraction, returnFraction, stillVelocity } = this.options;
+    const topStart = this.definition.startPosition === 'top';
+    const restPhase: RepPhase = topStart ? 'lockout' : 'floor';
+    const outboundPhase: RepPhase = topStart ? 'eccentric' : 'concentric';
+    const returnPhase: RepPhase = topStart ? 'concentric' : 'eccentric';
+
+    const enter = (phase: RepPhase) => {
+      this.phase = phase;
+      events.push({ type: 'phaseChange', repNumber: this.repCount + 1, phase, timestamp });
+    };
+
+    switch (this.phase) {
+      case 'setup':
+      case restPhase: {
+        if (displacement > minRange * startFraction) {
+          this.repStartTime = this.restTimestamp;
+          this.peakDisplacement = displacement;
+          this.turnaroundTime = timestamp;
+          this.outboundSamples = [{ timestamp, displacement }];
+          events.push({
+            type: 'repStart',
+            repNumber: this.repCount + 1,
+            phase: outboundPhase,
+            timestamp: this.repStartTime,
+          });
+          enter(outboundPhase);
+        } else if (Math.abs(velocity) < stillVelocity) {
+          // Let the start position follow small shifts in stance between reps
+          this.startLevel! += (this.smoothedSignal! - this.startLevel!) * 0.1;
+          this.restTimestamp = timestamp;
+        }
+        break;
+      }
+
+      case outboundPhase: {
+        this.outboundSamples.push({ timestamp, displacement });
+        if (displacement > this.peakDisplacement) {
+          this.peakDisplacement = displacement;
+          this.turnaroundTime = timestamp;
+        }
+        if (this.peakDisplacement - displacement > minRange * reversalFraction) {
+          if (this.peakDisplacement >= minRange) {
+            this.measurePause();
+            enter(returnPhase);
+          } else {
+            // Didn't travel far enough to be a rep - treat it as a false start
+            events.push({
+              type: 'repAborted',
+              repNumber: this.repCount + 1,
+              phase: this.phase,
+              timestamp,
+            });
+            enter(this.repCount > 0 ? restPhase : 'setup');
+          }
+        } else if (this.peakDisplacement >= minRange && Math.abs(velocity) < stillVelocity) {
+          enter(this.definition.turnaroundPhase);
+        }
+        break;
+      }
+
+      case this.definition.turnaroundPhase: {
+        this.outboundSamples.push({ timestamp, displacement });
+        if (displacement > this.peakDisplacement) {
+          this.peakDisplacement = displacement;
+          this.turnaroundTime = timestamp;
+        }
+        if (this.peakDisplacement - displacement > minRange * reversalFraction) {
+          this.measurePause();
+          enter(returnPhase);
+        }
+        break;
+      }
+
+      case returnPhase: {
+        if (displacement < minRange * returnFraction) {
+          this.repCount += 1;
+          this.reps.push({
+            repNumber: this.repCount,
+            startTime: this.repStartTime,
+            endTime: timestamp,
+            turnaroundTime: this.turnaroundTime,
+            pauseStart: this.pauseStart,
+            pauseEnd: this.pauseEnd,
+            rangeOfMotion: this.peakDisplacement,
+          });
+          events.push({ type: 'repEnd', repNumber: this.repCount, phase: restPhase, timestamp });
+          this.phase = restPhase;
+          this.restTimestamp = timestamp;
+        }
+        break;
+      }
+    }
+
+    return events;
+  }
+
+  // The pause is the stretch of frames that stayed within a hair of the peak
+  private measurePause(): void {
+    const tolerance = this.definition.minRangeOfMotion * PAUSE_TOLERANCE;
+    const atPeak = this.outboundSamples.filter(
+      sample => sample.displacement >= this.peakDisplacement - tolerance,
+    );
+    this.pauseStart = atPeak.length > 0 ? atPeak[0].timestamp : this.turnaroundTime;
+    this.pauseEnd = atPeak.length > 0 ? atPeak[atPeak.length - 1].timestamp : this.turnaroundTime;
+    this.outboundSamples = [];
+  }
+}
+
+export default RepTracker;
@@ -0,0 +1,377 @@
+// components/SetAnalyzer.ts
+import { t } from '../i18n';
+import BarPathTracker, { BarPathAnalysis } from './BarPath';
+import CalibrationCollector, { BodyCalibration, CalibrationStatus, getMetersPerUnit } from './Calibration';
+import FormAnalyzer, {
+  FeedbackItem,
+  FormFeedback,
+  PoseData,
+  ScoreCriterion,
+  ScoreDeduction,
+  SkippedCheck,
+} from './FormAnalyzer';
+import { JointAngles } from './JointAngles';
+import { getMovement } from './MovementRegistry';
+import { AngleMode } from './PoseGeometry';
+import PosePreprocessor from './PosePreprocessor';
+import { PoseTrace } from './PoseTrace';
+import RepTracker, { Rep } from './RepTracker';
+import VelocityTracker, {
+  RepTempo,
+  RepVelocity,
+  SetVelocity,
+  computeTempo,
+  summarizeVelocity,
+  toMetersPerSecond,
+} from './VelocityMetrics';
+import ViewClassifier, { CameraView } from './ViewClassifier';
+
+export interface RepAnalysis {
+  repNumber: number;
+  startTime: number;
+  endTime: number;
+  score: number;
+  items: FeedbackItem[];
+  feedback: string[];
+  errors: string[];
+  details?: { [key: string]: number };
+  // Joint angles at the key frame
+  jointAngles?: JointAngles;
+  breakdown: ScoreCriterion[];
+  // Hand trajectory through the rep, for movements that track the bar
+  barPath?: BarPathAnalysis | null;
+  tempo: RepTempo;
+  velocity?: RepVelocity | null;
+}
+
+export interface RecurringFault {
+  code: string;
+  message: string;
+  // Reps the fault was seen in
+  reps: number[];
+}
+
+export interface SetAnalysis {
+  movement: string;
+  repCount: number;
+  reps: RepAnalysis[];
+  score: number;
+  // Per-rule subscores averaged over the reps; deductions are averaged per
+  // rep too, so they add up to 100 minus the set score
+  breakdown: ScoreCriterion[];
+  bestRep?: number;
+  worstRep?: number;
+  recurringFaults: RecurringFault[];
+  feedback: string[];
+  frameCount: number;
+  // Frames that failed the keypoint confidence bar and were left unscored
+  unreliableFrameCount: number;
+  view: CameraView;
+  // 3d when most scored frames carried depth, so angles were measured in space
+  angleMode: AngleMode;
+  calibration: BodyCalibration | null;
+  velocity: SetVelocity | null;
+  // Checks that were skipped for most of the set, e.g. because of the camera angle
+  skippedChecks: SkippedCheck[];
+}
+
+export interface SetAnalyzerOptions {
+  repTracker?: RepTracker;
+  // Pass null to analyze frames exactly as they arrive
+  preprocessor?: PosePreprocessor | null;
+  // The calibration a recorded set was analyzed with; skips the standing calibration
+  calibration?: BodyCalibration | null;
+  // Lets velocities be reported in m/s instead of image units
+  athleteHeightCm?: number | null;
+}
+
+interface FrameResult {
+  timestamp: number;
+  feedback: FormFeedback;
+}
+
+/**
+ * Collects FormFeedback for every frame of a set and rolls it up per rep.
+ *
+ * A single frame can only judge the position it shows, so each rep is scored
+ * on its key frame: the turnaround for lifts that start at the top (bottom of
+ * the squat, chest touch on bench) and the start position for lifts that
+ * start on the floor (deadlift setup).
+ */
+class SetAnalyzer {
+  private movement: string;
+  private repTracker: RepTracker;
+  private preprocessor: PosePreprocessor | null;
+  private pendingFrames: FrameResult[] = [];
+  private allScores: number[] = [];
+  private unreliableFrameCount = 0;
+  private depthFrameCount = 0;
+  private reps: RepAnalysis[] = [];
+  private viewClassifier = new ViewClassifier();
+  private calibrator = new CalibrationCollector();
+  private calibration: BodyCalibration | null;
+  private barPathTracker: BarPathTracker | null = null;
+  private velocityTracker: VelocityTracker | null = null;
+  private athleteHeightCm: number | null;
+  private skipCounts: { [rule: string]: { check: SkippedCheck; frames: number } } = {};
+
+  constructor(movement: string, options: SetAnalyzerOptions = {}) {
+    this.movement = movement;
+    this.repTracker = options.repTracker || new RepTracker(movement);
+    this.preprocessor = options.preprocessor === undefined
+      ? PosePreprocessor.forMovement(movement)
+      : options.preprocessor;
+    this.calibration = options.calibration || null;
+    this.athleteHeightCm = options.athleteHeightCm || null;
+
+    const definition = getMovement(movement);
+    if (definition?.barPath) {
+      this.barPathTracker = new BarPathTracker(definition.barPath, this.calibration);
+    }
+    if (definition) {
+      this.velocityTracker = new VelocityTracker(definition.repPhases);
+    }
+  }
+
+  addFrame(rawPoseData: PoseData): FormFeedback {
+    const processed = this.preprocessor ? this.preprocessor.process(rawPoseData) : rawPoseData;
+    const view = this.viewClassifier.update(processed.keypoints || {});
+    const poseData = view === 'unknown' ? processed : { ...processed, view };
+    if (!this.calibration && this.calibrator.addFrame(poseData) === 'complete') {
+      this.calibration = this.calibrator.getCalibration();
+      this.barPathTracker?.setCalibration(this.calibration);
+      this.rescaleVelocities();
+    }
+
+    const feedback = FormAnalyzer.analyze(this.movement, poseData, {
+      repTracker: this.repTracker,
+      calibration: this.calibration,
+    });
+
+    if (feedback.reliable === false) {
+      this.unreliableFrameCount += 1;
+    } else {
+      this.pendingFrames.push({ timestamp: poseData.timestamp, feedback });
+      this.allScores.push(feedback.score);
+      if (feedback.angleMode === '3d') {
+        this.depthFrameCount += 1;
+      }
+      this.barPathTracker?.addFrame(poseData, feedback.phase || 'setup');
+      this.velocityTracker?.addFrame(poseData);
+      (feedback.skippedChecks || []).forEach(check => {
+        const entry = this.skipCounts[check.rule] || { check, frames: 0 };
+        entry.check = check;
+        entry.frames += 1;
+        this.skipCounts[check.rule] = entry;
+      });
+    }
+
+    if (feedback.repCompleted) {
+      const reps = this.repTracker.getReps();
+      // Every rep the tracker counts is kept, so the two counts always agree;
+      // with no frames kept for it, the frame that ended it is all there is
+      const frames = this.pendingFrames.length > 0
+        ? this.pendingFrames
+        : [{ timestamp: poseData.timestamp, feedback }];
+      this.reps.push(this.analyzeRep(reps[reps.length - 1], frames));
+      // Keep the frame that ended this rep: it is where the next one starts
+      this.pendingFrames = this.pendingFrames.slice(-1);
+    }
+
+    return feedback;
+  }
+
+  /**
+   * Runs a recorded trace through a fresh analyzer with the same options the
+   * set was recorded with, reproducing its original analysis.
+   */
+  static analyzeTrace(trace: PoseTrace, options: SetAnalyzerOptions = {}): SetAnalysis {
+    const analyzer = new SetAnalyzer(trace.header.movement, {
+      calibration: trace.header.calibration,
+      athleteHeightCm: trace.header.athleteHeightCm,
+      ...options,
+    });
+    trace.frames.forEach(frame => analyzer.addFrame(frame));
+    return analyzer.getSummary();
+  }
+
+  getCalibrationStatus(): CalibrationStatus {
+    return this.calibration ? 'complete' : this.calibrator.getStatus();
+  }
+
+  getRepCount(): number {
+    return this.reps.length;
+  }
+
+  // Average score of the reps finished so far, for showing during the set
+  getRunningScore(): number | null {
+    return this.reps.length > 0 ? Math.round(average(this.reps.map(rep => rep.score))) : null;
+  }
+
+  getSummary(): SetAnalysis {
+    const reps = [...this.reps];
+    const frameCount = this.allScores.length;
+    const unreliableFrameCount = this.unreliableFrameCount;
+    const view = this.viewClassifier.getView();
+    const angleMode: AngleMode = frameCount > 0 && this.depthFrameCount > frameCount / 2 ? '3d' : '2d';
+    const skippedChecks = Object.keys(this.skipCounts)
+      .map(rule => this.skipCounts[rule])
+      .filter(entry => entry.frames >= frameCount / 2)
+      .map(entry => entry.check);
+
+    if (reps.length === 0) {
+      return {
+        movement: this.movement,
+        repCount: 0,
+        reps,
+        score: frameCount > 0 ? Math.round(average(this.allScores)) : 0,
+        breakdown: [],
+        recurringFaults: [],
+        feedback: [t(frameCount > 0 ? 'set.noReps' : 'set.noData')],
+        frameCount,
+        unreliableFrameCount,
+        view,
+        angleMode,
+        calibration: this.calibration,
+        velocity: null,
+        skippedChecks,
+      };
+    }
+
+    const best = reps.reduce((a, b) => (b.score > a.score ? b : a));
+    const worst = reps.reduce((a, b) => (b.score < a.score ? b : a));
+    const recurringFaults = this.findRecurringFaults(reps);
+    const velocity = summarizeVelocity(reps);
+
+    const feedback = recurringFaults.length > 0
+      ? recurringFaults.map(fault => t('set.recurringFault', {
+        message: fault.message,
+        reps: fault.reps.join(', '),
+        count: fault.reps.length,
+      }))
+      : [t('set.consistent')];
+    if (best.repNumber !== worst.repNumber) {
+      feedback.push(t('set.bestWorst', {
+        best: best.repNumber,
+        bestScore: best.score,
+        worst: worst.repNumber,
+        worstScore: worst.score,
+      }));
+    }
+    if (velocity && reps.length > 1) {
+      feedback.push(t('set.velocityLoss', {
+        percent: Math.round(velocity.velocityLoss),
+        rep: velocity.fastestRep,
+      }));
+    }
+
+    return {
+      movement: this.movement,
+      repCount: reps.length,
+      reps,
+      score: Math.round(average(reps.map(rep => rep.score))),
+      breakdown: this.summarizeBreakdown(reps),
+      bestRep: best.repNumber,
+      worstRep: worst.repNumber,
+      recurringFaults,
+      feedback,
+      frameCount,
+      unreliableFrameCount,
+      view,
+      angleMode,
+      calibration: this.calibration,
+      velocity,
+      skippedChecks,
+    };
+  }
+
+  private analyzeRep(rep: Rep, frames: FrameResult[]): RepAnalysis {
+    const definition = getMovement(this.movement)!;
+    const keyTime = definition.repPhases.startPosition === 'bottom'
+      ? rep.startTime
+      : rep.turnaroundTime;
+
+    const keyFrame = frames.reduce((closest, frame) =>
+      Math.abs(frame.timestamp - keyTime) < Math.abs(closest.timestamp - keyTime) ? frame : closest,
+    );
+
+    return {
+      repNumber: rep.repNumber,
+      startTime: rep.startTime,
+      endTime: rep.endTime,
+      score: keyFrame.feedback.score,
+      items: keyFrame.feedback.items,
+      feedback: keyFrame.feedback.feedback,
+      errors: keyFrame.feedback.errors,
+      details: keyFrame.feedback.details,
+      jointAngles: keyFrame.feedback.jointAngles,
+      breakdown: keyFrame.feedback.breakdown || [],
+      barPath: this.barPathTracker?.finishRep(rep.startTime, rep.endTime),
+      tempo: computeTempo(rep, definition.repPhases),
+      velocity: this.velocityTracker?.finishRep(rep, getMetersPerUnit(this.calibration, this.athleteHeightCm)),
+    };
+  }
+
+  // Reps finished before the calibration came in were measured in image
+  // units; they're converted so the whole set is in one unit
+  private rescaleVelocities(): void {
+    const metersPerUnit = getMetersPerUnit(this.calibration, this.athleteHeightCm);
+    if (!metersPerUnit) {
+      return;
+    }
+    this.reps = this.reps.map(rep => (rep.velocity
+      ? { ...rep, velocity: toMetersPerSecond(rep.velocity, metersPerUnit) }
+      : rep));
+  }
+
+  private summarizeBreakdown(reps: RepAnalysis[]): ScoreCriterion[] {
+    const rules = reps.find(rep => rep.breakdown.length > 0)?.breakdown || [];
+    return rules.map(({ rule, label, weight }) => {
+      const criteria = reps
+        .map(rep => ({ repNumber: rep.repNumber, criterion: rep.breakdown.find(c => c.rule === rule) }))
+        .filter(entry => entry.criterion);
+      const scored = criteria.filter(entry => entry.criterion!.subscore !== null);
+
+      const byCode: { [code: string]: ScoreDeduction & { reps: number[] } } = {};
+      criteria.forEach(({ repNumber, criterion }) => {
+        criterion!.deductions.forEach(deduction => {
+          byCode[deduction.code] = byCode[deduction.code] || { ...deduction, penalty: 0, reps: [] };
+          byCode[deduction.code].penalty += deduction.penalty / reps.length;
+          byCode[deduction.code].reps.push(repNumber);
+        });
+      });
+
+      return {
+        rule,
+        label,
+        weight,
+        subscore: scored.length > 0
+          ? Math.round(average(scored.map(entry => entry.criterion!.subscore!)))
+          : null,
+        deductions: Object.keys(byCode).map(code => byCode[code]),
+      };
+    });
+  }
+
+  // A fault is recurring when it shows up in at least two reps and at least
+  // half of the set
+  private findRecurringFaults(reps: RepAnalysis[]): RecurringFault[] {
+    const byCode: { [code: string]: RecurringFault } = {};
+    reps.forEach(rep => {
+      rep.items.filter(item => item.severity === 'error').forEach(item => {
+        byCode[item.code] = byCode[item.code] || { code: item.code, message: item.cue, reps: [] };
+        byCode[item.code].reps.push(rep.repNumber);
+      });
+    });
+
+    return Object.keys(byCode)
+      .map(code => byCode[code])
+      .filter(fault => fault.reps.length >= 2 && fault.reps.length >= reps.length / 2)
+      .sort((a, b) => b.reps.length - a.reps.length);
+  }
+}
+
+const average = (values: number[]): number =>
+  values.reduce((sum, value) => sum + value, 0) / values.length;
+
+export default SetAnalyzer;
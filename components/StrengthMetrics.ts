@@ -0,0 +1,181 @@
+// components/StrengthMetrics.ts
+import { HistorySet } from './HistoryStore';
+
+export type LoadUnit = 'kg' | 'lb';
+
+export const LOAD_UNITS: LoadUnit[] = ['kg', 'lb'];
+
+const LB_PER_KG = 2.20462;
+
+export const convertLoad = (value: number, from: LoadUnit, to: LoadUnit): number => {
+  if (from === to) {
+    return value;
+  }
+  return from === 'kg' ? value * LB_PER_KG : value / LB_PER_KG;
+};
+
+// What was on the bar and how hard the set was, as the lifter logged it
+export interface SetLoad {
+  load: number;
+  unit: LoadUnit;
+  // Reps completed; the analyzed count unless the lifter corrected it
+  reps: number;
+  // Rate of perceived exertion on the 6–10 scale; null when not logged
+  rpe: number | null;
+}
+
+// Half steps, as on the usual RPE chart
+export const RPE_VALUES = [6, 6.5, 7, 7.5, 8, 8.5, 9, 9.5, 10];
+
+export type OneRepMaxFormulaId = 'epley' | 'brzycki' | 'lombardi' | 'oconner' | 'wathan';
+
+export interface OneRepMaxFormula {
+  id: OneRepMaxFormulaId;
+  name: string;
+  // One-rep max from a load taken to failure for the given reps
+  estimate: (load: number, reps: number) => number;
+}
+
+export const ONE_REP_MAX_FORMULAS: OneRepMaxFormula[] = [
+  { id: 'epley', name: 'Epley', estimate: (load, reps) => load * (1 + reps / 30) },
+  { id: 'brzycki', name: 'Brzycki', estimate: (load, reps) => load * 36 / (37 - reps) },
+  { id: 'lombardi', name: 'Lombardi', estimate: (load, reps) => load * reps ** 0.1 },
+  { id: 'oconner', name: "O'Conner", estimate: (load, reps) => load * (1 + reps / 40) },
+  { id: 'wathan', name: 'Wathan', estimate: (load, reps) => 100 * load / (48.8 + 53.8 * Math.exp(-0.075 * reps)) },
+];
+
+export const DEFAULT_ONE_REP_MAX_FORMULA: OneRepMaxFormulaId = 'epley';
+
+export const getOneRepMaxFormula = (id: OneRepMaxFormulaId): OneRepMaxFormula =>
+  ONE_REP_MAX_FORMULAS.find(formula => formula.id === id) || ONE_REP_MAX_FORMULAS[0];
+
+// The formulas are fitted on sets of up to about ten reps; past this they guess
+const MAX_ESTIMATE_REPS = 12;
+
+// Reps the set would have gone to failure: the reps done plus those the RPE says were left
+export const getRepsToFailure = (set: SetLoad): number => set.reps + (set.rpe !== null ? 10 - set.rpe : 0);
+
+/**
+ * Estimated one-rep max, in the set's unit. Reps left in reserve count as
+ * reps, so a set of 5 at RPE 8 estimates like a set of 7 to failure. Null
+ * when the set is too far from failure for the formulas to hold.
+ */
+export const estimateOneRepMax = (
+  set: SetLoad,
+  formulaId: OneRepMaxFormulaId = DEFAULT_ONE_REP_MAX_FORMULA,
+): number | null => {
+  const reps = getRepsToFailure(set);
+  if (!(set.load > 0) || set.reps < 1 || reps > MAX_ESTIMATE_REPS) {
+    return null;
+  }
+  return reps <= 1 ? set.load : getOneRepMaxFormula(formulaId).estimate(set.load, reps);
+};
+
+export interface IntensityPoint {
+  setId: string;
+  // Epoch ms
+  timestamp: number;
+  // Load as a share of the reference one-rep max
+  intensity: number;
+  load: number;
+  score: number;
+}
+
+export interface IntensityBand {
+  // Shares of the reference one-rep max; from inclusive, to exclusive
+  from: number;
+  to: number;
+  setCount: number;
+  averageScore: number;
+}
+
+export interface IntensityProfile {
+  movement: string;
+  // Loads below are in this unit
+  unit: LoadUnit;
+  formula: OneRepMaxFormulaId;
+  // Best estimated one-rep max over the movement's sets
+  referenceOneRepMax: number | null;
+  // Lightest first
+  points: IntensityPoint[];
+  bands: IntensityBand[];
+  // Where form scores drop below the bar and stay there at every heavier
+  // band; null while form holds up
+  breakdown: { intensity: number; load: number } | null;
+}
+
+export interface IntensityProfileOptions {
+  bandWidth: number;
+  // Average score a band has to reach for form to count as holding up
+  minScore: number;
+  // Bands with fewer sets are shown but not judged
+  minBandSets: number;
+}
+
+const DEFAULT_OPTIONS: IntensityProfileOptions = {
+  bandWidth: 0.1,
+  minScore: 70,
+  minBandSets: 2,
+};
+
+/**
+ * A movement's set scores against relative intensity, the load as a share
+ * of the best one-rep max its logged sets estimate, so sets at different
+ * weights can be compared and the load where technique starts to break
+ * down shows up.
+ */
+export const computeIntensityProfile = (
+  movement: string,
+  sets: HistorySet[],
+  unit: LoadUnit,
+  formula: OneRepMaxFormulaId = DEFAULT_ONE_REP_MAX_FORMULA,
+  options: Partial<IntensityProfileOptions> = {},
+): IntensityProfile => {
+  const { bandWidth, minScore, minBandSets } = { ...DEFAULT_OPTIONS, ...options };
+  const loaded = sets
+    .filter(set => set.movement === movement && set.repCount > 0 && set.load && set.load.load > 0)
+    .map(set => ({ set, load: set.load! }));
+
+  const estimates = loaded
+    .map(({ load }) => estimateOneRepMax(load, formula))
+    .map((estimate, index) => (estimate !== null ? convertLoad(estimate, loaded[index].load.unit, unit) : null))
+    .filter((estimate): estimate is number => estimate !== null);
+  const referenceOneRepMax = estimates.length > 0 ? Math.max(...estimates) : null;
+  if (referenceOneRepMax === null) {
+    return { movement, unit, formula, referenceOneRepMax, points: [], bands: [], breakdown: null };
+  }
+
+  const points: IntensityPoint[] = loaded
+    .map(({ set, load }) => {
+      const value = convertLoad(load.load, load.unit, unit);
+      return {
+        setId: set.id,
+        timestamp: set.recordedAt,
+        intensity: value / referenceOneRepMax,
+        load: value,
+        score: set.score,
+      };
+    })
+    .sort((a, b) => a.intensity - b.intensity);
+
+  const bands: IntensityBand[] = [];
+  points.forEach(point => {
+    // Rounded so 0.7 lands in the 70% band despite floating point
+    const from = Math.floor(Math.round(point.intensity / bandWidth * 1e6) / 1e6) * bandWidth;
+    const band = bands.find(candidate => Math.abs(candidate.from - from) < 1e-9);
+    if (band) {
+      band.averageScore = (band.averageScore * band.setCount + point.score) / (band.setCount + 1);
+      band.setCount += 1;
+    } else {
+      bands.push({ from, to: from + bandWidth, setCount: 1, averageScore: point.score });
+    }
+  });
+
+  const judged = bands.filter(band => band.setCount >= minBandSets);
+  let breakdown: IntensityProfile['breakdown'] = null;
+  for (let i = judged.length - 1; i >= 0 && judged[i].averageScore < minScore; i--) {
+    breakdown = { intensity: judged[i].from, load: judged[i].from * referenceOneRepMax };
+  }
+
+  return { movement, unit, formula, referenceOneRepMax, points, bands, breakdown };
+};
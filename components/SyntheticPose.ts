@@ -0,0 +1,339 @@
+// components/SyntheticPose.ts
+import { KeyPoint, PoseData } from './FormAnalyzer';
+import { CameraView } from './ViewClassifier';
+
+export type SyntheticMovement = 'squat' | 'bench' | 'deadlift';
+
+export type SyntheticFault =
+  | 'shallowDepth'
+  | 'kneeCave'
+  | 'forwardLean'
+  | 'flaredElbows'
+  | 'roundedBack'
+  | 'asymmetry';
+
+export interface SyntheticSetOptions {
+  reps: number;
+  view: Exclude<CameraView, 'oblique' | 'unknown'>;
+  faults: SyntheticFault[];
+  fps: number;
+  // Still hold before the first rep, long enough for calibration
+  setupSeconds: number;
+  repSeconds: number;
+  // Hold at the start position between reps
+  restSeconds: number;
+  // Standard deviation of the jitter added to every keypoint, in image units
+  noise: number;
+  seed: number;
+  visibility: number;
+  // Camera distance; 1 puts a standing athlete at roughly 80% of frame height
+  scale: number;
+  // Adds a z coordinate (depth towards the camera) to every keypoint
+  includeDepth: boolean;
+}
+
+const DEFAULT_OPTIONS: SyntheticSetOptions = {
+  reps: 3,
+  view: 'side',
+  faults: [],
+  fps: 30,
+  setupSeconds: 2.5,
+  repSeconds: 2,
+  restSeconds: 1,
+  noise: 0,
+  seed: 1,
+  visibility: 0.95,
+  scale: 1,
+  includeDepth: false,
+};
+
+// Body proportions in image units at scale 1
+const BODY = {
+  shin: 0.2,
+  femur: 0.2,
+  torso: 0.26,
+  upperArm: 0.14,
+  forearm: 0.12,
+  neck: 0.1,
+  shoulderHalfWidth: 0.075,
+  hipHalfWidth: 0.045,
+  ankleHalfWidth: 0.07,
+  gripHalfWidth: 0.11,
+};
+
+// World coordinates: forward (the way the athlete faces, or headward when
+// lying on a bench), up, and lateral (towards the athlete's left)
+interface Joint {
+  f: number;
+  u: number;
+  l: number;
+}
+
+type Skeleton = { [name: string]: Joint };
+
+type Side = 'left' | 'right';
+
+const SIDES: [Side, number][] = [['left', 1], ['right', -1]];
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+const add = (a: Joint, b: Joint): Joint => ({ f: a.f + b.f, u: a.u + b.u, l: a.l + b.l });
+
+const scaleJoint = (a: Joint, k: number): Joint => ({ f: a.f * k, u: a.u * k, l: a.l * k });
+
+const subtract = (a: Joint, b: Joint): Joint => add(a, scaleJoint(b, -1));
+
+const length = (a: Joint) => Math.sqrt(a.f * a.f + a.u * a.u + a.l * a.l);
+
+const centre = (a: Joint, b: Joint): Joint => scaleJoint(add(a, b), 0.5);
+
+// Unit vector at `degrees` from vertical, tilted forward
+const tilted = (degrees: number, len: number): Joint => ({
+  f: Math.sin(toRadians(degrees)) * len,
+  u: Math.cos(toRadians(degrees)) * len,
+  l: 0,
+});
+
+/**
+ * Places the elbow given shoulder and wrist. The elbow can sit anywhere on a
+ * circle around the shoulder-wrist axis; flare is the angle around that
+ * circle from tucked (pointing at the feet) to fully out to the side.
+ */
+const placeElbow = (shoulder: Joint, wrist: Joint, side: number, flareDegrees: number): Joint => {
+  const axis = subtract(wrist, shoulder);
+  const d = Math.min(length(axis), BODY.upperArm + BODY.forearm - 1e-6);
+  const n = scaleJoint(axis, 1 / length(axis));
+  const along = (BODY.upperArm ** 2 - BODY.forearm ** 2 + d * d) / (2 * d);
+  const radius = Math.sqrt(Math.max(0, BODY.upperArm ** 2 - along * along));
+
+  // Feet direction and the outward lateral direction, made perpendicular to the axis
+  const perpendicular = (v: Joint): Joint => {
+    const dot = v.f * n.f + v.u * n.u + v.l * n.l;
+    const p = subtract(v, scaleJoint(n, dot));
+    return scaleJoint(p, 1 / (length(p) || 1));
+  };
+  const tucked = perpendicular({ f: -1, u: -0.3, l: 0 });
+  const outward = perpendicular({ f: 0, u: 0, l: side });
+
+  const flare = toRadians(flareDegrees);
+  return add(
+    add(shoulder, scaleJoint(n, along)),
+    add(scaleJoint(tucked, radius * Math.cos(flare)), scaleJoint(outward, radius * Math.sin(flare))),
+  );
+};
+
+// Standing lifts. Squat progress runs 0 (standing) to 1 (bottom), deadlift
+// 0 (bar on the floor) to 1 (lockout).
+const legsAndTorso = (
+  shinDegrees: number,
+  thighDegrees: number,
+  torsoDegrees: number,
+  kneeHalfWidth: number,
+  rightHipDrop: number,
+): Skeleton => {
+  const skeleton: Skeleton = {};
+  SIDES.forEach(([side, sign]) => {
+    const ankle = { f: 0, u: 0, l: sign * BODY.ankleHalfWidth };
+    const knee = { ...add(ankle, tilted(shinDegrees, BODY.shin)), l: sign * kneeHalfWidth };
+    const hip = { ...add(knee, tilted(-thighDegrees, BODY.femur)), l: sign * BODY.hipHalfWidth };
+    if (side === 'right') {
+      hip.u -= rightHipDrop;
+    }
+    skeleton[`${side}Ankle`] = ankle;
+    skeleton[`${side}Knee`] = knee;
+    skeleton[`${side}Hip`] = hip;
+  });
+  const torso = tilted(torsoDegrees, BODY.torso);
+  SIDES.forEach(([side, sign]) => {
+    skeleton[`${side}Shoulder`] = { ...add(skeleton[`${side}Hip`], torso), l: sign * BODY.shoulderHalfWidth };
+  });
+  return skeleton;
+};
+
+const squatPose = (progress: number, faults: SyntheticFault[]): Skeleton => {
+  const has = (fault: SyntheticFault) => faults.includes(fault);
+  const torsoDegrees = progress * (has('forwardLean') ? 45 : 10);
+  const skeleton = legsAndTorso(
+    progress * 30,
+    progress * (has('shallowDepth') ? 75 : 115),
+    torsoDegrees,
+    has('kneeCave') ? 0.055 - progress * 0.03 : 0.055 + progress * 0.01,
+    has('asymmetry') ? progress * 0.035 : 0,
+  );
+
+  const shoulders = centre(skeleton.leftShoulder, skeleton.rightShoulder);
+  skeleton.nose = add(shoulders, tilted(torsoDegrees, BODY.neck));
+
+  // Bar on the upper back, hands just outside the shoulders
+  SIDES.forEach(([side, sign]) => {
+    const shoulder = skeleton[`${side}Shoulder`];
+    const wrist = { f: shoulder.f - 0.03, u: shoulder.u + 0.01, l: sign * BODY.gripHalfWidth * 1.5 };
+    skeleton[`${side}Wrist`] = wrist;
+    skeleton[`${side}Elbow`] = placeElbow(shoulder, wrist, sign, 70);
+  });
+  return skeleton;
+};
+
+const deadliftPose = (progress: number, faults: SyntheticFault[]): Skeleton => {
+  const has = (fault: SyntheticFault) => faults.includes(fault);
+  const remaining = 1 - progress;
+  const torsoDegrees = remaining * 50;
+  const skeleton = legsAndTorso(
+    remaining * 15,
+    remaining * 75,
+    torsoDegrees,
+    0.07,
+    has('asymmetry') ? remaining * 0.035 : 0,
+  );
+
+  // A rounded upper back drops the head forward of the torso line; it
+  // straightens out as the lifter reaches lockout
+  const rounding = has('roundedBack') ? 45 * remaining : 0;
+  const shoulders = centre(skeleton.leftShoulder, skeleton.rightShoulder);
+  skeleton.nose = add(shoulders, tilted(torsoDegrees + rounding, BODY.neck));
+
+  // Arms hang straight down from the shoulders
+  SIDES.forEach(([side, sign]) => {
+    const shoulder = { ...skeleton[`${side}Shoulder`], l: sign * BODY.gripHalfWidth * 0.8 };
+    skeleton[`${side}Elbow`] = add(shoulder, { f: 0, u: -BODY.upperArm, l: 0 });
+    skeleton[`${side}Wrist`] = add(shoulder, { f: 0, u: -(BODY.upperArm + BODY.forearm), l: 0 });
+  });
+  return skeleton;
+};
+
+// Lying on the bench: forward is headward, up is away from the bench.
+// Progress runs 0 (lockout) to 1 (bar on the chest).
+const benchPose = (progress: number, faults: SyntheticFault[]): Skeleton => {
+  const has = (fault: SyntheticFault) => faults.includes(fault);
+  const skeleton: Skeleton = {};
+  SIDES.forEach(([side, sign]) => {
+    const shoulder = { f: 0, u: 0, l: sign * BODY.shoulderHalfWidth };
+    const hip = { f: -BODY.torso, u: -0.01, l: sign * BODY.hipHalfWidth };
+    const knee = add(hip, { f: -BODY.femur, u: 0.03, l: 0.01 * sign });
+    const ankle = add(knee, { f: 0.05, u: -BODY.shin, l: 0.03 * sign });
+
+    // The bar comes down to the lower chest and back up over the shoulders
+    const lag = side === 'right' && has('asymmetry') ? 0.04 * progress : 0;
+    const wrist = {
+      f: -0.03 * progress,
+      u: 0.25 - 0.18 * progress + lag,
+      l: sign * BODY.gripHalfWidth,
+    };
+    const flare = has('flaredElbows') ? 85 : 35;
+
+    skeleton[`${side}Shoulder`] = shoulder;
+    skeleton[`${side}Elbow`] = placeElbow(shoulder, wrist, sign, flare);
+    skeleton[`${side}Wrist`] = wrist;
+    skeleton[`${side}Hip`] = hip;
+    skeleton[`${side}Knee`] = knee;
+    skeleton[`${side}Ankle`] = ankle;
+  });
+  skeleton.nose = { f: BODY.neck, u: 0.03, l: 0 };
+  return skeleton;
+};
+
+const POSES: { [movement in SyntheticMovement]: (progress: number, faults: SyntheticFault[]) => Skeleton } = {
+  squat: squatPose,
+  bench: benchPose,
+  deadlift: deadliftPose,
+};
+
+// Where the lowest point of the athlete (feet, or the bench) sits in the frame
+const GROUND_Y: { [movement in SyntheticMovement]: number } = {
+  squat: 0.9,
+  bench: 0.7,
+  deadlift: 0.9,
+};
+
+// Park-Miller generator so noisy sets are reproducible
+const seededRandom = (seed: number) => {
+  let state = Math.abs(Math.floor(seed)) % 2147483646 + 1;
+  return () => {
+    state = state * 16807 % 2147483647;
+    return (state - 1) / 2147483646;
+  };
+};
+
+export const isSyntheticMovement = (movement: string): movement is SyntheticMovement =>
+  Object.prototype.hasOwnProperty.call(POSES, movement);
+
+/**
+ * Projects the skeleton into normalized image coordinates. From the side the
+ * camera is turned slightly so left and right don't sit exactly on top of
+ * each other; from the front the athlete's left appears on the image right.
+ */
+const project = (
+  skeleton: Skeleton,
+  movement: SyntheticMovement,
+  options: SyntheticSetOptions,
+  gaussian: () => number,
+): { [name: string]: KeyPoint } => {
+  const { scale, view, noise, visibility, includeDepth } = options;
+  const keypoints: { [name: string]: KeyPoint } = {};
+  Object.keys(skeleton).forEach(name => {
+    const joint = skeleton[name];
+    // Turning the camera rotates forward into depth as well
+    const [horizontal, depth] = view === 'side'
+      ? [joint.f + joint.l * 0.15, joint.l - joint.f * 0.15]
+      : [-joint.l, -joint.f];
+    const point: KeyPoint = {
+      x: 0.5 + horizontal * scale + gaussian() * noise,
+      y: GROUND_Y[movement] - joint.u * scale + gaussian() * noise,
+      visibility,
+    };
+    if (includeDepth) {
+      point.z = depth * scale;
+    }
+    keypoints[name] = point;
+  });
+  return keypoints;
+};
+
+/**
+ * Generates a set of PoseData frames for a lift: a still setup hold, then
+ * `reps` smooth reps separated by holds at the start position, with the
+ * requested faults built into the movement. Faults that don't apply to the
+ * lift are ignored.
+ */
+export const generateSyntheticSet = (
+  movement: SyntheticMovement,
+  options: Partial<SyntheticSetOptions> = {},
+): PoseData[] => {
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+  const random = seededRandom(settings.seed);
+  // Box-Muller
+  const gaussian = () => {
+    if (!settings.noise) {
+      return 0;
+    }
+    const u = Math.max(random(), 1e-12);
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+  };
+
+  const frames: PoseData[] = [];
+  const frameMs = 1000 / settings.fps;
+  let timestamp = 0;
+  const push = (progress: number) => {
+    const skeleton = POSES[movement](progress, settings.faults);
+    frames.push({
+      timestamp: Math.round(timestamp),
+      keypoints: project(skeleton, movement, settings, gaussian),
+    });
+    timestamp += frameMs;
+  };
+  const hold = (seconds: number) => {
+    for (let i = 0; i < Math.round(seconds * settings.fps); i++) {
+      push(0);
+    }
+  };
+
+  hold(settings.setupSeconds);
+  for (let rep = 0; rep < settings.reps; rep++) {
+    const repFrames = Math.round(settings.repSeconds * settings.fps);
+    for (let i = 0; i < repFrames; i++) {
+      push((1 - Math.cos(i / repFrames * 2 * Math.PI)) / 2);
+    }
+    hold(settings.restSeconds);
+  }
+  return frames;
+};
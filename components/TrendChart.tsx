@@ -0,0 +1,74 @@
+// components/TrendChart.tsx
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+import { SessionPoint } from './ProgressStats';
+
+interface TrendChartProps {
+  // Oldest first
+  sessions: SessionPoint[];
+  // Session whose bar is highlighted, e.g. the one holding the personal best
+  highlightSessionId?: string | null;
+  // Sessions at the end drawn as a regression
+  flaggedCount?: number;
+  height?: number;
+}
+
+// Shortest bar, so the lowest session still shows
+const MIN_BAR = 6;
+
+/**
+ * One bar per session, scaled between the lowest and highest session
+ * values so small changes in a metric stay visible.
+ */
+const TrendChart: React.FC<TrendChartProps> = ({
+  sessions,
+  highlightSessionId = null,
+  flaggedCount = 0,
+  height = 64,
+}) => {
+  const values = sessions.map(session => session.value);
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min;
+
+  return (
+    <View style={[styles.chart, { height }]}>
+      {sessions.map((session, index) => {
+        const share = range > 0 ? (session.value - min) / range : 1;
+        return (
+          <View
+            key={session.sessionId}
+            style={[
+              styles.bar,
+              { height: MIN_BAR + share * (height - MIN_BAR) },
+              index >= sessions.length - flaggedCount && styles.barFlagged,
+              session.sessionId === highlightSessionId && styles.barHighlighted,
+            ]}
+          />
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  chart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+  },
+  bar: {
+    flex: 1,
+    maxWidth: 24,
+    marginHorizontal: 2,
+    borderTopLeftRadius: 3,
+    borderTopRightRadius: 3,
+    backgroundColor: '#3b82f6',
+  },
+  barFlagged: {
+    backgroundColor: '#ef4444',
+  },
+  barHighlighted: {
+    backgroundColor: '#22c55e',
+  },
+});
+
+export default TrendChart;
@@ -0,0 +1,158 @@
+// components/VelocityMetrics.ts
+import { PoseData } from './FormAnalyzer';
+import { Rep, RepPhaseDefinition } from './RepTracker';
+
+// Seconds spent in each part of the rep
+export interface RepTempo {
+  eccentric: number;
+  pause: number;
+  concentric: number;
+  timeUnderTension: number;
+}
+
+// m/s once the athlete's height is known, otherwise normalized image units/s
+export type VelocityUnit = 'm/s' | 'image/s';
+
+export interface RepVelocity {
+  meanConcentric: number;
+  peakConcentric: number;
+  unit: VelocityUnit;
+}
+
+export interface SetVelocity {
+  unit: VelocityUnit;
+  fastestRep: number;
+  // Drop from the fastest rep to the last one, as a percentage
+  velocityLoss: number;
+  // Drop from the fastest rep so far, as a percentage, by rep number; reps
+  // without a measured velocity have no entry
+  repVelocityLoss: { [repNumber: number]: number };
+}
+
+interface Sample {
+  timestamp: number;
+  position: number;
+}
+
+export const computeTempo = (rep: Rep, definition: RepPhaseDefinition): RepTempo => {
+  const toTurnaround = (rep.pauseStart - rep.startTime) / 1000;
+  const fromTurnaround = (rep.endTime - rep.pauseEnd) / 1000;
+  const topStart = definition.startPosition === 'top';
+  return {
+    eccentric: topStart ? toTurnaround : fromTurnaround,
+    pause: (rep.pauseEnd - rep.pauseStart) / 1000,
+    concentric: topStart ? fromTurnaround : toTurnaround,
+    timeUnderTension: (rep.endTime - rep.startTime) / 1000,
+  };
+};
+
+/**
+ * Records the vertical position the rep tracker follows and turns it into
+ * concentric velocity for each finished rep.
+ */
+class VelocityTracker {
+  private definition: RepPhaseDefinition;
+  private samples: Sample[] = [];
+
+  constructor(definition: RepPhaseDefinition) {
+    this.definition = definition;
+  }
+
+  addFrame(poseData: PoseData): void {
+    const position = this.definition.signal(poseData.keypoints);
+    if (position !== null && isFinite(position)) {
+      this.samples.push({ timestamp: poseData.timestamp, position });
+    }
+  }
+
+  /**
+   * Velocity over the rep's concentric phase. Pass metersPerUnit to get m/s;
+   * without it velocities stay in normalized image units per second.
+   */
+  finishRep(rep: Rep, metersPerUnit: number | null = null): RepVelocity | null {
+    const topStart = this.definition.startPosition === 'top';
+    const [from, to] = topStart ? [rep.pauseEnd, rep.endTime] : [rep.startTime, rep.pauseStart];
+    const concentric = this.samples.filter(s => s.timestamp >= from && s.timestamp <= to);
+    this.samples = this.samples.filter(s => s.timestamp >= rep.endTime);
+
+    if (concentric.length < 3) {
+      return null;
+    }
+
+    const scale = metersPerUnit || 1;
+    const first = concentric[0];
+    const last = concentric[concentric.length - 1];
+    const duration = (last.timestamp - first.timestamp) / 1000;
+    if (duration <= 0) {
+      return null;
+    }
+
+    // Central differences smooth out single-frame jitter in the peak
+    let peak = 0;
+    for (let i = 1; i < concentric.length - 1; i++) {
+      const elapsed = (concentric[i + 1].timestamp - concentric[i - 1].timestamp) / 1000;
+      if (elapsed > 0) {
+        peak = Math.max(peak, Math.abs(concentric[i + 1].position - concentric[i - 1].position) / elapsed);
+      }
+    }
+
+    return {
+      meanConcentric: Math.abs(last.position - first.position) / duration * scale,
+      peakConcentric: peak * scale,
+      unit: metersPerUnit ? 'm/s' : 'image/s',
+    };
+  }
+
+  reset(): void {
+    this.samples = [];
+  }
+}
+
+// Converts a velocity measured in image units to m/s; one already in m/s is returned as is
+export const toMetersPerSecond = (velocity: RepVelocity, metersPerUnit: number): RepVelocity =>
+  velocity.unit === 'm/s'
+    ? velocity
+    : {
+      meanConcentric: velocity.meanConcentric * metersPerUnit,
+      peakConcentric: velocity.peakConcentric * metersPerUnit,
+      unit: 'm/s',
+    };
+
+/**
+ * Velocity loss across the set, the usual VBT stopping criterion: how much
+ * slower each rep is than the fastest one before it. Velocities in different
+ * units can't be compared, so only the m/s ones count when there are any.
+ */
+export const summarizeVelocity = (
+  reps: { repNumber: number; velocity?: RepVelocity | null }[],
+): SetVelocity | null => {
+  const withVelocity = reps.filter(rep => rep.velocity) as { repNumber: number; velocity: RepVelocity }[];
+  const unit: VelocityUnit = withVelocity.some(rep => rep.velocity.unit === 'm/s') ? 'm/s' : 'image/s';
+  const measured = withVelocity.filter(rep => rep.velocity.unit === unit);
+  if (measured.length === 0) {
+    return null;
+  }
+
+  let fastest = measured[0];
+  const repVelocityLoss: { [repNumber: number]: number } = {};
+  measured.forEach(rep => {
+    if (rep.velocity.meanConcentric > fastest.velocity.meanConcentric) {
+      fastest = rep;
+    }
+    repVelocityLoss[rep.repNumber] = velocityLoss(fastest.velocity, rep.velocity);
+  });
+
+  return {
+    unit,
+    fastestRep: fastest.repNumber,
+    velocityLoss: velocityLoss(fastest.velocity, measured[measured.length - 1].velocity),
+    repVelocityLoss,
+  };
+};
+
+const velocityLoss = (fastest: RepVelocity, rep: RepVelocity): number =>
+  fastest.meanConcentric > 0
+    ? (fastest.meanConcentric - rep.meanConcentric) / fastest.meanConcentric * 100
+    : 0;
+
+export default VelocityTracker;
@@ -0,0 +1,142 @@
+// components/VideoStore.ts
+import { FileSystem, getFileSystem } from './FileSystem';
+
+export interface StoredVideo {
+  path: string;
+  movement: string;
+  // Epoch ms, kept in the file name
+  recordedAt: number;
+  size: number;
+}
+
+export interface VideoStoreOptions {
+  // Under the app's documents directory
+  directory: string;
+  maxFiles: number;
+  maxTotalBytes: number;
+  maxAgeDays: number;
+}
+
+const DEFAULT_OPTIONS: VideoStoreOptions = {
+  directory: 'recordings',
+  maxFiles: 20,
+  maxTotalBytes: 500 * 1024 * 1024,
+  maxAgeDays: 30,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// <recordedAt>-<movement>.<ext>
+const FILE_NAME = /^(\d+)-(\w+)\.(\w+)$/;
+
+/**
+ * Keeps recorded sets in an app-managed directory. Every save prunes the
+ * directory back within its limits, oldest recordings first; the one just
+ * saved is always kept.
+ */
+export class VideoStore {
+  private fs: FileSystem | null;
+  private options: VideoStoreOptions;
+  private clock: () => number;
+
+  constructor(
+    fs: FileSystem | null = getFileSystem(),
+    options: Partial<VideoStoreOptions> = {},
+    clock: () => number = Date.now,
+  ) {
+    this.fs = fs;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.clock = clock;
+  }
+
+  isAvailable(): boolean {
+    return this.fs !== null;
+  }
+
+  getDirectory(): string {
+    return `${this.requireFs().DocumentDirectoryPath}/${this.options.directory}`;
+  }
+
+  // Moves a finished recording out of the camera's temporary files
+  async save(sourcePath: string, movement: string): Promise<StoredVideo> {
+    const fs = this.requireFs();
+    const directory = this.getDirectory();
+    if (!(await fs.exists(directory))) {
+      await fs.mkdir(directory);
+    }
+
+    const recordedAt = this.clock();
+    const extension = sourcePath.match(/\.(\w+)$/)?.[1] || 'mp4';
+    const path = `${directory}/${recordedAt}-${movement}.${extension}`;
+    await fs.moveFile(sourcePath, path);
+
+    await this.prune(path);
+    const saved = (await this.list()).find(video => video.path === path);
+    return saved || { path, movement, recordedAt, size: 0 };
+  }
+
+  // Stored recordings, newest first
+  async list(): Promise<StoredVideo[]> {
+    const fs = this.requireFs();
+    const directory = this.getDirectory();
+    if (!(await fs.exists(directory))) {
+      return [];
+    }
+    const videos: StoredVideo[] = [];
+    (await fs.readDir(directory)).forEach(item => {
+      const match = item.isFile() ? item.name.match(FILE_NAME) : null;
+      if (match) {
+        videos.push({ path: item.path, movement: match[2], recordedAt: Number(match[1]), size: item.size });
+      }
+    });
+    return videos.sort((a, b) => b.recordedAt - a.recordedAt);
+  }
+
+  async remove(path: string): Promise<void> {
+    const fs = this.requireFs();
+    if (await fs.exists(path)) {
+      await fs.unlink(path);
+    }
+  }
+
+  /**
+   * Deletes recordings past the age limit, then the oldest until the count
+   * and total size fit. Returns the deleted paths.
+   */
+  async prune(keep?: string): Promise<string[]> {
+    const { maxFiles, maxTotalBytes, maxAgeDays } = this.options;
+    const oldestAllowed = this.clock() - maxAgeDays * DAY_MS;
+    const kept: StoredVideo[] = [];
+    const removed: string[] = [];
+    let totalBytes = 0;
+    // Once one recording doesn't fit, nothing older is kept either
+    let full = false;
+
+    for (const video of await this.list()) {
+      full = full
+        || video.recordedAt < oldestAllowed
+        || kept.length >= maxFiles
+        || totalBytes + video.size > maxTotalBytes;
+      if (!full || video.path === keep) {
+        kept.push(video);
+        totalBytes += video.size;
+      } else {
+        removed.push(video.path);
+      }
+    }
+
+    for (const path of removed) {
+      await this.remove(path);
+    }
+    return removed;
+  }
+
+  private requireFs(): FileSystem {
+    if (!this.fs) {
+      throw new Error('Video storage is not available');
+    }
+    return this.fs;
+  }
+}
+
+export default VideoStore;
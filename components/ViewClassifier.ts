@@ -0,0 +1,115 @@
+// components/ViewClassifier.ts
+import { Keypoints, distance, midpoint } from './PoseGeometry';
+
+export type CameraView = 'front' | 'side' | 'oblique' | 'unknown';
+
+export interface ViewClassifierOptions {
+  // Body width / torso length at or above which the athlete faces the camera
+  frontRatio: number;
+  // Body width / torso length at or below which the athlete is side-on
+  sideRatio: number;
+  // Frames considered when smoothing the classification
+  windowSize: number;
+  // Keypoints below this visibility don't count towards the view
+  minVisibility: number;
+}
+
+const DEFAULT_OPTIONS: ViewClassifierOptions = {
+  frontRatio: 0.45,
+  sideRatio: 0.2,
+  windowSize: 15,
+  minVisibility: 0.5,
+};
+
+const widthOf = (kp: Keypoints, left: string, right: string): number | null =>
+  kp[left] && kp[right] ? Math.abs(kp[left].x - kp[right].x) : null;
+
+// Only the keypoints the model is confident about
+const confidentKeypoints = (keypoints: Keypoints, minVisibility: number): Keypoints => {
+  const confident: Keypoints = {};
+  Object.keys(keypoints).forEach(name => {
+    if ((keypoints[name].visibility ?? 1) >= minVisibility) {
+      confident[name] = keypoints[name];
+    }
+  });
+  return confident;
+};
+
+/**
+ * Works out where the camera is from how wide the body looks relative to the
+ * torso. Shoulders and hips are spread across the image when the athlete
+ * faces the camera and stacked on top of each other when filmed side-on.
+ */
+export const classifyView = (
+  allKeypoints: Keypoints,
+  options: Partial<ViewClassifierOptions> = {},
+): CameraView => {
+  const { frontRatio, sideRatio, minVisibility } = { ...DEFAULT_OPTIONS, ...options };
+  const keypoints = confidentKeypoints(allKeypoints, minVisibility);
+
+  const widths = [
+    widthOf(keypoints, 'leftShoulder', 'rightShoulder'),
+    widthOf(keypoints, 'leftHip', 'rightHip'),
+  ].filter((width): width is number => width !== null);
+
+  // Torso length when the shoulders are visible, otherwise the thigh
+  const shoulderCenter = midpoint(keypoints.leftShoulder, keypoints.rightShoulder);
+  const hipCenter = midpoint(keypoints.leftHip, keypoints.rightHip);
+  const kneeCenter = midpoint(keypoints.leftKnee, keypoints.rightKnee);
+  const reference = distance(shoulderCenter, hipCenter) ?? distance(hipCenter, kneeCenter);
+
+  if (widths.length === 0 || !reference) {
+    return 'unknown';
+  }
+
+  const ratio = Math.max(...widths) / reference;
+  if (ratio >= frontRatio) {
+    return 'front';
+  }
+  if (ratio <= sideRatio) {
+    return 'side';
+  }
+  return 'oblique';
+};
+
+/**
+ * Streaming version of classifyView that reports the most common view over
+ * the last few frames, so a single bad frame can't switch rule sets.
+ */
+class ViewClassifier {
+  private options: ViewClassifierOptions;
+  private history: CameraView[] = [];
+
+  constructor(options: Partial<ViewClassifierOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  update(keypoints: Keypoints): CameraView {
+    const view = classifyView(keypoints, this.options);
+    if (view !== 'unknown') {
+      this.history.push(view);
+      if (this.history.length > this.options.windowSize) {
+        this.history.shift();
+      }
+    }
+    return this.getView();
+  }
+
+  getView(): CameraView {
+    const counts: { [view: string]: number } = {};
+    let best: CameraView = 'unknown';
+    this.history.forEach(view => {
+      counts[view] = (counts[view] || 0) + 1;
+      if (best === 'unknown' || counts[view] > counts[best]) {
+        best = view;
+      }
+    });
+    return best;
+  }
+
+  reset(): void {
+    this.history = [];
+  }
+}
+
+export default ViewClassifier;
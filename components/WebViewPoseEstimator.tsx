@@ -0,0 +1,103 @@
+// components/WebViewPoseEstimator.tsx
+import React from 'react';
+import { StyleSheet } from 'react-native';
+import { Landmark, KeypointSchemaName } from './KeypointSchema';
+import { LandmarkPoseEstimator } from './PoseEstimator';
+
+let WebView: any = null;
+
+try {
+  WebView = require('react-native-webview').WebView;
+} catch (error) {
+  console.log('WebView not available:', error);
+}
+
+/**
+ * What the hosted page posts through window.ReactNativeWebView.postMessage,
+ * JSON encoded. Landmarks are in the page's schema order; a pose message
+ * without landmarks means nobody was in the frame.
+ */
+export type PoseWebViewMessage =
+  | {
+      type: 'pose';
+      landmarks?: Landmark[];
+      timestamp: number;
+      width?: number;
+      height?: number;
+      normalized?: boolean;
+    }
+  | { type: 'error'; message: string };
+
+/**
+ * Runs a browser pose model (MediaPipe Pose, MoveNet via TF.js) in a WebView
+ * that reads the camera itself and posts landmarks back.
+ */
+export class WebViewPoseEstimator extends LandmarkPoseEstimator {
+  readonly name = 'webview';
+  private onError: ((message: string) => void) | null;
+
+  constructor(schema: KeypointSchemaName = 'blazepose33', onError?: (message: string) => void) {
+    super(schema);
+    this.onError = onError || null;
+  }
+
+  // Feed every message the WebView posts through here
+  handleMessage(data: string): void {
+    let message: PoseWebViewMessage;
+    try {
+      message = JSON.parse(data);
+    } catch (error) {
+      this.onError?.(`Unreadable pose message: ${data.slice(0, 80)}`);
+      return;
+    }
+
+    if (message.type === 'error') {
+      this.onError?.(message.message);
+      return;
+    }
+    if (message.type !== 'pose' || !message.landmarks || message.landmarks.length === 0) {
+      return;
+    }
+
+    const frameSize = message.width && message.height
+      ? { width: message.width, height: message.height }
+      : undefined;
+    try {
+      this.emit({
+        landmarks: message.landmarks,
+        timestamp: message.timestamp,
+        frameSize,
+        normalized: message.normalized ?? true,
+      });
+    } catch (error) {
+      this.onError?.(error instanceof Error ? error.message : String(error));
+    }
+  }
+}
+
+interface PoseWebViewProps {
+  estimator: WebViewPoseEstimator;
+  // The page hosting the model
+  source: { uri: string } | { html: string; baseUrl?: string };
+}
+
+// Hosts the model page for a WebViewPoseEstimator; renders nothing without WebView
+export const PoseWebView: React.FC<PoseWebViewProps> = ({ estimator, source }) => {
+  if (!WebView) {
+    return null;
+  }
+  return (
+    <WebView
+      style={StyleSheet.absoluteFill}
+      source={source}
+      originWhitelist={['*']}
+      javaScriptEnabled={true}
+      allowsInlineMediaPlayback={true}
+      mediaPlaybackRequiresUserAction={false}
+      mediaCapturePermissionGrantType="grant"
+      onMessage={(event: any) => estimator.handleMessage(event.nativeEvent.data)}
+    />
+  );
+};
+
+export default WebViewPoseEstimator;
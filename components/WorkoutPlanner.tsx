@@ -0,0 +1,252 @@
+// components/WorkoutPlanner.tsx
+import React, { useState } from 'react';
+import { ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { t } from '../i18n';
+import { MOVEMENTS } from './MovementRegistry';
+import { LoadUnit } from './StrengthMetrics';
+import { WorkoutPlan, validateWorkoutPlan } from './WorkoutSession';
+
+interface WorkoutPlannerProps {
+  initialMovement: string;
+  // Planned loads are in this unit
+  loadUnit: LoadUnit;
+  onStart: (plan: WorkoutPlan) => void;
+}
+
+// Inputs stay text while they're edited, so a field can be cleared
+interface ExerciseDraft {
+  movement: string;
+  sets: string;
+  targetReps: string;
+  load: string;
+}
+
+const DEFAULT_REST_SECONDS = 120;
+
+const newDraft = (movement: string): ExerciseDraft => ({ movement, sets: '3', targetReps: '5', load: '' });
+
+const toCount = (text: string): number => parseInt(text, 10);
+
+const toPlan = (exercises: ExerciseDraft[], rest: string): WorkoutPlan => ({
+  exercises: exercises.map(exercise => ({
+    movement: exercise.movement,
+    sets: toCount(exercise.sets),
+    targetReps: toCount(exercise.targetReps),
+    load: parseFloat(exercise.load) > 0 ? parseFloat(exercise.load) : null,
+  })),
+  restSeconds: toCount(rest),
+});
+
+// A plan can start once every exercise has sets and reps and rest is set
+const isComplete = (plan: WorkoutPlan): boolean => {
+  try {
+    validateWorkoutPlan(plan);
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Builds the list of exercises for a workout: each with its sets, rep
+ * target and load, plus the rest taken between sets.
+ */
+const WorkoutPlanner: React.FC<WorkoutPlannerProps> = ({ initialMovement, loadUnit, onStart }) => {
+  const [exercises, setExercises] = useState<ExerciseDraft[]>([newDraft(initialMovement)]);
+  const [rest, setRest] = useState(String(DEFAULT_REST_SECONDS));
+
+  const plan = toPlan(exercises, rest);
+
+  const updateExercise = (index: number, changes: Partial<ExerciseDraft>) => {
+    setExercises(current => current.map((exercise, i) => (i === index ? { ...exercise, ...changes } : exercise)));
+  };
+
+  const removeExercise = (index: number) => {
+    setExercises(current => current.filter((_, i) => i !== index));
+  };
+
+  const renderField = (label: string, value: string, onChange: (text: string) => void, placeholder?: string) => (
+    <View style={styles.field}>
+      <Text style={styles.fieldLabel}>{label}</Text>
+      <TextInput
+        style={styles.input}
+        value={value}
+        onChangeText={onChange}
+        keyboardType="numeric"
+        placeholder={placeholder}
+        placeholderTextColor="#71717a"
+        maxLength={5}
+      />
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <ScrollView style={styles.list}>
+        {exercises.length === 0 && (
+          <Text style={styles.empty}>{t('workout.empty')}</Text>
+        )}
+        {exercises.map((exercise, index) => (
+          <View key={index} style={styles.exercise}>
+            <View style={styles.exerciseHeader}>
+              <Text style={styles.exerciseName}>
+                {index + 1}. {t(`movement.${exercise.movement}.name`)}
+              </Text>
+              <TouchableOpacity onPress={() => removeExercise(index)}>
+                <Text style={styles.remove}>✕</Text>
+              </TouchableOpacity>
+            </View>
+            <View style={styles.fields}>
+              {renderField(t('workout.sets'), exercise.sets, sets => updateExercise(index, { sets }))}
+              {renderField(t('workout.reps'), exercise.targetReps, targetReps => updateExercise(index, { targetReps }))}
+              {renderField(
+                t('load.load', { unit: loadUnit }),
+                exercise.load,
+                load => updateExercise(index, { load }),
+                t('app.optional'),
+              )}
+            </View>
+          </View>
+        ))}
+      </ScrollView>
+
+      <Text style={styles.sectionLabel}>{t('workout.addExercise')}</Text>
+      <View style={styles.movements}>
+        {MOVEMENTS.map(movement => (
+          <TouchableOpacity
+            key={movement.id}
+            style={styles.movement}
+            onPress={() => setExercises(current => [...current, newDraft(movement.id)])}
+          >
+            <Text style={styles.movementText}>
+              {movement.icon} {t(`movement.${movement.id}.name`)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.restRow}>
+        <Text style={styles.sectionLabel}>{t('workout.rest')}</Text>
+        <TextInput
+          style={styles.input}
+          value={rest}
+          onChangeText={setRest}
+          keyboardType="numeric"
+          maxLength={4}
+        />
+      </View>
+
+      <TouchableOpacity
+        style={[styles.start, !isComplete(plan) && styles.startDisabled]}
+        onPress={() => onStart(plan)}
+        disabled={!isComplete(plan)}
+      >
+        <Text style={styles.startText}>{t('workout.start')}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  list: {
+    flex: 1,
+    marginBottom: 12,
+  },
+  empty: {
+    color: '#a1a1aa',
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  exercise: {
+    backgroundColor: '#18181b',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  exerciseHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  exerciseName: {
+    color: '#fafafa',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  remove: {
+    color: '#71717a',
+    fontSize: 16,
+  },
+  fields: {
+    flexDirection: 'row',
+  },
+  field: {
+    flex: 1,
+    marginRight: 8,
+  },
+  fieldLabel: {
+    color: '#a1a1aa',
+    fontSize: 12,
+    marginBottom: 4,
+  },
+  input: {
+    minWidth: 64,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#27272a',
+    borderWidth: 1,
+    borderColor: '#3f3f46',
+    color: '#fafafa',
+    textAlign: 'right',
+  },
+  sectionLabel: {
+    color: '#a1a1aa',
+    fontSize: 13,
+    marginBottom: 8,
+  },
+  movements: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 12,
+  },
+  movement: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#3f3f46',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  movementText: {
+    color: '#fafafa',
+    fontSize: 13,
+  },
+  restRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  start: {
+    backgroundColor: '#3b82f6',
+    paddingVertical: 14,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  startDisabled: {
+    opacity: 0.5,
+  },
+  startText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default WorkoutPlanner;
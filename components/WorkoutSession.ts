@@ -0,0 +1,278 @@
+// components/WorkoutSession.ts
+import { RecurringFault } from './SetAnalyzer';
+import { LoadUnit, SetLoad, convertLoad } from './StrengthMetrics';
+
+export interface PlannedExercise {
+  movement: string;
+  sets: number;
+  targetReps: number;
+  // Weight on the bar; null for bodyweight work
+  load: number | null;
+}
+
+export interface WorkoutPlan {
+  // Done in order, every set of one before the next
+  exercises: PlannedExercise[];
+  // Rest after each set before the next one starts
+  restSeconds: number;
+}
+
+// What a set's analysis contributes to the workout
+export interface WorkoutSetAnalysis {
+  score: number;
+  repCount: number;
+  durationSeconds: number;
+  recurringFaults: RecurringFault[];
+  // What was on the bar, as logged; null when no load was given
+  load: SetLoad | null;
+}
+
+export interface WorkoutSetResult extends WorkoutSetAnalysis {
+  exerciseIndex: number;
+  // 1-based within the exercise
+  setNumber: number;
+  movement: string;
+  // Epoch ms
+  completedAt: number;
+}
+
+export type WorkoutPhase = 'set' | 'rest' | 'finished';
+
+export interface WorkoutStatus {
+  phase: WorkoutPhase;
+  // The exercise and set up next; null once the workout is finished
+  exerciseIndex: number | null;
+  exercise: PlannedExercise | null;
+  setNumber: number;
+  restRemainingSeconds: number;
+  completedSets: number;
+  plannedSets: number;
+}
+
+export interface ExerciseSummary {
+  movement: string;
+  plannedSets: number;
+  completedSets: number;
+  targetReps: number;
+  load: number | null;
+  totalReps: number;
+  // Mean of the set scores; null when no set was done
+  averageScore: number | null;
+  // Set numbers
+  bestSet: number | null;
+  worstSet: number | null;
+  // Sets that came up short of the rep target
+  shortSets: number[];
+  // Faults that recurred within a set, with the sets they recurred in
+  faults: { code: string; message: string; sets: number[] }[];
+}
+
+export interface WorkoutSummary {
+  // Epoch ms
+  startedAt: number;
+  endedAt: number;
+  durationSeconds: number;
+  exercises: ExerciseSummary[];
+  completedSets: number;
+  plannedSets: number;
+  totalReps: number;
+  averageScore: number | null;
+  // Logged load × reps over the sets a load was logged for, in volumeUnit
+  volume: number;
+  volumeUnit: LoadUnit;
+}
+
+const mean = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+export const validateWorkoutPlan = (plan: WorkoutPlan): void => {
+  if (plan.exercises.length === 0) {
+    throw new Error('A workout needs at least one exercise');
+  }
+  plan.exercises.forEach((exercise, index) => {
+    if (!(exercise.sets >= 1) || !(exercise.targetReps >= 1)) {
+      throw new Error(`Exercise ${index + 1} needs at least one set of one rep`);
+    }
+  });
+  if (!(plan.restSeconds >= 0)) {
+    throw new Error('Rest can\'t be negative');
+  }
+};
+
+const summarizeExercise = (exercise: PlannedExercise, sets: WorkoutSetResult[]): ExerciseSummary => {
+  const byScore = [...sets].sort((a, b) => b.score - a.score);
+  const faults: ExerciseSummary['faults'] = [];
+  sets.forEach(set => set.recurringFaults.forEach(fault => {
+    const seen = faults.find(candidate => candidate.code === fault.code);
+    if (seen) {
+      seen.sets.push(set.setNumber);
+    } else {
+      faults.push({ code: fault.code, message: fault.message, sets: [set.setNumber] });
+    }
+  }));
+
+  return {
+    movement: exercise.movement,
+    plannedSets: exercise.sets,
+    completedSets: sets.length,
+    targetReps: exercise.targetReps,
+    load: exercise.load,
+    totalReps: sets.reduce((sum, set) => sum + set.repCount, 0),
+    averageScore: mean(sets.map(set => set.score)),
+    bestSet: byScore.length > 0 ? byScore[0].setNumber : null,
+    worstSet: byScore.length > 1 ? byScore[byScore.length - 1].setNumber : null,
+    shortSets: sets.filter(set => set.repCount < exercise.targetReps).map(set => set.setNumber),
+    // Faults that kept coming back across sets first
+    faults: faults.sort((a, b) => b.sets.length - a.sets.length),
+  };
+};
+
+// Rolls the sets done up per exercise and over the whole workout
+export const summarizeWorkout = (
+  plan: WorkoutPlan,
+  results: WorkoutSetResult[],
+  startedAt: number,
+  endedAt: number,
+  volumeUnit: LoadUnit = 'kg',
+): WorkoutSummary => {
+  const exercises = plan.exercises.map((exercise, index) =>
+    summarizeExercise(exercise, results.filter(result => result.exerciseIndex === index)));
+  return {
+    startedAt,
+    endedAt,
+    durationSeconds: Math.round((endedAt - startedAt) / 1000),
+    exercises,
+    completedSets: results.length,
+    plannedSets: plan.exercises.reduce((sum, exercise) => sum + exercise.sets, 0),
+    totalReps: results.reduce((sum, result) => sum + result.repCount, 0),
+    averageScore: mean(results.map(result => result.score)),
+    volume: results.reduce((sum, { load }) =>
+      sum + (load ? convertLoad(load.load, load.unit, volumeUnit) * load.reps : 0), 0),
+    volumeUnit,
+  };
+};
+
+/**
+ * Walks a workout plan set by set. Each analyzed set is recorded against
+ * the exercise up next, which starts the rest before the following set;
+ * once an exercise's sets are done the workout moves on to the next one.
+ */
+class WorkoutSession {
+  private plan: WorkoutPlan;
+  private clock: () => number;
+  private startedAt: number;
+  private endedAt: number | null = null;
+  private exerciseIndex = 0;
+  private setNumber = 1;
+  private restEndsAt: number | null = null;
+  private results: WorkoutSetResult[] = [];
+
+  constructor(plan: WorkoutPlan, clock: () => number = Date.now) {
+    validateWorkoutPlan(plan);
+    this.plan = plan;
+    this.clock = clock;
+    this.startedAt = clock();
+  }
+
+  getPlan(): WorkoutPlan {
+    return this.plan;
+  }
+
+  getResults(): WorkoutSetResult[] {
+    return this.results;
+  }
+
+  isFinished(): boolean {
+    return this.endedAt !== null;
+  }
+
+  getStatus(): WorkoutStatus {
+    const plannedSets = this.plan.exercises.reduce((sum, exercise) => sum + exercise.sets, 0);
+    if (this.endedAt !== null) {
+      return {
+        phase: 'finished',
+        exerciseIndex: null,
+        exercise: null,
+        setNumber: 0,
+        restRemainingSeconds: 0,
+        completedSets: this.results.length,
+        plannedSets,
+      };
+    }
+    const restRemainingMs = this.restEndsAt !== null ? Math.max(0, this.restEndsAt - this.clock()) : 0;
+    return {
+      phase: restRemainingMs > 0 ? 'rest' : 'set',
+      exerciseIndex: this.exerciseIndex,
+      exercise: this.plan.exercises[this.exerciseIndex],
+      setNumber: this.setNumber,
+      restRemainingSeconds: Math.ceil(restRemainingMs / 1000),
+      completedSets: this.results.length,
+      plannedSets,
+    };
+  }
+
+  // Records a set against the exercise up next and moves on
+  recordSet(analysis: WorkoutSetAnalysis): WorkoutSetResult {
+    if (this.endedAt !== null) {
+      throw new Error('The workout is already finished');
+    }
+    const now = this.clock();
+    const result: WorkoutSetResult = {
+      ...analysis,
+      exerciseIndex: this.exerciseIndex,
+      setNumber: this.setNumber,
+      movement: this.plan.exercises[this.exerciseIndex].movement,
+      completedAt: now,
+    };
+    this.results.push(result);
+
+    if (this.setNumber < this.plan.exercises[this.exerciseIndex].sets) {
+      this.setNumber += 1;
+    } else {
+      this.advanceExercise();
+    }
+    if (this.endedAt === null) {
+      this.restEndsAt = now + this.plan.restSeconds * 1000;
+    }
+    return result;
+  }
+
+  // Replaces a recorded set's load with the one the lifter logged after it
+  updateLoad(exerciseIndex: number, setNumber: number, load: SetLoad | null): void {
+    this.results = this.results.map(result =>
+      (result.exerciseIndex === exerciseIndex && result.setNumber === setNumber ? { ...result, load } : result));
+  }
+
+  skipRest(): void {
+    this.restEndsAt = null;
+  }
+
+  // Leaves the rest of the current exercise's sets undone; any rest running carries on
+  skipExercise(): void {
+    if (this.endedAt === null) {
+      this.advanceExercise();
+    }
+  }
+
+  finish(): void {
+    if (this.endedAt === null) {
+      this.endedAt = this.clock();
+      this.restEndsAt = null;
+    }
+  }
+
+  getSummary(volumeUnit: LoadUnit = 'kg'): WorkoutSummary {
+    return summarizeWorkout(this.plan, this.results, this.startedAt, this.endedAt ?? this.clock(), volumeUnit);
+  }
+
+  private advanceExercise(): void {
+    if (this.exerciseIndex + 1 >= this.plan.exercises.length) {
+      this.finish();
+      return;
+    }
+    this.exerciseIndex += 1;
+    this.setNumber = 1;
+  }
+}
+
+export default WorkoutSession;
@@ -0,0 +1,140 @@
+// components/WorkoutSummaryScreen.tsx
+import React from 'react';
+import { ScrollView, StyleSheet, Text, View } from 'react-native';
+import { t } from '../i18n';
+import { ExerciseSummary, WorkoutSummary } from './WorkoutSession';
+
+interface WorkoutSummaryScreenProps {
+  summary: WorkoutSummary;
+}
+
+const formatScore = (score: number | null): string => (score === null ? '–' : `${Math.round(score)}`);
+
+const getScoreColor = (score: number | null): string => {
+  if (score === null) {
+    return '#a1a1aa';
+  }
+  if (score >= 80) {
+    return '#22c55e';
+  }
+  return score >= 60 ? '#f59e0b' : '#ef4444';
+};
+
+// Totals for the workout, then each exercise's sets, scores and faults
+const WorkoutSummaryScreen: React.FC<WorkoutSummaryScreenProps> = ({ summary }) => {
+  const renderExercise = (exercise: ExerciseSummary, index: number) => (
+    <View key={index} style={styles.exercise}>
+      <View style={styles.exerciseHeader}>
+        <Text style={styles.exerciseName}>{t(`movement.${exercise.movement}.name`)}</Text>
+        <Text style={[styles.exerciseScore, { color: getScoreColor(exercise.averageScore) }]}>
+          {formatScore(exercise.averageScore)}
+        </Text>
+      </View>
+      <Text style={styles.note}>
+        {t('workout.exerciseSets', {
+          done: exercise.completedSets,
+          planned: exercise.plannedSets,
+          reps: exercise.totalReps,
+        })}
+      </Text>
+      {exercise.bestSet !== null && exercise.worstSet !== null && (
+        <Text style={styles.note}>
+          {t('workout.bestWorst', { best: exercise.bestSet, worst: exercise.worstSet })}
+        </Text>
+      )}
+      {exercise.shortSets.length > 0 && (
+        <Text style={styles.warning}>
+          {t('workout.shortSets', {
+            sets: exercise.shortSets.join(', '),
+            count: exercise.shortSets.length,
+            target: exercise.targetReps,
+          })}
+        </Text>
+      )}
+      {exercise.faults.map(fault => (
+        <Text key={fault.code} style={styles.fault}>
+          • {t('workout.fault', { message: fault.message, sets: fault.sets.join(', '), count: fault.sets.length })}
+        </Text>
+      ))}
+    </View>
+  );
+
+  return (
+    <ScrollView>
+      <View style={styles.totals}>
+        <Text style={[styles.score, { color: getScoreColor(summary.averageScore) }]}>
+          {formatScore(summary.averageScore)}
+        </Text>
+        <Text style={styles.note}>{t('workout.averageScore')}</Text>
+        <Text style={styles.totalsText}>
+          {t('workout.totals', {
+            sets: summary.completedSets,
+            planned: summary.plannedSets,
+            reps: summary.totalReps,
+            minutes: Math.round(summary.durationSeconds / 60),
+          })}
+        </Text>
+        {summary.volume > 0 && (
+          <Text style={styles.note}>{t('workout.volume', { volume: Math.round(summary.volume), unit: summary.volumeUnit })}</Text>
+        )}
+      </View>
+      {summary.exercises.map(renderExercise)}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  totals: {
+    alignItems: 'center',
+    backgroundColor: '#18181b',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  score: {
+    fontSize: 40,
+    fontWeight: 'bold',
+  },
+  totalsText: {
+    color: '#fafafa',
+    fontSize: 14,
+    marginTop: 8,
+  },
+  exercise: {
+    backgroundColor: '#18181b',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  exerciseHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  exerciseName: {
+    color: '#fafafa',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  exerciseScore: {
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  note: {
+    color: '#a1a1aa',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  warning: {
+    color: '#f59e0b',
+    fontSize: 12,
+    marginTop: 4,
+  },
+  fault: {
+    color: '#ef4444',
+    fontSize: 12,
+    marginTop: 4,
+  },
+});
+
+export default WorkoutSummaryScreen;
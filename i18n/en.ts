@@ -0,0 +1,189 @@
+// i18n/en.ts
+import { MOVEMENTS } from '../components/MovementRegistry';
+import { Catalog } from './index';
+
+// Movement copy and coaching cues are written in the registry next to the
+// rules they belong to; they're collected here so every locale shares keys
+const registryMessages = (): Catalog => {
+  const messages: Catalog = {};
+  MOVEMENTS.forEach(movement => {
+    messages[`movement.${movement.id}.name`] = movement.name;
+    messages[`movement.${movement.id}.description`] = movement.description;
+    messages[`movement.${movement.id}.cameraGuidance`] = movement.cameraGuidance;
+    messages[`movement.${movement.id}.incompletePose`] = movement.incompletePoseMessage;
+    movement.rules.forEach(rule => {
+      messages[`rule.${rule.id}`] = rule.label;
+      rule.thresholds.forEach(threshold => {
+        messages[`feedback.${threshold.code}`] = threshold.message;
+      });
+      if (rule.passMessage) {
+        messages[`feedback.${rule.code}_OK`] = rule.passMessage;
+      }
+    });
+  });
+  return messages;
+};
+
+const en: Catalog = {
+  ...registryMessages(),
+
+  'feedback.POSE_UNRELIABLE': 'Hold position - some joints are hard to see',
+  'feedback.POSE_INCOMPLETE': 'Incomplete pose detection',
+
+  'view.front': 'front',
+  'view.side': 'side',
+  'view.oblique': 'oblique',
+  'view.unknown': 'unknown',
+  'list.or': ' or ',
+
+  'segment.torso': 'torso',
+  'segment.femur': 'thigh',
+  'segment.shin': 'shin',
+  'segment.upperArm': 'upper arm',
+
+  'skip.wrongView': 'Needs a {views} view, camera is {view}',
+  'skip.notVisible': 'Keypoints for this check are not visible',
+  'skip.noSegment': "Couldn't measure {segment} length to scale this check",
+
+  'set.noReps': 'No complete reps detected - make sure the full range of motion is in frame',
+  'set.noData': 'No pose data was captured during this set',
+  'set.recurringFault': { one: '{message} (rep {reps})', other: '{message} (reps {reps})' },
+  'set.consistent': 'Consistent form across the set',
+  'set.bestWorst': 'Best rep: #{best} ({bestScore}), worst rep: #{worst} ({worstScore})',
+  'set.velocityLoss': 'Velocity loss: {percent}% from rep #{rep}',
+
+  'app.title': 'Technical Mastery',
+  'app.subtitle': 'AI Weightlifting Coach',
+  'app.selectMovement': 'Select Movement',
+  'app.language': 'Language',
+  'app.athleteHeight': 'Athlete height (cm)',
+  'app.optional': 'Optional',
+  'app.load': 'Load',
+  'app.readyToAnalyze': 'Ready to analyze: {movement}',
+  'app.tapToBegin': 'Tap "Start Recording" to begin analysis',
+  'app.viewLastResults': 'View Last Results ({score}/100)',
+  'app.viewProgress': 'View Progress',
+  'app.startRecording': 'Start Recording',
+  'app.readyToRecord': 'Ready to record {movement} analysis',
+  'app.version': 'MVP v1.1 - Camera Integration Active',
+  'app.scoreExcellent': 'Excellent',
+  'app.scoreGood': 'Good',
+  'app.scoreNeedsWork': 'Needs Work',
+
+  'results.title': 'Analysis Results',
+  'results.reps': { one: '{count} Rep', other: '{count} Reps' },
+  'results.breakdown': 'Score Breakdown',
+  'results.breakdownSummary': '100 − {points} in deductions = {score}',
+  'results.weight': 'up to −{points}',
+  'results.notMeasured': 'not checked',
+  'results.deductionReps': { one: 'rep {reps}', other: 'reps {reps}' },
+  'results.feedback': 'Feedback',
+  'results.tempoVelocity': 'Tempo & Velocity ({percent}% loss)',
+  'results.tempo': '#{rep}  {down} down · {pause} pause · {up} up',
+  'results.notChecked': 'Not Checked',
+  'results.duration': 'Duration: {seconds}s',
+  'results.view': '{view} view',
+  'results.angles3d': '3D angles',
+  'results.angles2d': '2D angles',
+  'results.recordAnother': 'Record Another Set',
+  'results.replay': 'Replay Set Through Analyzer',
+
+  'live.reps': { one: 'rep', other: 'reps' },
+  'live.setScore': 'set score',
+
+  'cue.setSummary': { one: 'Set done: {count} rep, score {score}', other: 'Set done: {count} reps, score {score}' },
+  'cue.workOn': 'Next set, work on this: {message}',
+
+  'progress.title': 'Progress',
+  'progress.empty': 'No saved sets for this movement yet',
+  'progress.sets': { one: '{count} set', other: '{count} sets' },
+  'progress.sessions': { one: '{count} session', other: '{count} sessions' },
+  'progress.score': 'Score',
+  'progress.trend.improving': 'Improving',
+  'progress.trend.worsening': 'Getting worse',
+  'progress.trend.flat': 'Steady',
+  'progress.best': 'Personal best {value} on {date}',
+  'progress.regression': {
+    one: '{metric} got worse in the last session ({before} → {after})',
+    other: '{metric} has been getting worse over the last {count} sessions ({before} → {after})',
+  },
+  'progress.dataTitle': 'Training data',
+  'progress.exportCsv': 'Export CSV',
+  'progress.exportBackup': 'Back up',
+  'progress.import': 'Import',
+  'progress.storageUnavailable': 'File storage is not available on this device',
+  'progress.transferError': 'Could not export or import training data: {message}',
+  'progress.importEmpty': 'Copy backup files (.json) into {path} to import them',
+  'progress.importDone': {
+    one: 'Imported {count} set, skipped {skipped} already saved',
+    other: 'Imported {count} sets, skipped {skipped} already saved',
+  },
+  'progress.importFailed': '{file}: {message}',
+  'progress.intensityTitle': 'Form vs Intensity',
+  'progress.bestOneRepMax': 'Best estimated 1RM {value} {unit} ({formula})',
+  'progress.bandScore': { one: 'score {score} · {count} set', other: 'score {score} · {count} sets' },
+  'progress.breakdown': 'Technique starts to break down from {percent}% of 1RM (about {load} {unit})',
+  'progress.formHoldsUp': 'Form holds up at every intensity logged so far',
+
+  'workout.plan': 'Plan Workout',
+  'workout.title': 'Workout',
+  'workout.empty': 'Add the exercises you plan to do',
+  'workout.sets': 'Sets',
+  'workout.reps': 'Reps',
+  'workout.addExercise': 'Add exercise',
+  'workout.rest': 'Rest between sets (s)',
+  'workout.start': 'Start Workout',
+  'workout.setOf': 'Set {set} of {sets}',
+  'workout.target': { one: 'Target {count} rep', other: 'Target {count} reps' },
+  'workout.targetLoad': { one: 'Target {count} rep at {load}', other: 'Target {count} reps at {load}' },
+  'workout.progress': '{done}/{total} sets done',
+  'workout.resting': 'Rest {time}',
+  'workout.skipRest': 'Skip Rest',
+  'workout.skipExercise': 'Skip Exercise',
+  'workout.end': 'End Workout',
+  'workout.recordSet': 'Record Set {set} of {sets}',
+  'workout.nextSet': 'Start Next Set',
+  'workout.nextSetIn': 'Start Next Set (rest {time})',
+  'workout.viewSummary': 'View Workout Summary',
+  'workout.summaryTitle': 'Workout Summary',
+  'workout.averageScore': 'average score',
+  'workout.totals': '{sets} of {planned} sets · {reps} reps · {minutes} min',
+  'workout.volume': 'Volume {volume} {unit}',
+  'workout.exerciseSets': '{done}/{planned} sets · {reps} reps',
+  'workout.bestWorst': 'Best set {best} · worst set {worst}',
+  'workout.shortSets': {
+    one: 'Set {sets} came up short of {target} reps',
+    other: 'Sets {sets} came up short of {target} reps',
+  },
+  'workout.fault': { one: '{message} (set {sets})', other: '{message} (sets {sets})' },
+
+  'load.title': 'Load & Effort',
+  'load.load': 'Load ({unit})',
+  'load.reps': 'Reps',
+  'load.rpe': 'RPE',
+  'load.oneRepMax': 'Estimated 1RM {value} {unit} · this set ≈{percent}%',
+  'load.noEstimate': 'Too far from failure to estimate a 1RM',
+
+  'camera.errorTitle': 'Camera Error',
+  'camera.permissionError': 'Unable to access camera permissions',
+  'camera.recordingError': 'Recording failed; the set was still analyzed',
+  'camera.videoSaveError': 'The recording could not be saved',
+  'camera.calibrating': 'Stand tall and hold still for a moment while we measure your body proportions.',
+  'camera.defaultGuidance': 'Position camera to capture your full movement range.',
+  'camera.setupTitle': 'Camera Setup Required',
+  'camera.setupMessage': 'To enable camera functionality, please install the required dependencies:',
+  'camera.setupNote': 'For now, you can test with the mock camera below:',
+  'camera.startMock': 'Start Mock Recording',
+  'camera.stopMock': 'Stop Mock Recording',
+  'camera.mockRecording': '📹 Mock Recording: {time}',
+  'camera.analysisStats': 'Analyzing {fps} fps · {latency} ms',
+  'camera.permissionTitle': 'Camera Access Required',
+  'camera.permissionMessage': 'To analyze your weightlifting form, we need access to your camera.',
+  'camera.grantAccess': 'Grant Camera Access',
+  'camera.unavailableTitle': 'Camera Not Available',
+  'camera.unavailableMessage': 'Unable to access camera device. Please check your device settings.',
+  'camera.tapToStop': 'Tap to stop recording and analyze',
+  'camera.tapToStart': 'Tap to start recording your set',
+};
+
+export default en;
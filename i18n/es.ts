@@ -0,0 +1,214 @@
+// i18n/es.ts
+import { Catalog } from './index';
+
+const es: Catalog = {
+  'movement.squat.name': 'Sentadilla',
+  'movement.squat.description': 'Analiza la profundidad, el recorrido de las rodillas y la postura',
+  'movement.squat.cameraGuidance': 'Graba de lado para revisar la profundidad y la postura, o de frente para revisar las rodillas. Asegúrate de que se vea de la cabeza a los pies.',
+  'movement.squat.incompletePose': 'Colócate de modo que se vea todo tu cuerpo',
+  'movement.bench.name': 'Press de banca',
+  'movement.bench.description': 'Revisa la trayectoria de la barra, la posición de los codos y la simetría',
+  'movement.bench.cameraGuidance': 'Coloca la cámara para mostrar el torso y la trayectoria de la barra. Mejor de lado.',
+  'movement.bench.incompletePose': 'Coloca la cámara para que se vea bien tu torso',
+  'movement.deadlift.name': 'Peso muerto',
+  'movement.deadlift.description': 'Evalúa la bisagra de cadera, la posición de la espalda y la trayectoria de la barra',
+  'movement.deadlift.cameraGuidance': 'Coloca la cámara de lado para mostrar todo el cuerpo. Captura el movimiento completo.',
+  'movement.deadlift.incompletePose': 'Colócate de modo que se vea todo tu cuerpo de lado',
+
+  'rule.depth': 'Profundidad',
+  'rule.kneeTracking': 'Recorrido de rodillas',
+  'rule.forwardLean': 'Inclinación hacia delante',
+  'rule.symmetry': 'Simetría',
+  'rule.elbowAngle': 'Apertura de codos',
+  'rule.barPath': 'Trayectoria de la barra',
+  'rule.backAngle': 'Ángulo de la espalda',
+  'rule.hipHinge': 'Bisagra de cadera',
+  'rule.kneePosition': 'Posición de rodillas',
+
+  'feedback.SQUAT_DEPTH_SHALLOW': 'Baja más: la cadera debe quedar por debajo de las rodillas',
+  'feedback.SQUAT_DEPTH_NEAR_PARALLEL': '¡Buena profundidad! Intenta bajar un poco más',
+  'feedback.SQUAT_DEPTH_OK': '¡Profundidad excelente!',
+  'feedback.SQUAT_KNEE_VALGUS': 'Las rodillas se meten hacia dentro: empújalas hacia fuera sobre los pies',
+  'feedback.SQUAT_KNEE_VALGUS_MILD': 'Cuida la alineación: las rodillas deben seguir la dirección de los pies',
+  'feedback.SQUAT_KNEE_TRACKING_OK': '¡Buen recorrido de rodillas!',
+  'feedback.SQUAT_FORWARD_LEAN_EXCESSIVE': 'Demasiada inclinación hacia delante: mantén el pecho arriba',
+  'feedback.SQUAT_FORWARD_LEAN_MILD': 'Ligera inclinación hacia delante: concéntrate en mantener el pecho arriba',
+  'feedback.SQUAT_FORWARD_LEAN_OK': '¡Buena postura erguida!',
+  'feedback.SQUAT_ASYMMETRY': 'Sentadilla desigual: revisa tu postura y tu equilibrio',
+  'feedback.BENCH_ELBOW_FLARE': 'Codos demasiado abiertos: acércalos al cuerpo',
+  'feedback.BENCH_ELBOW_FLARE_MILD': 'Codos algo abiertos: intenta mantenerlos a 45 grados',
+  'feedback.BENCH_ELBOW_OK': '¡Buena posición de codos!',
+  'feedback.BENCH_BAR_DRIFT': 'La barra se desvía: mantenla sobre los hombros',
+  'feedback.BENCH_BAR_DRIFT_MILD': 'Pequeña desviación de la barra: concéntrate en subir y bajar en línea recta',
+  'feedback.BENCH_BAR_PATH_OK': '¡Gran trayectoria de la barra!',
+  'feedback.BENCH_ASYMMETRY': 'Empuje desigual: revisa el agarre y la posición de los hombros',
+  'feedback.DEADLIFT_BACK_ROUNDING': 'Espalda redondeada: mantén la espalda recta',
+  'feedback.DEADLIFT_BACK_ROUNDING_MILD': 'Espalda ligeramente redondeada: busca una columna neutra',
+  'feedback.DEADLIFT_BACK_OK': '¡Buena posición de la espalda!',
+  'feedback.DEADLIFT_HIP_HINGE_SHALLOW': 'Falta bisagra de cadera: lleva la cadera hacia atrás',
+  'feedback.DEADLIFT_HIP_HINGE_LIMITED': 'Buena bisagra, intenta llevar la cadera un poco más atrás',
+  'feedback.DEADLIFT_HIP_HINGE_OK': '¡Excelente patrón de bisagra de cadera!',
+  'feedback.DEADLIFT_KNEES_FORWARD': 'Rodillas demasiado adelantadas: mantén las espinillas más verticales',
+  'feedback.POSE_UNRELIABLE': 'Mantén la posición: algunas articulaciones no se ven bien',
+  'feedback.POSE_INCOMPLETE': 'Detección de postura incompleta',
+
+  'view.front': 'frontal',
+  'view.side': 'lateral',
+  'view.oblique': 'oblicua',
+  'view.unknown': 'desconocida',
+  'list.or': ' o ',
+
+  'segment.torso': 'del torso',
+  'segment.femur': 'del muslo',
+  'segment.shin': 'de la espinilla',
+  'segment.upperArm': 'del brazo',
+
+  'skip.wrongView': 'Necesita una vista {views}, la cámara está en vista {view}',
+  'skip.notVisible': 'No se ven los puntos clave para esta revisión',
+  'skip.noSegment': 'No se pudo medir la longitud {segment} para escalar esta revisión',
+
+  'set.noReps': 'No se detectaron repeticiones completas: asegúrate de que todo el recorrido quede en el encuadre',
+  'set.noData': 'No se capturaron datos de postura durante esta serie',
+  'set.recurringFault': { one: '{message} (repetición {reps})', other: '{message} (repeticiones {reps})' },
+  'set.consistent': 'Técnica constante en toda la serie',
+  'set.bestWorst': 'Mejor repetición: #{best} ({bestScore}), peor repetición: #{worst} ({worstScore})',
+  'set.velocityLoss': 'Pérdida de velocidad: {percent}% desde la repetición #{rep}',
+
+  'app.title': 'Technical Mastery',
+  'app.subtitle': 'Entrenador de halterofilia con IA',
+  'app.selectMovement': 'Elige el ejercicio',
+  'app.language': 'Idioma',
+  'app.athleteHeight': 'Estatura del atleta (cm)',
+  'app.optional': 'Opcional',
+  'app.load': 'Carga',
+  'app.readyToAnalyze': 'Listo para analizar: {movement}',
+  'app.tapToBegin': 'Toca "Empezar a grabar" para comenzar el análisis',
+  'app.viewLastResults': 'Ver últimos resultados ({score}/100)',
+  'app.viewProgress': 'Ver progreso',
+  'app.startRecording': 'Empezar a grabar',
+  'app.readyToRecord': 'Listo para grabar el análisis de {movement}',
+  'app.version': 'MVP v1.1 - Integración de cámara activa',
+  'app.scoreExcellent': 'Excelente',
+  'app.scoreGood': 'Bien',
+  'app.scoreNeedsWork': 'A mejorar',
+
+  'results.title': 'Resultados del análisis',
+  'results.reps': { one: '{count} repetición', other: '{count} repeticiones' },
+  'results.breakdown': 'Desglose de la puntuación',
+  'results.breakdownSummary': '100 − {points} en deducciones = {score}',
+  'results.weight': 'hasta −{points}',
+  'results.notMeasured': 'sin revisar',
+  'results.deductionReps': { one: 'repetición {reps}', other: 'repeticiones {reps}' },
+  'results.feedback': 'Comentarios',
+  'results.tempoVelocity': 'Tempo y velocidad ({percent}% de pérdida)',
+  'results.tempo': '#{rep}  {down} bajada · {pause} pausa · {up} subida',
+  'results.notChecked': 'Sin revisar',
+  'results.duration': 'Duración: {seconds} s',
+  'results.view': 'vista {view}',
+  'results.angles3d': 'ángulos 3D',
+  'results.angles2d': 'ángulos 2D',
+  'results.recordAnother': 'Grabar otra serie',
+  'results.replay': 'Reproducir la serie en el analizador',
+
+  'live.reps': { one: 'repetición', other: 'repeticiones' },
+  'live.setScore': 'puntuación',
+
+  'cue.setSummary': { one: 'Serie terminada: {count} repetición, puntuación {score}', other: 'Serie terminada: {count} repeticiones, puntuación {score}' },
+  'cue.workOn': 'En la próxima serie, trabaja esto: {message}',
+
+  'progress.title': 'Progreso',
+  'progress.empty': 'Todavía no hay series guardadas de este ejercicio',
+  'progress.sets': { one: '{count} serie', other: '{count} series' },
+  'progress.sessions': { one: '{count} sesión', other: '{count} sesiones' },
+  'progress.score': 'Puntuación',
+  'progress.trend.improving': 'Mejorando',
+  'progress.trend.worsening': 'Empeorando',
+  'progress.trend.flat': 'Estable',
+  'progress.best': 'Mejor marca {value} el {date}',
+  'progress.regression': {
+    one: '{metric} empeoró en la última sesión ({before} → {after})',
+    other: '{metric} ha ido empeorando en las últimas {count} sesiones ({before} → {after})',
+  },
+  'progress.dataTitle': 'Datos de entrenamiento',
+  'progress.exportCsv': 'Exportar CSV',
+  'progress.exportBackup': 'Copia de seguridad',
+  'progress.import': 'Importar',
+  'progress.storageUnavailable': 'El almacenamiento de archivos no está disponible en este dispositivo',
+  'progress.transferError': 'No se pudieron exportar ni importar los datos: {message}',
+  'progress.importEmpty': 'Copia las copias de seguridad (.json) en {path} para importarlas',
+  'progress.importDone': {
+    one: 'Se importó {count} serie, se omitieron {skipped} ya guardadas',
+    other: 'Se importaron {count} series, se omitieron {skipped} ya guardadas',
+  },
+  'progress.importFailed': '{file}: {message}',
+  'progress.intensityTitle': 'Técnica según intensidad',
+  'progress.bestOneRepMax': 'Mejor 1RM estimado {value} {unit} ({formula})',
+  'progress.bandScore': { one: 'puntuación {score} · {count} serie', other: 'puntuación {score} · {count} series' },
+  'progress.breakdown': 'La técnica empieza a fallar a partir del {percent}% del 1RM (unos {load} {unit})',
+  'progress.formHoldsUp': 'La técnica se mantiene en todas las intensidades registradas',
+
+  'workout.plan': 'Planificar entrenamiento',
+  'workout.title': 'Entrenamiento',
+  'workout.empty': 'Añade los ejercicios que vas a hacer',
+  'workout.sets': 'Series',
+  'workout.reps': 'Reps',
+  'workout.addExercise': 'Añadir ejercicio',
+  'workout.rest': 'Descanso entre series (s)',
+  'workout.start': 'Empezar entrenamiento',
+  'workout.setOf': 'Serie {set} de {sets}',
+  'workout.target': { one: 'Objetivo {count} repetición', other: 'Objetivo {count} repeticiones' },
+  'workout.targetLoad': {
+    one: 'Objetivo {count} repetición con {load}',
+    other: 'Objetivo {count} repeticiones con {load}',
+  },
+  'workout.progress': '{done}/{total} series hechas',
+  'workout.resting': 'Descanso {time}',
+  'workout.skipRest': 'Saltar descanso',
+  'workout.skipExercise': 'Saltar ejercicio',
+  'workout.end': 'Terminar entrenamiento',
+  'workout.recordSet': 'Grabar serie {set} de {sets}',
+  'workout.nextSet': 'Empezar siguiente serie',
+  'workout.nextSetIn': 'Empezar siguiente serie (descanso {time})',
+  'workout.viewSummary': 'Ver resumen del entrenamiento',
+  'workout.summaryTitle': 'Resumen del entrenamiento',
+  'workout.averageScore': 'puntuación media',
+  'workout.totals': '{sets} de {planned} series · {reps} reps · {minutes} min',
+  'workout.volume': 'Volumen {volume} {unit}',
+  'workout.exerciseSets': '{done}/{planned} series · {reps} reps',
+  'workout.bestWorst': 'Mejor serie {best} · peor serie {worst}',
+  'workout.shortSets': {
+    one: 'La serie {sets} no llegó a {target} repeticiones',
+    other: 'Las series {sets} no llegaron a {target} repeticiones',
+  },
+  'workout.fault': { one: '{message} (serie {sets})', other: '{message} (series {sets})' },
+
+  'load.title': 'Carga y esfuerzo',
+  'load.load': 'Carga ({unit})',
+  'load.reps': 'Reps',
+  'load.rpe': 'RPE',
+  'load.oneRepMax': '1RM estimado {value} {unit} · esta serie ≈{percent}%',
+  'load.noEstimate': 'Demasiado lejos del fallo para estimar un 1RM',
+
+  'camera.errorTitle': 'Error de cámara',
+  'camera.permissionError': 'No se pudo acceder a los permisos de la cámara',
+  'camera.recordingError': 'Falló la grabación; la serie se analizó igualmente',
+  'camera.videoSaveError': 'No se pudo guardar la grabación',
+  'camera.calibrating': 'Ponte de pie, erguido, y quédate quieto un momento mientras medimos tus proporciones.',
+  'camera.defaultGuidance': 'Coloca la cámara para capturar todo el recorrido del movimiento.',
+  'camera.setupTitle': 'Hay que configurar la cámara',
+  'camera.setupMessage': 'Para activar la cámara, instala las dependencias necesarias:',
+  'camera.setupNote': 'Mientras tanto, puedes probar con la cámara simulada:',
+  'camera.startMock': 'Empezar grabación simulada',
+  'camera.stopMock': 'Detener grabación simulada',
+  'camera.mockRecording': '📹 Grabación simulada: {time}',
+  'camera.analysisStats': 'Analizando {fps} fps · {latency} ms',
+  'camera.permissionTitle': 'Se necesita acceso a la cámara',
+  'camera.permissionMessage': 'Para analizar tu técnica necesitamos acceder a tu cámara.',
+  'camera.grantAccess': 'Permitir acceso a la cámara',
+  'camera.unavailableTitle': 'Cámara no disponible',
+  'camera.unavailableMessage': 'No se pudo acceder a la cámara. Revisa la configuración del dispositivo.',
+  'camera.tapToStop': 'Toca para detener la grabación y analizar',
+  'camera.tapToStart': 'Toca para empezar a grabar tu serie',
+};
+
+export default es;
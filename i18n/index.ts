@@ -0,0 +1,74 @@
+// i18n/index.ts
+import en from './en';
+import es from './es';
+import zh from './zh';
+
+export type Locale = 'en' | 'es' | 'zh';
+
+// Picked by the count parameter; locales without plural forms only use other
+export interface PluralMessage {
+  one?: string;
+  other: string;
+}
+
+export type Message = string | PluralMessage;
+
+export type Catalog = { [key: string]: Message };
+
+export type MessageParams = { [name: string]: string | number };
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const CATALOGS: { [locale in Locale]: Catalog } = { en, es, zh };
+
+// Order here is the order shown in the language picker
+export const LOCALES: { id: Locale; name: string }[] = [
+  { id: 'en', name: 'English' },
+  { id: 'es', name: 'Español' },
+  { id: 'zh', name: '中文' },
+];
+
+// Maps a BCP 47 tag such as es-MX or zh-Hans-CN to a supported locale
+export const resolveLocale = (tag?: string | null): Locale => {
+  const language = (tag || '').toLowerCase().split(/[-_]/)[0];
+  return LOCALES.some(locale => locale.id === language) ? language as Locale : DEFAULT_LOCALE;
+};
+
+export const detectLocale = (): Locale => {
+  try {
+    return resolveLocale(Intl.DateTimeFormat().resolvedOptions().locale);
+  } catch (error) {
+    return DEFAULT_LOCALE;
+  }
+};
+
+let currentLocale: Locale = detectLocale();
+
+export const getLocale = (): Locale => currentLocale;
+
+export const setLocale = (locale: Locale): void => {
+  currentLocale = locale;
+};
+
+// Chinese has no plural forms; English and Spanish only single out one
+const pluralForm = (locale: Locale, count: number): keyof PluralMessage =>
+  locale !== 'zh' && count === 1 ? 'one' : 'other';
+
+const interpolate = (text: string, params: MessageParams): string =>
+  text.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+
+/**
+ * Looks up a message in the current locale, falling back to English and then
+ * to the key itself. {name} placeholders are filled from params; plural
+ * messages are chosen by params.count.
+ */
+export const t = (key: string, params: MessageParams = {}): string => {
+  const message = CATALOGS[currentLocale][key] ?? CATALOGS[DEFAULT_LOCALE][key];
+  if (message === undefined) {
+    return key;
+  }
+  const text = typeof message === 'string'
+    ? message
+    : message[pluralForm(currentLocale, Number(params.count))] ?? message.other;
+  return interpolate(text, params);
+};
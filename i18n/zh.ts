@@ -0,0 +1,202 @@
+// i18n/zh.ts
+import { Catalog } from './index';
+
+const zh: Catalog = {
+  'movement.squat.name': '深蹲',
+  'movement.squat.description': '分析深蹲深度、膝盖轨迹和姿势',
+  'movement.squat.cameraGuidance': '从侧面拍摄以检查深度和姿势，或从正面拍摄以检查膝盖轨迹。请确保从头到脚都在画面内。',
+  'movement.squat.incompletePose': '请调整位置，让全身都在画面内',
+  'movement.bench.name': '卧推',
+  'movement.bench.description': '检查杠铃轨迹、肘部位置和左右对称',
+  'movement.bench.cameraGuidance': '摆放相机以拍到上半身和杠铃轨迹，最好从侧面拍摄。',
+  'movement.bench.incompletePose': '请调整相机，清楚拍到上半身',
+  'movement.deadlift.name': '硬拉',
+  'movement.deadlift.description': '评估髋关节铰链、背部姿势和杠铃轨迹',
+  'movement.deadlift.cameraGuidance': '从侧面拍摄全身，完整记录整个动作。',
+  'movement.deadlift.incompletePose': '请调整位置，让侧面全身都在画面内',
+
+  'rule.depth': '深度',
+  'rule.kneeTracking': '膝盖轨迹',
+  'rule.forwardLean': '前倾',
+  'rule.symmetry': '对称',
+  'rule.elbowAngle': '肘部外展',
+  'rule.barPath': '杠铃轨迹',
+  'rule.backAngle': '背部角度',
+  'rule.hipHinge': '髋关节铰链',
+  'rule.kneePosition': '膝盖位置',
+
+  'feedback.SQUAT_DEPTH_SHALLOW': '再蹲深一些——髋部需要低于膝盖',
+  'feedback.SQUAT_DEPTH_NEAR_PARALLEL': '深度不错！试着再稍微蹲深一点',
+  'feedback.SQUAT_DEPTH_OK': '深度非常好！',
+  'feedback.SQUAT_KNEE_VALGUS': '膝盖内扣——把膝盖向外推，对准脚尖',
+  'feedback.SQUAT_KNEE_VALGUS_MILD': '注意膝盖方向——保持膝盖与脚尖方向一致',
+  'feedback.SQUAT_KNEE_TRACKING_OK': '膝盖轨迹很好！',
+  'feedback.SQUAT_FORWARD_LEAN_EXCESSIVE': '身体前倾过多——保持挺胸',
+  'feedback.SQUAT_FORWARD_LEAN_MILD': '身体略微前倾——注意保持挺胸',
+  'feedback.SQUAT_FORWARD_LEAN_OK': '躯干挺直，很好！',
+  'feedback.SQUAT_ASYMMETRY': '深蹲左右不均——检查站姿和平衡',
+  'feedback.BENCH_ELBOW_FLARE': '肘部外展过大——让肘部靠近身体',
+  'feedback.BENCH_ELBOW_FLARE_MILD': '肘部略微外展——尽量保持在45度左右',
+  'feedback.BENCH_ELBOW_OK': '肘部位置很好！',
+  'feedback.BENCH_BAR_DRIFT': '杠铃偏移——保持杠铃在肩膀正上方',
+  'feedback.BENCH_BAR_DRIFT_MILD': '杠铃略有偏移——专注于垂直上下',
+  'feedback.BENCH_BAR_PATH_OK': '杠铃轨迹很好！',
+  'feedback.BENCH_ASYMMETRY': '推举左右不均——检查握距和肩膀位置',
+  'feedback.DEADLIFT_BACK_ROUNDING': '检测到弓背——保持背部挺直',
+  'feedback.DEADLIFT_BACK_ROUNDING_MILD': '背部略微弯曲——注意保持脊柱中立',
+  'feedback.DEADLIFT_BACK_OK': '背部姿势很好！',
+  'feedback.DEADLIFT_HIP_HINGE_SHALLOW': '髋部后移不足——把髋部向后推',
+  'feedback.DEADLIFT_HIP_HINGE_LIMITED': '髋关节铰链不错，试着再向后推一点髋部',
+  'feedback.DEADLIFT_HIP_HINGE_OK': '髋关节铰链模式非常好！',
+  'feedback.DEADLIFT_KNEES_FORWARD': '膝盖过于前移——让小腿更垂直',
+  'feedback.POSE_UNRELIABLE': '请保持姿势——部分关节看不清楚',
+  'feedback.POSE_INCOMPLETE': '姿势检测不完整',
+
+  'view.front': '正面',
+  'view.side': '侧面',
+  'view.oblique': '斜侧',
+  'view.unknown': '未知',
+  'list.or': '或',
+
+  'segment.torso': '躯干',
+  'segment.femur': '大腿',
+  'segment.shin': '小腿',
+  'segment.upperArm': '上臂',
+
+  'skip.wrongView': '需要{views}视角，当前相机为{view}视角',
+  'skip.notVisible': '看不到此项检查所需的关键点',
+  'skip.noSegment': '无法测量{segment}长度来换算此项检查',
+
+  'set.noReps': '未检测到完整的动作——请确保整个动作幅度都在画面内',
+  'set.noData': '本组没有采集到姿势数据',
+  'set.recurringFault': { other: '{message}（第 {reps} 次）' },
+  'set.consistent': '整组动作保持一致',
+  'set.bestWorst': '最佳：第 {best} 次（{bestScore}），最差：第 {worst} 次（{worstScore}）',
+  'set.velocityLoss': '速度损失：相比第 {rep} 次下降 {percent}%',
+
+  'app.title': 'Technical Mastery',
+  'app.subtitle': 'AI 举重教练',
+  'app.selectMovement': '选择动作',
+  'app.language': '语言',
+  'app.athleteHeight': '运动员身高（厘米）',
+  'app.optional': '选填',
+  'app.load': '重量',
+  'app.readyToAnalyze': '准备分析：{movement}',
+  'app.tapToBegin': '点击“开始录制”开始分析',
+  'app.viewLastResults': '查看上次结果（{score}/100）',
+  'app.viewProgress': '查看进步',
+  'app.startRecording': '开始录制',
+  'app.readyToRecord': '准备录制{movement}分析',
+  'app.version': 'MVP v1.1 - 相机已接入',
+  'app.scoreExcellent': '优秀',
+  'app.scoreGood': '良好',
+  'app.scoreNeedsWork': '需要改进',
+
+  'results.title': '分析结果',
+  'results.reps': { other: '{count} 次' },
+  'results.breakdown': '评分明细',
+  'results.breakdownSummary': '100 − 扣分 {points} = {score}',
+  'results.weight': '最多 −{points}',
+  'results.notMeasured': '未检查',
+  'results.deductionReps': { other: '第 {reps} 次' },
+  'results.feedback': '反馈',
+  'results.tempoVelocity': '节奏与速度（损失 {percent}%）',
+  'results.tempo': '#{rep}  下放 {down} · 停顿 {pause} · 上推 {up}',
+  'results.notChecked': '未检查',
+  'results.duration': '时长：{seconds} 秒',
+  'results.view': '{view}视角',
+  'results.angles3d': '3D 角度',
+  'results.angles2d': '2D 角度',
+  'results.recordAnother': '再录一组',
+  'results.replay': '用分析器重放本组',
+
+  'live.reps': { other: '次' },
+  'live.setScore': '本组得分',
+
+  'cue.setSummary': { other: '本组完成：{count} 次，得分 {score}' },
+  'cue.workOn': '下一组注意：{message}',
+
+  'progress.title': '进步',
+  'progress.empty': '这个动作还没有保存的训练组',
+  'progress.sets': { other: '{count} 组' },
+  'progress.sessions': { other: '{count} 次训练' },
+  'progress.score': '得分',
+  'progress.trend.improving': '进步中',
+  'progress.trend.worsening': '在退步',
+  'progress.trend.flat': '保持稳定',
+  'progress.best': '个人最佳 {value}（{date}）',
+  'progress.regression': { other: '最近 {count} 次训练中{metric}持续变差（{before} → {after}）' },
+  'progress.dataTitle': '训练数据',
+  'progress.exportCsv': '导出 CSV',
+  'progress.exportBackup': '备份',
+  'progress.import': '导入',
+  'progress.storageUnavailable': '此设备无法使用文件存储',
+  'progress.transferError': '无法导出或导入训练数据：{message}',
+  'progress.importEmpty': '将备份文件（.json）复制到 {path} 后即可导入',
+  'progress.importDone': { other: '已导入 {count} 组，跳过 {skipped} 组已保存的数据' },
+  'progress.importFailed': '{file}：{message}',
+  'progress.intensityTitle': '动作质量与强度',
+  'progress.bestOneRepMax': '最佳估算 1RM {value} {unit}（{formula}）',
+  'progress.bandScore': { other: '得分 {score} · {count} 组' },
+  'progress.breakdown': '从 1RM 的 {percent}%（约 {load} {unit}）开始技术动作变形',
+  'progress.formHoldsUp': '目前记录的所有强度下动作都保持良好',
+
+  'workout.plan': '计划训练',
+  'workout.title': '训练',
+  'workout.empty': '添加你计划做的动作',
+  'workout.sets': '组数',
+  'workout.reps': '次数',
+  'workout.addExercise': '添加动作',
+  'workout.rest': '组间休息（秒）',
+  'workout.start': '开始训练',
+  'workout.setOf': '第 {set}/{sets} 组',
+  'workout.target': { other: '目标 {count} 次' },
+  'workout.targetLoad': { other: '目标 {count} 次 × {load}' },
+  'workout.progress': '已完成 {done}/{total} 组',
+  'workout.resting': '休息 {time}',
+  'workout.skipRest': '跳过休息',
+  'workout.skipExercise': '跳过此动作',
+  'workout.end': '结束训练',
+  'workout.recordSet': '录制第 {set}/{sets} 组',
+  'workout.nextSet': '开始下一组',
+  'workout.nextSetIn': '开始下一组（休息 {time}）',
+  'workout.viewSummary': '查看训练总结',
+  'workout.summaryTitle': '训练总结',
+  'workout.averageScore': '平均得分',
+  'workout.totals': '{sets}/{planned} 组 · {reps} 次 · {minutes} 分钟',
+  'workout.volume': '训练量 {volume} {unit}',
+  'workout.exerciseSets': '{done}/{planned} 组 · {reps} 次',
+  'workout.bestWorst': '最佳第 {best} 组 · 最差第 {worst} 组',
+  'workout.shortSets': { other: '第 {sets} 组未达到 {target} 次' },
+  'workout.fault': { other: '{message}（第 {sets} 组）' },
+
+  'load.title': '重量与强度',
+  'load.load': '重量（{unit}）',
+  'load.reps': '次数',
+  'load.rpe': 'RPE',
+  'load.oneRepMax': '估算 1RM {value} {unit} · 本组约 {percent}%',
+  'load.noEstimate': '离力竭太远，无法估算 1RM',
+
+  'camera.errorTitle': '相机错误',
+  'camera.permissionError': '无法获取相机权限',
+  'camera.recordingError': '录制失败，但本组动作已完成分析',
+  'camera.videoSaveError': '无法保存录像',
+  'camera.calibrating': '请站直并保持不动，我们正在测量您的身体比例。',
+  'camera.defaultGuidance': '摆放相机以拍到完整的动作幅度。',
+  'camera.setupTitle': '需要设置相机',
+  'camera.setupMessage': '要启用相机功能，请安装以下依赖：',
+  'camera.setupNote': '目前您可以先用下面的模拟相机测试：',
+  'camera.startMock': '开始模拟录制',
+  'camera.stopMock': '停止模拟录制',
+  'camera.mockRecording': '📹 模拟录制中：{time}',
+  'camera.analysisStats': '分析 {fps} 帧/秒 · {latency} 毫秒',
+  'camera.permissionTitle': '需要相机权限',
+  'camera.permissionMessage': '为了分析您的举重动作，我们需要使用您的相机。',
+  'camera.grantAccess': '允许使用相机',
+  'camera.unavailableTitle': '相机不可用',
+  'camera.unavailableMessage': '无法使用相机设备，请检查设备设置。',
+  'camera.tapToStop': '点击停止录制并分析',
+  'camera.tapToStart': '点击开始录制本组',
+};
+
+export default zh;